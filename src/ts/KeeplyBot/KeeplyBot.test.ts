@@ -0,0 +1,240 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import * as api from './api/api';
+import KeeplyBot from './KeeplyBot';
+import { IPendingMessage, IUserMessageCard } from './shared/interfaces';
+
+/**
+ * Закрытые члены KeeplyBot, через которые тест работает с лентой.
+ */
+interface IKeeplyBotInternals {
+  _messages: IUserMessageCard[];
+  _createPendingMessage: (message: string, files: File[]) => IPendingMessage;
+  _sendPendingMessage: (pending: IPendingMessage) => Promise<void>;
+  _upsertMessage: (msg: IUserMessageCard) => void;
+  _createMessageElement: (msg: IUserMessageCard) => HTMLElement;
+}
+
+/**
+ * Создаёт сообщение ленты.
+ *
+ * @param {string} id - Идентификатор сообщения.
+ * @param {string} time - Время в формате `ЧЧ:ММ`.
+ * @param {Partial<IUserMessageCard>} [fields] - Остальные поля.
+ * @returns {IUserMessageCard} Сообщение.
+ */
+const createMessage = (
+  id: string,
+  time: string,
+  fields: Partial<IUserMessageCard> = {}
+): IUserMessageCard => ({
+  id,
+  message: id,
+  files: [],
+  timestamp: `2024-05-01T${time}:00.000Z`,
+  ...fields,
+});
+
+/**
+ * Возвращает идентификаторы элементов ленты в порядке отображения.
+ *
+ * @returns {string[]} Идентификаторы сообщений.
+ */
+const getFeedIds = (): string[] =>
+  [...document.querySelectorAll('.chat__message-item')].map((item) => item.id);
+
+/**
+ * Проверяет, что в элементе нет исполняемого содержимого: обработчиков
+ * событий, ссылок с опасным протоколом и опасных элементов.
+ *
+ * @param {HTMLElement} element - Элемент сообщения.
+ */
+const expectNoActiveContent = (element: HTMLElement): void => {
+  const nodes = [...element.querySelectorAll('*')];
+
+  expect(element.querySelector('script, iframe, svg, math')).toBeNull();
+  for (const node of nodes) {
+    for (const { name, value } of node.attributes) {
+      expect(name).not.toMatch(/^on/i);
+      if (['href', 'src', 'action', 'formaction'].includes(name)) {
+        expect(value).not.toMatch(/^\s*(javascript|data|vbscript):/i);
+      }
+    }
+  }
+};
+
+/**
+ * Заглушка IntersectionObserver, которого нет в jsdom.
+ */
+class MockIntersectionObserver {
+  public observe(): void {}
+  public unobserve(): void {}
+  public disconnect(): void {}
+}
+
+describe('KeeplyBot', () => {
+  let bot: IKeeplyBotInternals;
+  let sendMessage: jest.SpiedFunction<typeof api.sendMessage>;
+
+  beforeEach(() => {
+    globalThis.IntersectionObserver =
+      MockIntersectionObserver as unknown as typeof IntersectionObserver;
+    // В jsdom нет CSS.escape; идентификаторы в тестах экранировать не нужно
+    globalThis.CSS = {
+      escape: (value: string): string => value,
+    } as unknown as typeof CSS;
+    document.body.innerHTML =
+      '<div class="chat__feed"><div class="chat__content"></div></div>';
+    bot = new KeeplyBot() as unknown as IKeeplyBotInternals;
+    sendMessage = jest.spyOn(api, 'sendMessage');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.replaceChildren();
+  });
+
+  it('находит созданное сообщение по clientId, даже если текст совпадает', async () => {
+    const first = bot._createPendingMessage('Купить хлеб', []);
+    const second = bot._createPendingMessage('Купить хлеб', []);
+    const response = [
+      createMessage('a', '10:00', {
+        message: 'Купить хлеб',
+        clientId: first.clientId,
+      }),
+      createMessage('b', '10:01', {
+        message: 'Купить хлеб',
+        clientId: second.clientId,
+      }),
+    ];
+    sendMessage.mockResolvedValue(response);
+
+    // Ответ на второе сообщение приходит раньше, чем на первое
+    await bot._sendPendingMessage(second);
+    expect(getFeedIds()).toEqual([first.id, 'b']);
+
+    await bot._sendPendingMessage(first);
+    expect(getFeedIds()).toEqual(['a', 'b']);
+    expect(bot._messages.map((msg) => msg.id)).toEqual(['a', 'b']);
+  });
+
+  it('добавляет в ленту только созданное сообщение из ответа', async () => {
+    bot._upsertMessage(createMessage('loaded', '10:00'));
+    const pending = bot._createPendingMessage('новое', []);
+    sendMessage.mockResolvedValue([
+      createMessage('history', '09:00'),
+      createMessage('loaded', '10:00'),
+      createMessage('created', '11:00', { clientId: pending.clientId }),
+    ]);
+
+    await bot._sendPendingMessage(pending);
+
+    expect(getFeedIds()).toEqual(['loaded', 'created']);
+    expect(bot._messages.map((msg) => msg.id)).toEqual(['loaded', 'created']);
+  });
+
+  it('вставляет новое сообщение по времени, а не в конец ленты', () => {
+    bot._upsertMessage(createMessage('a', '10:00'));
+    bot._upsertMessage(createMessage('c', '12:00'));
+    const pending = bot._createPendingMessage('отправляется', []);
+
+    bot._upsertMessage(createMessage('b', '11:00'));
+    bot._upsertMessage(createMessage('d', '13:00'));
+
+    expect(getFeedIds()).toEqual(['a', 'b', 'c', 'd', pending.id]);
+    expect(bot._messages.map((msg) => msg.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  describe('текст сообщения', () => {
+    /**
+     * Создаёт элемент сообщения пользователя с заданным текстом.
+     *
+     * @param {string} message - Текст сообщения.
+     * @returns {HTMLElement} Элемент сообщения.
+     */
+    const render = (message: string): HTMLElement =>
+      bot._createMessageElement(createMessage('1', '10:00', { message }));
+
+    it.each([
+      '<script>alert(1)</script>',
+      '<img src=x onerror="alert(1)">',
+      '<svg onload="alert(1)"></svg>',
+      '<iframe src="javascript:alert(1)"></iframe>',
+      '<a href="javascript:alert(1)">ссылка</a>',
+      '[ссылка](javascript:alert(1))',
+      '[ссылка](data:text/html;base64,PHNjcmlwdD4=)',
+      '**<img src=x onerror=alert(1)>** _<svg onload=alert(1)>_',
+    ])('не исполняет HTML и ссылки из текста: %s', (message) => {
+      const element = render(message);
+
+      expectNoActiveContent(element);
+      expect(element.querySelector('.chat__message-text')?.textContent).toBe(
+        message.replace(/\*\*|_/g, '')
+      );
+    });
+
+    it('не добавляет атрибуты автоссылкам из адреса', () => {
+      const element = render(
+        'https://example.com/"onmouseover="alert(1) и ' +
+          'https://example.com/<svg/onload=alert(1)> и javascript:alert(1)'
+      );
+      const links = [...element.querySelectorAll('a')];
+
+      expectNoActiveContent(element);
+      expect(links).toHaveLength(2);
+      for (const link of links) {
+        expect(link.getAttribute('href')).toMatch(/^https:\/\/example\.com\//);
+        expect(link.getAttributeNames().sort()).toEqual([
+          'class',
+          'href',
+          'rel',
+          'target',
+        ]);
+      }
+    });
+
+    it('не добавляет атрибуты чекбоксу задачи из текста пункта', () => {
+      const element = render(
+        '- [ ] "><img src=x onerror=alert(1)>\n' +
+          '- [x] " onclick="alert(1)" autofocus="'
+      );
+      const checkboxes = [
+        ...element.querySelectorAll<HTMLInputElement>('input'),
+      ];
+
+      expectNoActiveContent(element);
+      expect(checkboxes).toHaveLength(2);
+      for (const checkbox of checkboxes) {
+        expect(checkbox.getAttributeNames().sort()).toEqual(
+          [
+            'aria-label',
+            'class',
+            'data-action',
+            'data-task-index',
+            'type',
+            ...(checkbox.checked ? ['checked'] : []),
+          ].sort()
+        );
+      }
+    });
+
+    it('показывает HTML в блоке и строке кода как текст', () => {
+      const code = '<script>alert(1)</script><svg onload="alert(1)">';
+      const element = render(
+        `\`<img src=x onerror=alert(1)>\`\n\`\`\`html\n${code}\n\`\`\``
+      );
+
+      expectNoActiveContent(element);
+      expect(element.querySelector('p code')?.textContent).toBe(
+        '<img src=x onerror=alert(1)>'
+      );
+      expect(element.querySelector('pre code')?.textContent).toBe(code);
+    });
+  });
+});
@@ -1,19 +1,173 @@
 import linkifyHtml from 'linkify-html';
 import { ICreateElementOptions } from '../shared/interfaces';
 import createElement from '../utils/createElementFunction';
+import createId from '../utils/createId';
 import {
+  formatFileSize,
+  getFileCategory,
+  getFileIcon,
+  getFilePreviewType,
+  isFileTypeAllowed,
+} from '../utils/fileHelpers';
+import escapeHtml from '../utils/escapeHtml';
+import Modal from '../utils/Modal';
+import sanitizeHtml from '../utils/sanitizeHtml';
+import ToastManager from '../utils/ToastManager';
+import {
+  connectRealtime,
+  createScheduledItem,
+  deleteMessage,
+  deleteScheduledItem,
+  fetchAttachments,
   fetchCapabilities,
+  fetchFavorites,
   fetchMessages,
+  fetchPinnedMessages,
+  fetchScheduledItems,
+  fetchTags,
+  MESSAGES_PAGE_SIZE,
+  rescheduleItem,
+  sendCallback,
   sendMessage,
   SERVER_URL,
+  setMessageFavorite,
+  setMessagePinned,
+  updateMessage,
 } from './api/api';
+import RealtimeChannel from './api/RealtimeChannel';
+import BUILTIN_COMMANDS from './commands/builtinCommands';
+import CommandRegistry, {
+  formatCommandUsage,
+} from './commands/CommandRegistry';
+import CommandSuggestions from './commands/CommandSuggestions';
+import FeedTimeline, { formatRelativeTime } from './feed/FeedTimeline';
+import JumpToDate from './feed/JumpToDate';
+import FilePreview from './files/FilePreview';
+import ImageLightbox from './files/ImageLightbox';
+import {
+  formatCoordinates,
+  getCurrentLocation,
+  getMapUrl,
+  isValidLocation,
+} from './location/geolocation';
+import LocationDialog from './location/LocationDialog';
+import FormattingToolbar from './markdown/FormattingToolbar';
+import renderMarkdown, { toggleTask } from './markdown/markdown';
+import PinnedBar from './pinned/PinnedBar';
+import LinkPreviews from './preview/LinkPreviews';
+import MediaNoteRecorder from './recorder/MediaNoteRecorder';
+import ReminderScheduler from './schedule/ReminderScheduler';
+import ScheduleDialog from './schedule/ScheduleDialog';
+import MessageSearch from './search/MessageSearch';
+import AttachmentsGallery from './sidebar/AttachmentsGallery';
+import Sidebar from './sidebar/Sidebar';
+import OfflineStore from './storage/OfflineStore';
+import renderTagChips, { extractTags } from './tags/hashtags';
+import TagFilter from './tags/TagFilter';
 import {
   IBotCapabilities,
+  IBotCommand,
+  IBotPayload,
   IBotUiStructure,
   ICapabilitiesElementSettings,
+  IMessageAttachment,
+  IMessageFile,
+  IMessageLocation,
+  IMessagesPage,
+  IParsedCommand,
+  IPendingMessage,
+  IScheduledItem,
+  IScheduledItemDraft,
+  ITagCount,
+  IUploadProgress,
   IUserMessageCard,
+  MessageSender,
+  PendingState,
+  RealtimeEvent,
+  RealtimeStatus,
+  ScheduledKind,
 } from './shared/interfaces';
 
+/**
+ * Расстояние до верхнего края ленты (px), при котором подгружается история
+ */
+const HISTORY_LOAD_THRESHOLD = 80;
+
+/**
+ * Допуск (px), при котором лента считается прокрученной до конца
+ */
+const FEED_BOTTOM_THRESHOLD = 40;
+
+/**
+ * Длительность подсветки сообщения после перехода к нему (мс)
+ */
+const MESSAGE_FLASH_DURATION = 2000;
+
+/**
+ * Подписи индикатора состояния подключения к каналу обновлений
+ */
+const CONNECTION_STATUS_LABELS: Record<RealtimeStatus, string> = {
+  connecting: 'Подключение...',
+  online: 'В сети',
+  polling: 'В сети (режим совместимости)',
+  offline: 'Нет соединения, переподключение...',
+};
+
+/**
+ * Время, в течение которого удаление сообщения можно отменить (мс)
+ */
+const DELETE_UNDO_DURATION = 5000;
+
+/**
+ * Пункты меню действий с сообщением: действие, подпись и иконка.
+ * Пункт закрепления добавляется отдельно — его подпись зависит от сообщения.
+ */
+const MESSAGE_MENU_ITEMS: { action: string; label: string; icon: string }[] = [
+  { action: 'copy', label: 'Копировать текст', icon: 'content_copy' },
+  { action: 'remind', label: 'Напомнить', icon: 'alarm' },
+  { action: 'edit', label: 'Изменить', icon: 'edit' },
+  { action: 'delete', label: 'Удалить', icon: 'delete' },
+];
+
+/**
+ * Подписи и иконки видов запланированных элементов
+ */
+const SCHEDULED_KIND_LABELS: Record<
+  ScheduledKind,
+  { label: string; icon: string }
+> = {
+  message: { label: 'Сообщение', icon: 'schedule_send' },
+  reminder: { label: 'Напоминание', icon: 'alarm' },
+};
+
+/**
+ * Опоздание срабатывания (мс), после которого в ленте указывается,
+ * на какое время был запланирован элемент
+ */
+const SCHEDULE_LATE_THRESHOLD = 60000;
+
+/**
+ * Имя блокировки (Web Locks API), под которой отправляется очередь
+ * сообщений: очередь в IndexedDB общая для всех вкладок
+ */
+const OUTBOX_LOCK = 'keeply-outbox';
+
+/**
+ * Имя блокировки, под которой вкладки отмечают сработавшие запланированные
+ * элементы: элемент срабатывает во всех вкладках, а обработать его
+ * должна только одна
+ */
+const SCHEDULE_LOCK = 'keeply-schedule';
+
+/**
+ * Подписи состояния отправляемого сообщения
+ */
+const PENDING_STATE_LABELS: Record<PendingState, string> = {
+  uploading: 'Отправка...',
+  queued: 'В очереди — будет отправлено при подключении',
+  failed: 'Не удалось отправить сообщение',
+};
+
 /**
  * Класс для управления UI-элементами чат-бота Keeply на основе его возможностей (capabilities).
  * Автоматически настраивает состояние кнопок, полей ввода и других элементов интерфейса
@@ -36,10 +190,14 @@ export default class KeeplyBot {
       buttonFavorites: document.querySelector('.header__btn-favorites'),
       buttonAttachments: document.querySelector('.header__btn-attachments'),
       buttonSettings: document.querySelector('.header__btn-settings'),
+      pinMessages: document.querySelector('.pinned-bar'),
+      buttonSchedule: document.querySelector('.header__btn-schedule'),
+      buttonTags: document.querySelector('.header__btn-tags'),
     },
     messaging: {
       sendText: document.querySelector('.chat__textarea'),
       sendAttachments: document.querySelector('.chat__btn-attach'),
+      sendVoice: document.querySelector('.chat__btn-record'),
     },
     search: {
       searchMessages: document.querySelector('.header__search-input'),
@@ -52,17 +210,135 @@ export default class KeeplyBot {
   private readonly _chatTextarea: HTMLTextAreaElement | null =
     document.querySelector('.chat__textarea');
   private readonly _chatSendButton: HTMLButtonElement | null =
-    document.querySelector('.chat__btn:not(.chat__btn-help)');
+    document.querySelector('.chat__form button[type="submit"]');
   private readonly _chatAttachButton: HTMLButtonElement | null =
     document.querySelector('.chat__btn-attach');
+  private readonly _chatRecordButton: HTMLButtonElement | null =
+    document.querySelector('.chat__btn-record');
+  private readonly _chatLocationButton: HTMLButtonElement | null =
+    document.querySelector('.chat__btn-location');
+  private readonly _chatScheduleButton: HTMLButtonElement | null =
+    document.querySelector('.chat__btn-schedule');
   private readonly _chatAttachmentsPreview: HTMLUListElement | null =
     document.querySelector('.form-attachments-preview');
+  private readonly _chatFeed: HTMLElement | null =
+    document.querySelector('.chat__feed');
   private readonly _chatContent = document.querySelector('.chat__content');
   private readonly _emptyBlock = document.querySelector('.chat__empty-block');
   private readonly _skeleton = document.querySelector('.chat__skeleton');
+  private readonly _connectionStatus =
+    document.querySelector('.connection-status');
+  private readonly _offlineBanner = document.querySelector(
+    '.chat__offline-banner'
+  );
 
-  // Состояние выбранных файлов
+  // Состояние выбранных файлов и object URL их превью
   private _selectedFiles: File[] = [];
+  private readonly _previewUrls = new Map<File, string>();
+
+  // Зона сброса перетаскиваемых файлов и глубина вложенности dragenter
+  private readonly _dropZone = document.querySelector('.chat__drop-zone');
+  private _dragDepth = 0;
+
+  // Всплывающие уведомления
+  private readonly _toasts = new ToastManager();
+
+  // Отправляемые и неотправленные сообщения по временному id
+  private readonly _pendingMessages = new Map<string, IPendingMessage>();
+  private _pendingCounter = 0;
+
+  // Подписи отображённых сообщений для обнаружения изменений при перерисовке
+  private readonly _renderedSignatures = new WeakMap<Element, string>();
+
+  // Сообщения, из которых созданы элементы ленты (в том числе результаты поиска)
+  private readonly _renderedMessages = new WeakMap<Element, IUserMessageCard>();
+
+  // Удалённые сообщения, удаление которых ещё можно отменить, и функции,
+  // которые подтверждают удаление досрочно
+  private readonly _pendingDeletions = new Map<string, () => void>();
+
+  // Сообщения, отображаемые в ленте
+  private _messages: IUserMessageCard[] = [];
+
+  // Команды бота и локальные сообщения (команды и ответы на них), которые
+  // не хранятся на сервере и сохраняются в ленте при её перерисовке
+  private readonly _commands = new CommandRegistry(BUILTIN_COMMANDS);
+  private _localMessages: IUserMessageCard[] = [];
+  private _localMessageCounter = 0;
+
+  // Подсказки команд при вводе `/` в поле сообщения
+  private _commandSuggestions: CommandSuggestions | null = null;
+
+  // Панель форматирования (Markdown) над полем ввода сообщения
+  private _formattingToolbar: FormattingToolbar | null = null;
+
+  // Запись голосовых и видеосообщений из формы
+  private _mediaRecorder: MediaNoteRecorder | null = null;
+
+  // Локальный кэш и очередь сообщений для работы без сети
+  private readonly _offlineStore = new OfflineStore();
+  private _isOffline = !navigator.onLine;
+  private _isFeedStale = false;
+  private _isFlushingOutbox = false;
+
+  // Курсор для загрузки более старых сообщений и флаг загрузки истории
+  private _nextCursor: string | null = null;
+  private _isLoadingHistory = false;
+
+  // Канал обновлений сообщений в реальном времени
+  private _realtime: RealtimeChannel | null = null;
+
+  // Поиск сообщений в шапке
+  private _search: MessageSearch | null = null;
+
+  // Фильтр ленты по тегу и теги, показанные в боковой панели
+  private _tagFilter: TagFilter | null = null;
+  private _tagCounts: ITagCount[] = [];
+
+  // Боковая панель (избранное и другие разделы)
+  private readonly _sidebar = new Sidebar();
+
+  // Запланированные сообщения и напоминания
+  private readonly _scheduler = new ReminderScheduler({
+    onFire: (item): void => {
+      void this._handleScheduledItemFire(item);
+    },
+  });
+
+  // Предпросмотр документов (PDF, текст, JSON, CSV) из сообщений
+  private readonly _filePreview = new FilePreview();
+
+  // Отметка сообщений местоположением: включена ли она, идёт ли сейчас
+  // определение координат, и окно их ручного ввода
+  private _isLocationEnabled = false;
+  private _isResolvingLocation = false;
+  private readonly _locationDialog = new LocationDialog();
+
+  // Просмотр изображений переписки во весь экран
+  private readonly _lightbox = new ImageLightbox({
+    getImages: (): IMessageFile[] =>
+      this._messages.flatMap((msg) =>
+        (msg.files ?? []).filter(({ mimetype }) =>
+          mimetype.startsWith('image/')
+        )
+      ),
+  });
+
+  // Разделители дней, группы сообщений и относительное время в ленте
+  private readonly _feedTimeline = new FeedTimeline();
+
+  // Плавающая кнопка «Перейти к дате» в ленте
+  private _jumpToDate: JumpToDate | null = null;
+
+  // Превью ссылок под сообщениями, загружаемые при прокрутке ленты
+  private readonly _linkPreviews = new LinkPreviews({ root: this._chatFeed });
+
+  // Панель закреплённых сообщений над лентой
+  private readonly _pinnedBar = new PinnedBar({
+    onSelect: (id): void => {
+      void this._scrollToMessage(id);
+    },
+  });
 
   /**
    * Настройки для функции linkifyHtml.
@@ -76,6 +352,8 @@ export default class KeeplyBot {
     rel: 'noopener noreferrer',
     target: '_blank',
     truncate: 50,
+    // Адреса в коде остаются текстом
+    ignoreTags: ['pre', 'code'],
   };
 
   /**
@@ -89,8 +367,27 @@ export default class KeeplyBot {
   init(): void {
     void this.updateUiCapabilities();
     this._handleEvents();
+    this._initSearch();
+    this._initTagFilter();
+    this._initCommandSuggestions();
+    this._initFormattingToolbar();
+    this._initMediaRecorder();
+    this._initJumpToDate();
     void this._loadMessages();
+    void this._restoreOutbox();
+    void this._loadPinnedMessages();
+    void this._loadScheduledItems();
     this._updateSendButtonState();
+    this._connectRealtime();
+    this._renderOfflineBanner();
+  }
+
+  /**
+   * Отключает KeeplyBot от канала обновлений.
+   */
+  destroy(): void {
+    this._realtime?.disconnect();
+    this._realtime = null;
   }
 
   /**
@@ -99,7 +396,11 @@ export default class KeeplyBot {
    * @description
    * - Обработка отправки сообщения через форму чата.
    * - Обработка ввода текста в поле ввода.
-   * - Обработка прикрепления файлов.
+   * - Обработка прикрепления файлов (выбор, перетаскивание и вставка).
+   * - Подгрузка истории при прокрутке ленты.
+   * - Действия с сообщениями, кнопки «Избранное», «Вложения», «Теги»
+   *   и «Запланированное», планирование сообщения из формы.
+   * - Переход в режим без сети и обратно.
    *
    * @private
    */
@@ -122,6 +423,10 @@ export default class KeeplyBot {
         'keydown',
         this._handleTextareaKeydown.bind(this)
       );
+      this._chatTextarea.addEventListener(
+        'paste',
+        this._handleTextareaPaste.bind(this)
+      );
     }
 
     // Обработка прикрепления файлов
@@ -131,6 +436,264 @@ export default class KeeplyBot {
         this._handleAttachButtonClick.bind(this)
       );
     }
+
+    // Перетаскивание файлов в ленту и форму
+    for (const dropTarget of [this._chatFeed, this._chatForm]) {
+      if (!dropTarget) continue;
+      dropTarget.addEventListener(
+        'dragenter',
+        this._handleDragEnter.bind(this)
+      );
+      dropTarget.addEventListener('dragover', this._handleDragOver.bind(this));
+      dropTarget.addEventListener(
+        'dragleave',
+        this._handleDragLeave.bind(this)
+      );
+      dropTarget.addEventListener('drop', this._handleDrop.bind(this));
+    }
+
+    // Отметка сообщений местоположением
+    this._chatLocationButton?.addEventListener(
+      'click',
+      this._handleLocationButtonClick.bind(this)
+    );
+
+    // Планирование сообщения из формы
+    this._chatScheduleButton?.addEventListener(
+      'click',
+      this._handleScheduleButtonClick.bind(this)
+    );
+
+    // Удаление выбранных файлов из превью
+    if (this._chatAttachmentsPreview) {
+      this._chatAttachmentsPreview.addEventListener(
+        'click',
+        this._handleAttachmentsPreviewClick.bind(this)
+      );
+    }
+
+    // Действия с сообщениями (избранное, меню, редактирование и т.д.)
+    if (this._chatContent instanceof HTMLElement) {
+      this._chatContent.addEventListener(
+        'click',
+        this._handleFeedClick.bind(this)
+      );
+      this._chatContent.addEventListener(
+        'contextmenu',
+        this._handleFeedContextMenu.bind(this)
+      );
+      this._chatContent.addEventListener(
+        'keydown',
+        this._handleFeedKeydown.bind(this)
+      );
+    }
+
+    // Закрытие меню действий с сообщением по клику вне него
+    document.addEventListener('click', (event) => {
+      const target = event.target;
+      if (target instanceof Element && target.closest('.chat__message-actions'))
+        return;
+      this._closeMessageMenu();
+    });
+
+    // Отложенные удаления отправляются на сервер до закрытия страницы
+    window.addEventListener('pagehide', () => {
+      this._pendingDeletions.forEach((commit) => commit());
+    });
+
+    // Открытие списка команд бота
+    this._botUi.ui.buttonHelp?.addEventListener(
+      'click',
+      this._handleHelpButtonClick.bind(this)
+    );
+
+    // Открытие избранного в боковой панели
+    this._botUi.ui.buttonFavorites?.addEventListener(
+      'click',
+      this._handleFavoritesButtonClick.bind(this)
+    );
+
+    // Открытие галереи вложений в боковой панели
+    this._botUi.ui.buttonAttachments?.addEventListener(
+      'click',
+      this._handleAttachmentsButtonClick.bind(this)
+    );
+
+    // Открытие списка тегов в боковой панели
+    this._botUi.ui.buttonTags?.addEventListener(
+      'click',
+      this._handleTagsButtonClick.bind(this)
+    );
+
+    // Открытие запланированных сообщений и напоминаний в боковой панели
+    this._botUi.ui.buttonSchedule?.addEventListener(
+      'click',
+      this._handleScheduleSidebarButtonClick.bind(this)
+    );
+
+    // Подгрузка истории при прокрутке ленты вверх
+    if (this._chatFeed) {
+      this._chatFeed.addEventListener(
+        'scroll',
+        this._handleFeedScroll.bind(this),
+        { passive: true }
+      );
+    }
+
+    // Потеря и восстановление сети
+    window.addEventListener('online', () => this._setOffline(false));
+    window.addEventListener('offline', () => this._setOffline(true));
+  }
+
+  /**
+   * Подключает поиск сообщений к полю поиска в шапке.
+   *
+   * @private
+   *
+   * @see {@link MessageSearch} - Поиск сообщений
+   */
+  private _initSearch(): void {
+    const input = this._botUi.search.searchMessages;
+    if (!(input instanceof HTMLInputElement)) return;
+    if (!(this._chatContent instanceof HTMLElement)) return;
+
+    this._search = new MessageSearch({
+      input,
+      feed: this._chatContent,
+      getLoadedMessages: (): IUserMessageCard[] => this._messages,
+      onResults: (messages): void => {
+        // Поиск ведётся по всей ленте, а не только по выбранному тегу
+        this._tagFilter?.clear();
+        this._renderFeed(messages);
+        this._toggleEmptyBlock(false);
+      },
+      onClear: (): void => {
+        this._renderFeed(this._messages);
+        this._scrollFeedToBottom();
+      },
+    });
+  }
+
+  /**
+   * Подключает фильтр ленты по тегу и применяет тег из адреса страницы.
+   *
+   * @private
+   *
+   * @see {@link TagFilter} - Фильтр ленты по тегу
+   */
+  private _initTagFilter(): void {
+    this._tagFilter = new TagFilter({
+      getLoadedMessages: (): IUserMessageCard[] => this._messages,
+      onResults: (messages): void => {
+        this._search?.clear();
+        this._renderFeed(messages);
+        this._scrollFeedToBottom();
+        this._refreshTagsSidebar();
+      },
+      onClear: (): void => {
+        // Фильтр сброшен ради поиска — ленту отрисует поиск
+        if (!this._search?.isActive) {
+          this._renderFeed(this._messages);
+          this._scrollFeedToBottom();
+        }
+        this._refreshTagsSidebar();
+      },
+    });
+
+    this._tagFilter.restore();
+  }
+
+  /**
+   * Показывает ли лента результаты поиска или фильтра по тегу
+   * вместо обычного содержимого.
+   *
+   * @returns {boolean} `true`, если активен поиск или фильтр по тегу.
+   *
+   * @private
+   */
+  private _isFeedFiltered(): boolean {
+    return Boolean(this._search?.isActive || this._tagFilter?.isActive);
+  }
+
+  /**
+   * Сбрасывает поиск и фильтр по тегу, возвращая обычную ленту.
+   *
+   * @private
+   */
+  private _resetFeedFilters(): void {
+    this._search?.clear();
+    this._tagFilter?.clear();
+  }
+
+  /**
+   * Подключает подсказки команд к полю ввода сообщения.
+   *
+   * @private
+   *
+   * @see {@link CommandSuggestions} - Подсказки команд
+   */
+  private _initCommandSuggestions(): void {
+    if (!this._chatTextarea) return;
+
+    this._commandSuggestions = new CommandSuggestions({
+      textarea: this._chatTextarea,
+      getCommands: (): IBotCommand[] => this._commands.list(),
+    });
+  }
+
+  /**
+   * Подключает панель форматирования к полю ввода сообщения.
+   *
+   * @private
+   *
+   * @see {@link FormattingToolbar} - Панель форматирования
+   */
+  private _initFormattingToolbar(): void {
+    const toolbar = document.querySelector<HTMLElement>('.chat__toolbar');
+    if (!this._chatTextarea || !toolbar) return;
+
+    this._formattingToolbar = new FormattingToolbar({
+      textarea: this._chatTextarea,
+      toolbar,
+    });
+  }
+
+  /**
+   * Подключает запись голосовых и видеосообщений к кнопке записи.
+   * Записанный файл прикрепляется к сообщению так же, как выбранный вручную.
+   *
+   * @private
+   *
+   * @see {@link MediaNoteRecorder} - Запись голосовых и видеосообщений
+   */
+  private _initMediaRecorder(): void {
+    if (!this._chatForm || !this._chatRecordButton) return;
+
+    this._mediaRecorder = new MediaNoteRecorder({
+      button: this._chatRecordButton,
+      container: this._chatForm,
+      getAllowedTypes: (): string[] => this._getAllowedAttachmentTypes(),
+      onRecorded: (file): void => this._addSelectedFiles([file]),
+      onError: (message): void => {
+        this._toasts.show({ message, type: 'error' });
+      },
+    });
+  }
+
+  /**
+   * Подключает к ленте плавающую кнопку перехода к дате.
+   *
+   * @private
+   *
+   * @see {@link JumpToDate} - Кнопка перехода к дате
+   */
+  private _initJumpToDate(): void {
+    if (!this._chatFeed) return;
+
+    this._jumpToDate = new JumpToDate({
+      feed: this._chatFeed,
+      onSelect: (date): void => void this._scrollToDate(date),
+    });
   }
 
   /**
@@ -153,7 +716,8 @@ export default class KeeplyBot {
    * @returns {Promise<void>} Промис, который разрешается, когда обновление завершено.
    */
   async updateUiCapabilities(): Promise<void> {
-    const capabilities = await this.getCapabilities();
+    const capabilities = await this._resolveCapabilities();
+    if (!capabilities) return;
 
     // Проходим по всем категориям: ui, messaging, search и т.д.
     for (const category in this._botUi) {
@@ -176,7 +740,34 @@ export default class KeeplyBot {
     }
 
     // Установка атрибутов для sendAttachments
-    this._setSendAttachmentsAttributes(capabilities.messaging.sendAttachments);
+    const sendAttachments = capabilities.messaging?.sendAttachments;
+    if (sendAttachments) this._setSendAttachmentsAttributes(sendAttachments);
+
+    // Набор команд (подсказки, справка, выполнение) определяет сервер
+    if (Array.isArray(capabilities.commands)) {
+      this._commands.setAvailable(capabilities.commands);
+    }
+  }
+
+  /**
+   * Возвращает capabilities бота: полученные с сервера (и сохраняет их в кэш)
+   * или, если сервер недоступен, последние сохранённые.
+   *
+   * @returns {Promise<IBotCapabilities | null>} Capabilities или `null`,
+   * если их нет ни на сервере, ни в кэше.
+   *
+   * @private
+   */
+  private async _resolveCapabilities(): Promise<IBotCapabilities | null> {
+    const capabilities = await this.getCapabilities();
+
+    // При ошибке запроса сервер возвращает пустой объект
+    if (Object.keys(capabilities).length > 0) {
+      void this._offlineStore.saveCapabilities(capabilities);
+      return capabilities;
+    }
+
+    return this._offlineStore.getCapabilities();
   }
 
   /**
@@ -252,397 +843,3883 @@ export default class KeeplyBot {
    * Обработчик события отправки сообщения через форму чата.
    *
    * @description
-   * Получает данные сообщения из формы, отправляет их на сервер,
-   * и обновляет интерфейс чата.
+   * Сразу очищает форму и показывает сообщение в ленте как отправляемое,
+   * а затем отправляет его на сервер.
+   *
+   * Команды (`/имя аргументы`, `@bot вопрос`) не отправляются как сообщения,
+   * а выполняются; прикреплённые файлы при этом остаются выбранными.
+   *
+   * Если включена отметка местоположением, сообщение отправляется после
+   * того, как определятся координаты (см. {@link _submitWithLocation}).
    *
    * @param {Event} event - Событие отправки формы.
-   * @returns {Promise<void>} Промис, который разрешается, когда отправка сообщения завершена.
    *
    * @private
    */
-  private async _handleChatFormSubmit(event: Event): Promise<void> {
+  private _handleChatFormSubmit(event: Event): void {
     event.preventDefault();
-    if (!this._chatForm) return;
+    if (!this._chatForm || this._isResolvingLocation) return;
 
     const message = this._getUserMessageFromForm();
+    const command = message ? this._commands.parse(message) : null;
+    if (message && command) {
+      void this._runCommand(message, command);
+      this._chatForm.reset();
+      this._updateSendButtonState();
+      return;
+    }
+
+    if (message && this._isLocationEnabled) {
+      void this._submitWithLocation(message);
+      return;
+    }
+
     if (message) {
-      try {
-        const response = await sendMessage(message, this._selectedFiles);
-        this._renderMessages(response);
-      } catch (error) {
-        console.error('Failed to send message:', error);
-      }
+      const pending = this._createPendingMessage(message, [
+        ...this._selectedFiles,
+      ]);
+      void this._deliverPendingMessage(pending);
     }
 
     this._chatForm.reset();
-    this._selectedFiles = [];
-    this._renderAttachmentsPreview();
+    this._clearSelectedFiles();
     this._updateSendButtonState();
   }
 
   /**
-   * Обработчик события клика по кнопке прикрепления файла.
+   * Отправляет сообщение из формы, отмеченное текущим местоположением.
    *
    * @description
-   * Создает скрытый input для выбора файлов, настраивает его и вызывает диалог выбора.
+   * Координаты определяются через Geolocation API. Если доступ запрещён
+   * или API нет, открывается окно ручного ввода координат. Если его закрыть
+   * без ввода, сообщение не отправляется и остаётся в форме.
+   *
+   * @param {string} message - Текст сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после отправки
+   * или отказа от неё.
    *
    * @private
    */
-  private _handleAttachButtonClick(): void {
-    const fileInput = document.createElement('input');
-    fileInput.type = 'file';
-    fileInput.multiple = true;
-
-    // Получаем настройки из capabilities
-    const sendAttachmentsConfig = this._botUi.messaging.sendAttachments;
-    if (sendAttachmentsConfig) {
-      const types = sendAttachmentsConfig.getAttribute('data-types');
-      if (types) {
-        const allowedTypes = JSON.parse(types) as string[];
-        fileInput.accept = allowedTypes.join(',');
-      }
+  private async _submitWithLocation(message: string): Promise<void> {
+    this._isResolvingLocation = true;
+    this._chatLocationButton?.classList.add('chat__btn-location--loading');
 
-      const limit = sendAttachmentsConfig.getAttribute('data-limit');
-      if (limit) {
-        fileInput.setAttribute('data-limit', limit);
-      }
+    let location: IMessageLocation | null;
+    try {
+      location = await getCurrentLocation();
+    } catch (error) {
+      location = await this._locationDialog.request(
+        error instanceof Error
+          ? error.message
+          : 'Не удалось определить местоположение'
+      );
+    } finally {
+      this._isResolvingLocation = false;
+      this._chatLocationButton?.classList.remove('chat__btn-location--loading');
     }
 
-    fileInput.addEventListener('change', (event) => {
-      const target = event.target as HTMLInputElement;
-      if (target.files) {
-        const files = Array.from(target.files);
-        const limit = parseInt(target.getAttribute('data-limit') || '1', 10);
-        this._selectedFiles = files.slice(0, limit);
-        this._renderAttachmentsPreview();
-      }
-    });
+    if (!location || !this._chatForm) return;
 
-    fileInput.click();
+    const pending = this._createPendingMessage(
+      message,
+      [...this._selectedFiles],
+      location
+    );
+    void this._deliverPendingMessage(pending);
+
+    this._chatForm.reset();
+    this._clearSelectedFiles();
+    this._updateSendButtonState();
   }
 
   /**
-   * Отображает превью выбранных файлов в форме.
+   * Обработчик клика по кнопке местоположения: включает или выключает
+   * отметку отправляемых сообщений координатами.
    *
    * @private
    */
-  private _renderAttachmentsPreview(): void {
-    if (!this._chatAttachmentsPreview) return;
+  private _handleLocationButtonClick(): void {
+    const button = this._chatLocationButton;
+    if (!button) return;
 
-    this._chatAttachmentsPreview.innerHTML = '';
+    this._isLocationEnabled = !this._isLocationEnabled;
+    button.setAttribute('aria-pressed', String(this._isLocationEnabled));
+    button.classList.toggle(
+      'chat__btn-location--active',
+      this._isLocationEnabled
+    );
 
-    if (this._selectedFiles.length > 0) {
-      this._chatAttachmentsPreview.classList.remove('hidden');
+    const icon = button.querySelector('.btn__icon');
+    if (icon) {
+      icon.textContent = this._isLocationEnabled
+        ? 'location_on'
+        : 'location_off';
     }
 
-    if (this._selectedFiles.length === 0) return;
-
-    const file = this._selectedFiles[0];
-    const previewElement = createElement({
-      tag: 'li',
-      className: 'form-attachment-preview__item',
-      children: [
-        {
-          tag: 'div',
-          className: 'form-attachments-preview__image-wrapper',
-          children: [
-            {
-              tag: 'img',
-              className: 'form-attachments-preview__image',
-              attrs: {
-                src: URL.createObjectURL(file),
-                alt: file.name,
-              },
-            },
-            {
-              tag: 'button',
-              className: 'form-attachments-preview__remove',
-              children: [
-                {
-                  tag: 'span',
-                  className: 'material-symbols-outlined',
-                  text: 'close',
-                },
-              ],
-            },
-          ],
-        },
-        {
-          tag: 'span',
-          className: 'form-attachments-preview__name',
-          text: file.name,
-        },
-      ],
-      parent: this._chatAttachmentsPreview,
+    this._toasts.show({
+      message: this._isLocationEnabled
+        ? 'Сообщения будут отмечены местоположением'
+        : 'Отметка местоположением выключена',
     });
-
-    // Обработчик удаления файла
-    const removeButton = previewElement.querySelector(
-      '.form-attachments-preview__remove'
-    );
-    if (removeButton) {
-      removeButton.addEventListener('click', () => {
-        this._selectedFiles = [];
-        this._renderAttachmentsPreview();
-        this._chatAttachmentsPreview?.classList.add('hidden');
-      });
-    }
   }
 
   /**
-   * Обработчик события ввода текста в текстовое поле чата.
+   * Выполняет команду бота и показывает ответ в ленте.
+   *
+   * @description
+   * Серверная команда возвращает сохранённые сервером сообщения (команду
+   * и ответ бота). Для локальной команды, а также при ошибке выполнения
+   * команда и ответ добавляются в ленту как локальные сообщения.
+   *
+   * @param {string} text - Текст команды, введённый пользователем.
+   * @param {IParsedCommand} parsed - Разобранная команда.
+   * @returns {Promise<void>} Промис, который разрешается после отображения ответа.
    *
    * @private
    */
-  private _handleTextareaInput(): void {
-    this._updateSendButtonState();
+  private async _runCommand(
+    text: string,
+    parsed: IParsedCommand
+  ): Promise<void> {
+    this._resetFeedFilters();
+    const timestamp = new Date().toISOString();
+
+    try {
+      const result = await this._commands.execute(parsed, {
+        getMessages: (): IUserMessageCard[] => this._messages,
+        getCommands: (): IBotCommand[] => this._commands.list(),
+        clearFeed: (): void => this._clearFeed(),
+      });
+
+      if (result.type === 'server') {
+        result.messages.forEach((msg) => this._upsertMessage(msg));
+      } else {
+        this._addLocalMessage(text, 'user', timestamp);
+        this._addLocalMessage(result.text, 'bot');
+      }
+    } catch {
+      // Об ошибке сообщает ответ бота в ленте
+      this._addLocalMessage(text, 'user', timestamp);
+      this._addLocalMessage(
+        `Не удалось выполнить команду /${parsed.name}. Попробуйте позже.`,
+        'bot'
+      );
+    }
+
+    this._scrollFeedToBottom();
   }
 
   /**
-   * Обработчик события нажатия клавиши в текстовом поле чата.
+   * Добавляет в ленту локальное сообщение, которое не отправляется на сервер.
+   *
+   * @param {string} message - Текст сообщения.
+   * @param {MessageSender} sender - Автор сообщения.
+   * @param {string} [timestamp] - Время сообщения (по умолчанию — текущее).
+   *
+   * @private
+   */
+  private _addLocalMessage(
+    message: string,
+    sender: MessageSender,
+    timestamp: string = new Date().toISOString()
+  ): void {
+    this._localMessageCounter += 1;
+    const msg: IUserMessageCard = {
+      id: `local-${this._localMessageCounter}`,
+      message,
+      files: [],
+      timestamp,
+      sender,
+      isLocal: true,
+    };
+
+    this._localMessages.push(msg);
+    this._upsertMessage(msg);
+  }
+
+  /**
+   * Очищает ленту на экране (команда `/clear`). История на сервере
+   * и в кэше сохраняется и вернётся после перезагрузки страницы.
+   *
+   * @private
+   */
+  private _clearFeed(): void {
+    this._localMessages = [];
+    this._nextCursor = null;
+    this._renderMessages([]);
+  }
+
+  /**
+   * Обработчик клика по кнопке помощи: открывает окно со списком команд,
+   * сформированным из реестра. Выбранная команда подставляется в поле ввода.
+   *
+   * @private
+   */
+  private _handleHelpButtonClick(): void {
+    const list = createElement({
+      tag: 'ul',
+      className: 'commands-list',
+      children: this._commands.list().map((command) => ({
+        tag: 'li',
+        children: [
+          {
+            tag: 'button',
+            className: 'commands-list__item',
+            attrs: { type: 'button', 'data-command': command.name },
+            children: [
+              {
+                tag: 'span',
+                className: 'commands-list__usage',
+                text: formatCommandUsage(command),
+              },
+              {
+                tag: 'span',
+                className: 'commands-list__description',
+                text: command.description,
+              },
+            ],
+          },
+        ],
+      })),
+    });
+
+    const modal = new Modal({ title: 'Команды бота', content: list });
+
+    list.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const button = event.target.closest<HTMLElement>('[data-command]');
+      if (!button?.dataset.command) return;
+
+      modal.close();
+      this._insertCommand(button.dataset.command);
+    });
+
+    modal.open();
+  }
+
+  /**
+   * Подставляет команду в поле ввода и переводит на него фокус.
+   *
+   * @param {string} name - Имя команды без `/`.
+   *
+   * @private
+   */
+  private _insertCommand(name: string): void {
+    if (!this._chatTextarea) return;
+
+    this._chatTextarea.value = `/${name} `;
+    this._chatTextarea.focus();
+    this._handleTextareaInput();
+  }
+
+  /**
+   * Создаёт отправляемое сообщение и добавляет его в конец ленты.
+   *
+   * @param {string} message - Текст сообщения.
+   * @param {File[]} files - Прикреплённые файлы.
+   * @param {IMessageLocation} [location] - Координаты, которыми отмечено сообщение.
+   * @returns {IPendingMessage} Отправляемое сообщение.
+   *
+   * @private
+   *
+   * @see {@link IPendingMessage} - Интерфейс отправляемого сообщения
+   */
+  private _createPendingMessage(
+    message: string,
+    files: File[],
+    location?: IMessageLocation
+  ): IPendingMessage {
+    this._pendingCounter += 1;
+    const pending: IPendingMessage = {
+      id: `pending-${this._pendingCounter}`,
+      message,
+      files,
+      location,
+      timestamp: new Date().toISOString(),
+      clientId: createId(),
+      controller: null,
+      state: 'uploading',
+      outboxId: null,
+    };
+
+    this._pendingMessages.set(pending.id, pending);
+    this._resetFeedFilters();
+    this._getMessagesList()?.append(this._createPendingElement(pending));
+    this._toggleEmptyBlock(false);
+
+    // Собственное сообщение показываем всегда, даже если лента была
+    // прокручена вверх: пользователь только что его отправил
+    this._scrollFeedToBottom();
+
+    return pending;
+  }
+
+  /**
+   * Отправляет новое сообщение сразу или ставит его в очередь.
    *
    * @description
-   * Если нажата клавиша Enter и не нажата одновременно клавиша Shift,
-   * то отправляет сообщение.
+   * Без сети сообщение попадает в очередь. Если в очереди уже есть
+   * сообщения, новое встаёт за ними, чтобы сохранить порядок отправки.
    *
-   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   * @param {IPendingMessage} pending - Отправляемое сообщение.
+   * @returns {Promise<void>} Промис, который разрешается после отправки
+   * или постановки в очередь.
    *
    * @private
    */
-  private _handleTextareaKeydown(event: KeyboardEvent): void {
-    if (event.key === 'Enter' && !event.shiftKey) {
-      event.preventDefault();
-      if (this._chatForm && !this._chatSendButton?.disabled) {
-        this._chatForm.requestSubmit();
-      }
+  private async _deliverPendingMessage(
+    pending: IPendingMessage
+  ): Promise<void> {
+    if (!this._isOffline && this._getQueuedMessages().length === 0) {
+      await this._sendPendingMessage(pending);
+      return;
     }
+
+    await this._queuePendingMessage(pending);
+    if (!this._isOffline) await this._flushOutbox();
   }
 
   /**
-   * Обновляет состояние кнопки отправки сообщения.
+   * Отправляет сообщение на сервер, отображая прогресс загрузки.
    *
    * @description
-   * Если текст сообщения не пустой, то кнопка активна, иначе — неактивна.
+   * - При успехе убирает временный элемент (и запись очереди) и добавляет
+   *   в ленту созданное сообщение, не сбрасывая подгруженную историю.
+   * - При отмене убирает временный элемент.
+   * - Если сервер недоступен, ставит сообщение в очередь.
+   * - При ошибке сервера оставляет сообщение в ленте с кнопкой «Повторить».
+   *
+   * @param {IPendingMessage} pending - Отправляемое сообщение.
+   * @returns {Promise<void>} Промис, который разрешается после завершения отправки.
    *
    * @private
    */
-  private _updateSendButtonState(): void {
-    if (!this._chatSendButton || !this._chatTextarea) return;
-    const message = this._chatTextarea.value.trim();
-    this._chatSendButton.disabled = message.length === 0;
+  private async _sendPendingMessage(pending: IPendingMessage): Promise<void> {
+    const controller = new AbortController();
+    pending.controller = controller;
+    this._setPendingState(pending.id, 'uploading');
+
+    try {
+      const response = await sendMessage(pending.message, pending.files, {
+        signal: controller.signal,
+        location: pending.location,
+        clientId: pending.clientId,
+        onProgress: (progress): void => {
+          this._renderUploadProgress(pending.id, progress);
+        },
+      });
+
+      if (pending.outboxId !== null) {
+        void this._offlineStore.removeFromOutbox(pending.outboxId);
+      }
+
+      this._setOffline(false);
+      this._resetFeedFilters();
+      // Остальные сообщения ответа (в том числе неподгруженная история)
+      // в ленту не добавляются — новые придут по каналу обновлений
+      const created = this._confirmPendingMessage(pending, response);
+      if (created) this._upsertMessage(created);
+    } catch (error) {
+      pending.controller = null;
+
+      if (controller.signal.aborted) {
+        this._removePendingMessage(pending.id);
+        this._toasts.show({ message: 'Отправка сообщения отменена' });
+      } else if (error instanceof TypeError) {
+        this._setOffline(true);
+        await this._queuePendingMessage(pending);
+      } else {
+        this._setPendingState(pending.id, 'failed');
+      }
+    }
   }
 
   /**
-   * Получает текст сообщения из формы.
+   * Ставит сообщение в очередь на отправку и сохраняет его вместе с файлами
+   * в IndexedDB, чтобы очередь пережила перезагрузку страницы.
    *
-   * @returns {string | undefined}
-   * - Текст сообщения
-   * - Если форма не определена, возвращает `undefined`
+   * @param {IPendingMessage} pending - Отправляемое сообщение.
+   * @returns {Promise<void>} Промис, который разрешается после сохранения.
+   *
+   * @private
    */
-  private _getUserMessageFromForm(): string | undefined {
-    if (!this._chatForm) return;
+  private async _queuePendingMessage(pending: IPendingMessage): Promise<void> {
+    this._setPendingState(pending.id, 'queued');
+    if (pending.outboxId !== null) return;
 
-    const formData = new FormData(this._chatForm);
-    return formData.get('chat-textarea') as string;
+    const outboxId = await this._offlineStore.addToOutbox({
+      message: pending.message,
+      files: pending.files,
+      timestamp: pending.timestamp,
+      location: pending.location,
+      clientId: pending.clientId,
+    });
+    if (outboxId === null) return;
+
+    // Сообщение могли удалить, пока оно сохранялось
+    if (this._pendingMessages.has(pending.id)) {
+      pending.outboxId = outboxId;
+    } else {
+      void this._offlineStore.removeFromOutbox(outboxId);
+    }
+  }
+
+  /**
+   * Восстанавливает в ленте очередь сообщений, не отправленных до
+   * перезагрузки страницы, и отправляет их, если есть сеть.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после восстановления.
+   *
+   * @private
+   */
+  private async _restoreOutbox(): Promise<void> {
+    const entries = await this._offlineStore.getOutbox();
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      const pending = this._createPendingMessage(
+        entry.message,
+        entry.files,
+        entry.location
+      );
+      pending.timestamp = entry.timestamp;
+      pending.clientId = entry.clientId ?? pending.clientId;
+      pending.outboxId = entry.id;
+      this._setPendingState(pending.id, 'queued');
+    }
+
+    if (!this._isOffline) await this._flushOutbox();
   }
 
   /**
-   * Загружает сообщения с сервера и отображает их.
+   * Отправляет сообщения из очереди по одному в порядке постановки.
+   * Останавливается, как только сеть снова пропадает.
    *
    * @description
-   * 1. Показывает скелетон загрузки.
-   * 2. Загружает сообщения с сервера.
-   * 3. Отображает сообщения в UI чата.
-   * 4. Скрывает скелетон загрузки.
+   * Очередь в IndexedDB общая для всех вкладок, и каждая вкладка
+   * восстанавливает её в своей ленте. Чтобы сообщение не отправили две
+   * вкладки сразу, очередь отправляется под блокировкой Web Locks API,
+   * а записи, уже отправленные другой вкладкой, убираются из ленты
+   * (само сообщение придёт по каналу обновлений).
    *
-   * @returns {Promise<void>} Промис, который разрешается, когда загрузка сообщений завершена.
+   * @returns {Promise<void>} Промис, который разрешается после обработки очереди.
    *
    * @private
    */
-  private async _loadMessages(): Promise<void> {
-    this._showSkeleton();
+  private async _flushOutbox(): Promise<void> {
+    if (this._isFlushingOutbox) return;
+    this._isFlushingOutbox = true;
+
+    const flush = async (): Promise<void> => {
+      let next = this._getQueuedMessages()[0];
+      while (next && !this._isOffline) {
+        if (
+          next.outboxId !== null &&
+          !(await this._offlineStore.hasOutboxEntry(next.outboxId))
+        ) {
+          this._removePendingMessage(next.id);
+        } else {
+          await this._sendPendingMessage(next);
+        }
+        next = this._getQueuedMessages()[0];
+      }
+    };
+
     try {
-      const messages = await fetchMessages();
-      this._renderMessages(messages);
-    } catch (error) {
-      console.error('Failed to load messages:', error);
-      this._renderMessages([]);
+      await this._withLock(OUTBOX_LOCK, flush);
     } finally {
-      this._hideSkeleton();
+      this._isFlushingOutbox = false;
+      this._renderOfflineBanner();
     }
   }
 
   /**
-   * Показывает скелетон загрузки.
+   * Возвращает сообщения, ожидающие отправки в очереди.
+   *
+   * @returns {IPendingMessage[]} Сообщения в порядке постановки в очередь.
    *
    * @private
    */
-  private _showSkeleton(): void {
-    if (!this._chatContent || !this._skeleton) return;
-    this._skeleton.classList.remove('hidden');
+  private _getQueuedMessages(): IPendingMessage[] {
+    return [...this._pendingMessages.values()].filter(
+      (pending) => pending.state === 'queued'
+    );
   }
 
   /**
-   * Скрывает скелетон загрузки.
+   * Переключает режим работы без сети.
+   * При восстановлении связи обновляет capabilities, перезагружает ленту,
+   * если она была показана из кэша, и отправляет очередь сообщений.
+   *
+   * @param {boolean} isOffline - `true`, если сервер недоступен.
    *
    * @private
    */
-  private _hideSkeleton(): void {
-    if (!this._skeleton) return;
-    this._skeleton.classList.add('hidden');
+  private _setOffline(isOffline: boolean): void {
+    if (this._isOffline === isOffline) return;
+    this._isOffline = isOffline;
+    this._renderOfflineBanner();
+
+    if (!isOffline) void this._handleConnectionRestored();
   }
 
   /**
-   * Отображает массив сообщений в UI чата.
+   * Синхронизирует приложение с сервером после восстановления связи.
    *
-   * @param {IUserMessageCard[]} messages — массив сообщений с сервера.
+   * @returns {Promise<void>} Промис, который разрешается после синхронизации.
    *
    * @private
-   *
-   * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
-   * @see {@link createElement} - Функция для создания DOM-элементов
-   * @see {@link https://linkify.js.org/} - Библиотека для автоматической обработки ссылок
    */
-  private _renderMessages(messages: IUserMessageCard[]): void {
-    if (!(this._chatContent instanceof HTMLElement) || !this._chatContent) {
-      return;
+  private async _handleConnectionRestored(): Promise<void> {
+    void this.updateUiCapabilities();
+    void this._loadPinnedMessages();
+    void this._loadScheduledItems();
+
+    // Во время поиска ленту не трогаем — обновим её при следующем подключении
+    if (this._isFeedStale && !this._isFeedFiltered()) {
+      await this._loadMessages();
     }
 
-    // Очищаем содержимое чата
-    this._chatContent.replaceChildren();
+    await this._flushOutbox();
+  }
 
-    if (messages.length === 0) {
-      // Если сообщений нет, показываем пустой блок
-      if (this._emptyBlock) this._chatContent.append(this._emptyBlock);
-      return;
+  /**
+   * Показывает или скрывает баннер работы без сети с количеством
+   * сообщений в очереди.
+   *
+   * @private
+   */
+  private _renderOfflineBanner(): void {
+    const banner = this._offlineBanner;
+    if (!banner) return;
+
+    const queuedCount = this._getQueuedMessages().length;
+    banner.classList.toggle('hidden', !this._isOffline && queuedCount === 0);
+
+    const text = banner.querySelector('.chat__offline-banner-text');
+    if (!text) return;
+
+    if (!this._isOffline) {
+      text.textContent = `Отправка сообщений из очереди: ${queuedCount}`;
+    } else if (queuedCount > 0) {
+      text.textContent = `Нет соединения. Сообщений в очереди: ${queuedCount}`;
+    } else {
+      text.textContent =
+        'Нет соединения. Сообщения будут отправлены при подключении';
     }
+  }
+
+  /**
+   * Заменяет временный элемент отправленного сообщения элементом, созданным
+   * из ответа сервера, на том же месте ленты — без мерцания и прокрутки.
+   * Созданное сообщение находится по `clientId`, который сервер возвращает
+   * без изменений.
+   *
+   * @param {IPendingMessage} pending - Отправленное сообщение.
+   * @param {IUserMessageCard[]} response - Сообщения из ответа сервера.
+   * @returns {IUserMessageCard | null} Созданное сообщение или `null`,
+   * если его нет в ответе.
+   *
+   * @private
+   */
+  private _confirmPendingMessage(
+    pending: IPendingMessage,
+    response: IUserMessageCard[]
+  ): IUserMessageCard | null {
+    const created =
+      response.find((msg) => msg.clientId === pending.clientId) ?? null;
+
+    const element = this._getMessageElement(pending.id);
+    this._pendingMessages.delete(pending.id);
 
-    // Скрываем пустой блок, если он есть
-    if (this._emptyBlock && this._emptyBlock instanceof HTMLElement) {
-      this._emptyBlock.style.display = 'none';
+    if (created) {
+      element?.replaceWith(this._createMessageElement(created));
+    } else {
+      element?.remove();
     }
 
-    const fragment = document.createDocumentFragment();
+    return created;
+  }
 
-    for (const msg of messages) {
-      const bodyChildren: ICreateElementOptions[] = [];
+  /**
+   * Убирает отправляемое сообщение из состояния и из ленты.
+   *
+   * @param {string} id - Временный идентификатор сообщения.
+   *
+   * @private
+   */
+  private _removePendingMessage(id: string): void {
+    const outboxId = this._pendingMessages.get(id)?.outboxId ?? null;
+    if (outboxId !== null) void this._offlineStore.removeFromOutbox(outboxId);
 
-      // Обработка файлов
-      if (msg.files?.length) {
-        const fileItems: ICreateElementOptions[] = [];
+    this._pendingMessages.delete(id);
+    this._getMessageElement(id)?.remove();
+    this._renderOfflineBanner();
 
-        for (const file of msg.files) {
-          const fileUrl = `${SERVER_URL}${file.url}`;
+    if (this._messages.length === 0 && this._pendingMessages.size === 0) {
+      this._toggleEmptyBlock(true);
+    }
+  }
 
-          if (file.mimetype.startsWith('image/')) {
-            fileItems.push({
-              tag: 'li',
-              className: ['chat__message-file', 'chat__message-file--image'],
-              children: [
-                {
-                  tag: 'img',
-                  className: ['chat__message-file-img', 'has-tooltip'],
-                  attrs: {
-                    src: fileUrl,
-                    alt: file.originalname,
-                    'data-tooltip': file.originalname,
-                  },
-                },
-                {
-                  tag: 'div',
-                  className: 'chat__message-file-download-wrap',
-                  children: [
-                    {
-                      tag: 'p',
-                      className: 'chat__message-file-size',
-                      text: String(file.size),
-                    },
-                    {
-                      tag: 'a',
-                      className: [
-                        'chat__message-file-download-icon',
-                        'material-symbols-outlined',
-                      ],
-                      attrs: { href: fileUrl, download: file.originalname },
-                      text: 'download',
-                    },
-                  ],
-                },
-              ],
-            });
-          } else if (file.mimetype.startsWith('video/')) {
-            fileItems.push({
-              tag: 'li',
-              className: 'chat__message-file',
-              children: [
-                {
-                  tag: 'video',
-                  className: 'chat__message-video',
-                  attrs: { src: fileUrl, controls: 'true' },
-                },
-              ],
-            });
-          } else if (file.mimetype.startsWith('audio/')) {
-            fileItems.push({
-              tag: 'li',
-              className: 'chat__message-file',
-              children: [
-                {
-                  tag: 'audio',
-                  className: 'chat__message-audio',
-                  attrs: { src: fileUrl, controls: 'true' },
-                },
-              ],
-            });
-          }
-          // Другие типы файлов (например, PDF, DOC) можно добавить здесь
-        }
+  /**
+   * Создаёт DOM-элемент отправляемого сообщения с прогрессом загрузки
+   * каждого файла, общим прогрессом и кнопками управления.
+   *
+   * @param {IPendingMessage} pending - Отправляемое сообщение.
+   * @returns {HTMLElement} Элемент `li.chat__message-item--pending`.
+   *
+   * @private
+   */
+  private _createPendingElement(pending: IPendingMessage): HTMLElement {
+    const createProgressBar = (): ICreateElementOptions => ({
+      tag: 'div',
+      className: 'chat__upload-progress',
+      children: [{ tag: 'div', className: 'chat__upload-progress-bar' }],
+    });
 
-        bodyChildren.push({
-          tag: 'ul',
-          className: 'chat__message-files',
-          children: fileItems,
-        });
-      }
+    const bodyChildren: ICreateElementOptions[] = [];
 
-      // Всегда добавляем текст сообщения и временную метку
-      bodyChildren.push(
-        {
-          tag: 'p',
-          className: 'chat__message-text',
-          html: linkifyHtml(msg.message, this._linkifyOptions),
-        },
-        {
-          tag: 'time',
-          className: 'chat__message-timestamp',
-          text: new Date(msg.timestamp).toLocaleString(),
-          attrs: { datetime: msg.timestamp },
-        }
-      );
+    if (pending.files.length > 0) {
+      bodyChildren.push({
+        tag: 'ul',
+        className: 'chat__upload-files',
+        children: pending.files.map((file) => ({
+          tag: 'li',
+          className: 'chat__upload-file',
+          children: [
+            {
+              tag: 'span',
+              className: [
+                'chat__upload-file-icon',
+                'material-symbols-outlined',
+              ],
+              text: 'draft',
+            },
+            {
+              tag: 'span',
+              className: 'chat__upload-file-name',
+              text: file.name,
+            },
+            {
+              tag: 'span',
+              className: 'chat__upload-file-size',
+              text: formatFileSize(file.size),
+            },
+            createProgressBar(),
+          ],
+        })),
+      });
+    }
 
-      // Создаём элемент сообщения
-      const messageItem = createElement({
-        tag: 'li',
-        className: 'chat__message-item',
-        id: msg.id,
+    bodyChildren.push(
+      { tag: 'p', className: 'chat__message-text', text: pending.message },
+      ...(pending.location ? [this._createLocationLink(pending.location)] : []),
+      {
+        tag: 'div',
+        className: 'chat__upload-status',
         children: [
+          createProgressBar(),
+          { tag: 'span', className: 'chat__upload-status-text' },
           {
-            tag: 'div',
-            className: 'chat__message-body',
-            children: bodyChildren,
+            tag: 'button',
+            className: 'chat__upload-btn',
+            text: 'Отменить',
+            attrs: { type: 'button', 'data-action': 'cancel-upload' },
+          },
+          {
+            tag: 'button',
+            className: 'chat__upload-btn',
+            text: 'Повторить',
+            attrs: { type: 'button', 'data-action': 'retry-upload' },
+          },
+          {
+            tag: 'button',
+            className: 'chat__upload-btn',
+            text: 'Удалить',
+            attrs: { type: 'button', 'data-action': 'discard-upload' },
           },
         ],
-      });
+      }
+    );
+
+    return createElement({
+      tag: 'li',
+      className: ['chat__message-item', 'chat__message-item--pending'],
+      id: pending.id,
+      attrs: { 'data-timestamp': pending.timestamp, 'data-sender': 'user' },
+      children: [
+        { tag: 'div', className: 'chat__message-body', children: bodyChildren },
+      ],
+    });
+  }
 
-      fragment.append(messageItem);
+  /**
+   * Переключает состояние отправляемого сообщения в ленте.
+   *
+   * @param {string} id - Временный идентификатор сообщения.
+   * @param {PendingState} state - Отправляется, в очереди или не отправлено.
+   *
+   * @private
+   */
+  private _setPendingState(id: string, state: PendingState): void {
+    const pending = this._pendingMessages.get(id);
+    if (pending) pending.state = state;
+    this._renderOfflineBanner();
+
+    const element = this._getMessageElement(id);
+    if (!element) return;
+
+    element.classList.toggle('chat__message-item--failed', state === 'failed');
+    element.classList.toggle('chat__message-item--queued', state === 'queued');
+
+    const statusText = element.querySelector('.chat__upload-status-text');
+    if (statusText) {
+      statusText.textContent = PENDING_STATE_LABELS[state];
     }
 
-    // Оборачиваем все сообщения в список
-    const messagesList = createElement({
-      tag: 'ul',
-      className: 'chat__messages-list',
-    });
-    messagesList.append(fragment);
-    this._chatContent.append(messagesList);
+    if (state === 'uploading') {
+      element
+        .querySelectorAll<HTMLElement>('.chat__upload-progress-bar')
+        .forEach((bar) => (bar.style.width = '0%'));
+    }
+  }
+
+  /**
+   * Отображает прогресс загрузки отправляемого сообщения.
+   *
+   * @param {string} id - Временный идентификатор сообщения.
+   * @param {IUploadProgress} progress - Прогресс загрузки.
+   *
+   * @private
+   *
+   * @see {@link IUploadProgress} - Интерфейс прогресса загрузки
+   */
+  private _renderUploadProgress(id: string, progress: IUploadProgress): void {
+    const element = this._getMessageElement(id);
+    if (!element) return;
+
+    const toPercent = (loaded: number, total: number): number =>
+      total > 0 ? Math.round((loaded / total) * 100) : 100;
+
+    const fileBars = element.querySelectorAll<HTMLElement>(
+      '.chat__upload-file .chat__upload-progress-bar'
+    );
+    progress.files.forEach((file, index) => {
+      const bar = fileBars[index];
+      if (bar) bar.style.width = `${toPercent(file.loaded, file.total)}%`;
+    });
+
+    const totalPercent = toPercent(progress.loaded, progress.total);
+    const totalBar = element.querySelector<HTMLElement>(
+      '.chat__upload-status .chat__upload-progress-bar'
+    );
+    if (totalBar) totalBar.style.width = `${totalPercent}%`;
+
+    const statusText = element.querySelector('.chat__upload-status-text');
+    if (statusText) {
+      statusText.textContent = `Отправка... ${totalPercent}% (${formatFileSize(
+        progress.loaded
+      )} из ${formatFileSize(progress.total)})`;
+    }
+  }
+
+  /**
+   * Обработчик события клика по кнопке прикрепления файла.
+   *
+   * @description
+   * Создает скрытый input для выбора файлов, настраивает его и вызывает диалог выбора.
+   *
+   * @private
+   */
+  private _handleAttachButtonClick(): void {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.multiple = true;
+
+    // Получаем допустимые типы из capabilities
+    const allowedTypes = this._getAllowedAttachmentTypes();
+    if (allowedTypes.length > 0) fileInput.accept = allowedTypes.join(',');
+
+    fileInput.addEventListener('change', (event) => {
+      const target = event.target as HTMLInputElement;
+      if (target.files) {
+        this._addSelectedFiles(Array.from(target.files));
+      }
+    });
+
+    fileInput.click();
+  }
+
+  /**
+   * Возвращает максимальное количество прикрепляемых файлов из capabilities.
+   *
+   * @returns {number} Лимит файлов (по умолчанию 1).
+   *
+   * @private
+   */
+  private _getAttachmentsLimit(): number {
+    const element = this._botUi.messaging.sendAttachments;
+    const limit = parseInt(element?.getAttribute('data-limit') || '1', 10);
+    return Number.isNaN(limit) ? 1 : limit;
+  }
+
+  /**
+   * Возвращает допустимые типы прикрепляемых файлов из capabilities.
+   *
+   * @returns {string[]} Типы в формате атрибута `accept`; пустой список — без ограничений.
+   *
+   * @private
+   */
+  private _getAllowedAttachmentTypes(): string[] {
+    const types =
+      this._botUi.messaging.sendAttachments?.getAttribute('data-types');
+    if (!types) return [];
+
+    try {
+      return JSON.parse(types) as string[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Добавляет файлы к уже выбранным.
+   *
+   * @description
+   * Каждый файл проходит те же проверки, что заданы capabilities для
+   * `sendAttachments`: доступность прикрепления, допустимые типы (`data-types`)
+   * и лимит (`data-limit`). Повторно выбранные файлы (с тем же именем, размером
+   * и датой изменения) пропускаются. О каждом отклонённом файле пользователю
+   * сообщается с указанием причины.
+   *
+   * @param {File[]} files - Новые файлы.
+   *
+   * @private
+   */
+  private _addSelectedFiles(files: File[]): void {
+    if (files.length === 0) return;
+
+    if (this._botUi.messaging.sendAttachments?.hasAttribute('disabled')) {
+      this._toasts.show({
+        message: 'Прикрепление файлов сейчас недоступно',
+        type: 'error',
+      });
+      return;
+    }
+
+    const types = this._getAllowedAttachmentTypes();
+    const limit = this._getAttachmentsLimit();
+    const getKey = (file: File): string =>
+      `${file.name}:${file.size}:${file.lastModified}`;
+    const selectedKeys = new Set(this._selectedFiles.map(getKey));
+    const accepted: File[] = [];
+    const rejections: string[] = [];
+
+    for (const file of files) {
+      if (selectedKeys.has(getKey(file))) continue;
+
+      if (!isFileTypeAllowed(file, types)) {
+        rejections.push(`«${file.name}»: тип файла не поддерживается`);
+      } else if (this._selectedFiles.length + accepted.length >= limit) {
+        rejections.push(`«${file.name}»: можно прикрепить не более ${limit}`);
+      } else {
+        accepted.push(file);
+        selectedKeys.add(getKey(file));
+      }
+    }
+
+    if (rejections.length > 0) {
+      this._toasts.show({
+        message: `Не удалось прикрепить:\n${rejections.join('\n')}`,
+        type: 'error',
+        duration: 6000,
+      });
+    }
+
+    if (accepted.length === 0) return;
+    this._selectedFiles = [...this._selectedFiles, ...accepted];
+    this._renderAttachmentsPreview();
+  }
+
+  /**
+   * Проверяет, что перетаскиваемые данные содержат файлы.
+   *
+   * @param {DragEvent} event - Событие перетаскивания.
+   * @returns {boolean} `true`, если перетаскиваются файлы.
+   *
+   * @private
+   */
+  private _isFileDrag(event: DragEvent): boolean {
+    return Array.from(event.dataTransfer?.types ?? []).includes('Files');
+  }
+
+  /**
+   * Обработчик входа перетаскиваемых файлов в ленту или форму:
+   * показывает зону сброса.
+   *
+   * @param {DragEvent} event - Событие перетаскивания.
+   *
+   * @private
+   */
+  private _handleDragEnter(event: DragEvent): void {
+    if (!this._isFileDrag(event)) return;
+    event.preventDefault();
+
+    this._dragDepth += 1;
+    this._dropZone?.classList.remove('hidden');
+  }
+
+  /**
+   * Обработчик перемещения файлов над лентой или формой: разрешает сброс.
+   *
+   * @param {DragEvent} event - Событие перетаскивания.
+   *
+   * @private
+   */
+  private _handleDragOver(event: DragEvent): void {
+    if (!this._isFileDrag(event)) return;
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+  }
+
+  /**
+   * Обработчик выхода перетаскиваемых файлов за пределы ленты или формы.
+   * Счётчик вложенности нужен, потому что `dragleave` срабатывает и при
+   * переходе между дочерними элементами.
+   *
+   * @param {DragEvent} event - Событие перетаскивания.
+   *
+   * @private
+   */
+  private _handleDragLeave(event: DragEvent): void {
+    if (!this._isFileDrag(event)) return;
+
+    this._dragDepth = Math.max(0, this._dragDepth - 1);
+    if (this._dragDepth === 0) this._dropZone?.classList.add('hidden');
+  }
+
+  /**
+   * Обработчик сброса файлов: добавляет их к выбранным.
+   *
+   * @param {DragEvent} event - Событие перетаскивания.
+   *
+   * @private
+   */
+  private _handleDrop(event: DragEvent): void {
+    if (!this._isFileDrag(event)) return;
+    event.preventDefault();
+
+    this._dragDepth = 0;
+    this._dropZone?.classList.add('hidden');
+    this._addSelectedFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  /**
+   * Обработчик вставки из буфера обмена в поле ввода: прикрепляет
+   * вставленные файлы (например, скриншоты).
+   *
+   * @description
+   * Если в буфере есть и текст, он вставляется как обычно. Вставленным
+   * изображениям без имени присваивается уникальное имя, чтобы несколько
+   * скриншотов подряд не считались одним и тем же файлом.
+   *
+   * @param {ClipboardEvent} event - Событие вставки.
+   *
+   * @private
+   */
+  private _handleTextareaPaste(event: ClipboardEvent): void {
+    const clipboard = event.clipboardData;
+    if (!clipboard) return;
+
+    const files = Array.from(clipboard.items)
+      .filter((item) => item.kind === 'file')
+      .map((item) => item.getAsFile())
+      .filter((file): file is File => file !== null)
+      .map((file, index) => {
+        const extension = file.type.split('/')[1] || 'bin';
+        const name = `screenshot-${Date.now()}-${index + 1}.${extension}`;
+        return new File([file], name, {
+          type: file.type,
+          lastModified: Date.now(),
+        });
+      });
+
+    if (files.length === 0) return;
+    if (!clipboard.types.includes('text/plain')) event.preventDefault();
+
+    this._addSelectedFiles(files);
+  }
+
+  /**
+   * Убирает файл из выбранных и освобождает его object URL.
+   *
+   * @param {number} index - Индекс файла в списке выбранных.
+   *
+   * @private
+   */
+  private _removeSelectedFile(index: number): void {
+    const file = this._selectedFiles[index];
+    if (!file) return;
+
+    this._revokePreviewUrl(file);
+    this._selectedFiles = this._selectedFiles.filter((_, i) => i !== index);
+    this._renderAttachmentsPreview();
+  }
+
+  /**
+   * Убирает все выбранные файлы и освобождает их object URL.
+   *
+   * @private
+   */
+  private _clearSelectedFiles(): void {
+    this._selectedFiles.forEach((file) => this._revokePreviewUrl(file));
+    this._selectedFiles = [];
+    this._renderAttachmentsPreview();
+  }
+
+  /**
+   * Возвращает object URL для превью файла, создавая его один раз.
+   *
+   * @param {File} file - Выбранный файл.
+   * @returns {string} Object URL файла.
+   *
+   * @private
+   */
+  private _getPreviewUrl(file: File): string {
+    let url = this._previewUrls.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      this._previewUrls.set(file, url);
+    }
+    return url;
+  }
+
+  /**
+   * Освобождает object URL превью файла, если он был создан.
+   *
+   * @param {File} file - Файл, убранный из выбранных.
+   *
+   * @private
+   */
+  private _revokePreviewUrl(file: File): void {
+    const url = this._previewUrls.get(file);
+    if (!url) return;
+
+    URL.revokeObjectURL(url);
+    this._previewUrls.delete(file);
+  }
+
+  /**
+   * Отображает превью всех выбранных файлов в форме.
+   *
+   * @private
+   */
+  private _renderAttachmentsPreview(): void {
+    const preview = this._chatAttachmentsPreview;
+    if (!preview) return;
+
+    preview.replaceChildren();
+    preview.classList.toggle('hidden', this._selectedFiles.length === 0);
+
+    this._selectedFiles.forEach((file, index) => {
+      createElement({
+        tag: 'li',
+        className: 'form-attachment-preview__item',
+        children: [
+          {
+            tag: 'div',
+            className: 'form-attachments-preview__image-wrapper',
+            children: [
+              this._createFilePreview(file),
+              {
+                tag: 'button',
+                className: 'form-attachments-preview__remove',
+                attrs: {
+                  type: 'button',
+                  'data-file-index': String(index),
+                  'aria-label': `Убрать файл ${file.name}`,
+                },
+                children: [
+                  {
+                    tag: 'span',
+                    className: 'material-symbols-outlined',
+                    text: 'close',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            tag: 'span',
+            className: 'form-attachments-preview__name',
+            text: file.name,
+            attrs: { title: file.name },
+          },
+        ],
+        parent: preview,
+      });
+    });
+  }
+
+  /**
+   * Создаёт превью файла в зависимости от его типа.
+   *
+   * @description
+   * - Изображения — миниатюра.
+   * - Видео — первый кадр с иконкой воспроизведения.
+   * - Аудио — карточка с иконкой.
+   * - Документы — карточка с иконкой, расширением и размером файла.
+   *
+   * @param {File} file - Выбранный файл.
+   * @returns {ICreateElementOptions} Конфигурация превью.
+   *
+   * @private
+   */
+  private _createFilePreview(file: File): ICreateElementOptions {
+    const category = getFileCategory(file.type);
+
+    if (category === 'image') {
+      return {
+        tag: 'img',
+        className: 'form-attachments-preview__image',
+        attrs: { src: this._getPreviewUrl(file), alt: file.name },
+      };
+    }
+
+    if (category === 'video') {
+      return {
+        tag: 'div',
+        className: [
+          'form-attachments-preview__image',
+          'form-attachments-preview__poster',
+        ],
+        children: [
+          {
+            tag: 'video',
+            className: 'form-attachments-preview__video',
+            attrs: {
+              src: `${this._getPreviewUrl(file)}#t=0.1`,
+              preload: 'metadata',
+              muted: 'true',
+            },
+          },
+          {
+            tag: 'span',
+            className: [
+              'form-attachments-preview__poster-icon',
+              'material-symbols-outlined',
+            ],
+            text: 'play_circle',
+          },
+        ],
+      };
+    }
+
+    const extension = file.name.includes('.')
+      ? (file.name.split('.').pop() ?? '')
+      : '';
+
+    return {
+      tag: 'div',
+      className: [
+        'form-attachments-preview__image',
+        'form-attachments-preview__file',
+      ],
+      children: [
+        {
+          tag: 'span',
+          className: [
+            'form-attachments-preview__file-icon',
+            'material-symbols-outlined',
+          ],
+          text: category === 'audio' ? 'music_note' : 'description',
+        },
+        {
+          tag: 'span',
+          className: 'form-attachments-preview__file-ext',
+          text: extension.toUpperCase() || 'FILE',
+        },
+        {
+          tag: 'span',
+          className: 'form-attachments-preview__file-size',
+          text: formatFileSize(file.size),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Обработчик кликов по списку выбранных файлов: удаляет файл,
+   * если нажата его кнопка удаления.
+   *
+   * @param {MouseEvent} event - Событие клика.
+   *
+   * @private
+   */
+  private _handleAttachmentsPreviewClick(event: MouseEvent): void {
+    if (!(event.target instanceof Element)) return;
+
+    const button = event.target.closest<HTMLElement>('[data-file-index]');
+    if (!button) return;
+
+    this._removeSelectedFile(Number(button.dataset.fileIndex));
+  }
+
+  /**
+   * Обработчик события ввода текста в текстовое поле чата.
+   *
+   * @private
+   */
+  private _handleTextareaInput(): void {
+    this._updateSendButtonState();
+  }
+
+  /**
+   * Обработчик события нажатия клавиши в текстовом поле чата.
+   *
+   * @description
+   * Пока открыт список подсказок команд, нажатия обрабатывает он
+   * (Enter подставляет команду, а не отправляет сообщение, если имя
+   * команды ещё не введено полностью).
+   * Иначе если нажата клавиша Enter и не нажата одновременно клавиша Shift,
+   * то отправляет сообщение.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   *
+   * @private
+   */
+  private _handleTextareaKeydown(event: KeyboardEvent): void {
+    if (this._commandSuggestions?.handleKeydown(event)) return;
+
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      if (this._chatForm && !this._chatSendButton?.disabled) {
+        this._chatForm.requestSubmit();
+      }
+    }
+  }
+
+  /**
+   * Обновляет состояние кнопки отправки сообщения.
+   *
+   * @description
+   * Если текст сообщения не пустой, то кнопка активна, иначе — неактивна.
+   *
+   * @private
+   */
+  private _updateSendButtonState(): void {
+    if (!this._chatSendButton || !this._chatTextarea) return;
+    const message = this._chatTextarea.value.trim();
+    this._chatSendButton.disabled = message.length === 0;
+  }
+
+  /**
+   * Получает текст сообщения из формы.
+   *
+   * @returns {string | undefined}
+   * - Текст сообщения
+   * - Если форма не определена, возвращает `undefined`
+   */
+  private _getUserMessageFromForm(): string | undefined {
+    if (!this._chatForm) return;
+
+    const formData = new FormData(this._chatForm);
+    return formData.get('chat-textarea') as string;
+  }
+
+  /**
+   * Загружает первую (самую свежую) страницу сообщений и отображает её.
+   *
+   * @description
+   * 1. Показывает скелетон загрузки.
+   * 2. Если лента пуста, сразу отображает сообщения из локального кэша.
+   * 3. Загружает первую страницу сообщений с сервера.
+   * 4. Отображает сообщения в UI чата, прокручивает ленту вниз и обновляет кэш.
+   *    Без сети остаются сообщения из кэша, а лента помечается устаревшей.
+   * 5. Скрывает скелетон загрузки.
+   *
+   * @returns {Promise<void>} Промис, который разрешается, когда загрузка сообщений завершена.
+   *
+   * @private
+   */
+  private async _loadMessages(): Promise<void> {
+    this._showSkeleton();
+
+    // Пока идёт запрос, показываем сообщения из локального кэша
+    if (this._messages.length === 0) {
+      const cached = await this._offlineStore.getMessages(MESSAGES_PAGE_SIZE);
+      if (cached.length > 0 && this._messages.length === 0) {
+        this._hideSkeleton();
+        this._renderMessages(cached);
+        this._scrollFeedToBottom();
+      }
+    }
+
+    try {
+      const page = await fetchMessages();
+      this._nextCursor = page.nextCursor;
+      this._isFeedStale = false;
+      this._setOffline(false);
+      this._renderMessages(page.messages);
+      this._scrollFeedToBottom();
+      void this._offlineStore.saveMessages(page.messages);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+      this._isFeedStale = true;
+      this._setOffline(true);
+      this._renderMessages(this._messages);
+    } finally {
+      this._hideSkeleton();
+    }
+
+    void this._fillFeedWithHistory();
+  }
+
+  /**
+   * Обработчик прокрутки ленты: при приближении к верхнему краю
+   * подгружает более старые сообщения.
+   *
+   * @private
+   */
+  private _handleFeedScroll(): void {
+    if (!this._chatFeed || this._isFeedFiltered()) return;
+    if (this._chatFeed.scrollTop <= HISTORY_LOAD_THRESHOLD) {
+      void this._loadOlderMessages();
+    }
+  }
+
+  /**
+   * Загружает следующую страницу более старых сообщений и добавляет её
+   * в начало ленты, сохраняя видимую позицию прокрутки.
+   *
+   * @returns {Promise<void>} Промис, который разрешается, когда страница добавлена.
+   *
+   * @private
+   */
+  private async _loadOlderMessages(): Promise<void> {
+    if (this._isLoadingHistory || !this._nextCursor) return;
+    this._isLoadingHistory = true;
+
+    // Якорь — сообщение, а не разделитель дня: разделитель может переехать
+    // выше, к более старым сообщениям того же дня
+    const anchor =
+      this._getMessagesList()?.querySelector(':scope > .chat__message-item') ??
+      null;
+    this._showSkeleton();
+
+    try {
+      const page = await fetchMessages(this._nextCursor);
+      this._nextCursor = page.nextCursor;
+      void this._offlineStore.saveMessages(page.messages);
+
+      const anchorTop = anchor?.getBoundingClientRect().top ?? 0;
+      this._hideSkeleton();
+      this._prependMessages(page.messages);
+      this._feedTimeline.update();
+
+      // Возвращаем якорное сообщение на прежнее место на экране
+      if (anchor && this._chatFeed) {
+        this._chatFeed.scrollTop +=
+          anchor.getBoundingClientRect().top - anchorTop;
+      }
+    } catch {
+      // Без сети об этом уже сообщает баннер
+      if (!this._isOffline) {
+        this._toasts.show({
+          message: 'Не удалось загрузить историю сообщений',
+          type: 'error',
+        });
+      }
+    } finally {
+      this._hideSkeleton();
+      this._isLoadingHistory = false;
+    }
+  }
+
+  /**
+   * Подгружает историю, пока лента не начнёт прокручиваться: иначе событие
+   * прокрутки никогда не сработает и старые сообщения останутся недоступны.
+   *
+   * @returns {Promise<void>} Промис, который разрешается, когда лента заполнена.
+   *
+   * @private
+   */
+  private async _fillFeedWithHistory(): Promise<void> {
+    const feed = this._chatFeed;
+    if (!feed) return;
+
+    while (this._nextCursor && feed.scrollHeight <= feed.clientHeight) {
+      const cursor = this._nextCursor;
+      await this._loadOlderMessages();
+      if (this._nextCursor === cursor) return;
+    }
+  }
+
+  /**
+   * Добавляет более старые сообщения в начало ленты.
+   * Уже отображённые сообщения (с тем же id) пропускаются.
+   *
+   * @param {IUserMessageCard[]} messages - Сообщения в порядке возрастания времени.
+   *
+   * @private
+   */
+  private _prependMessages(messages: IUserMessageCard[]): void {
+    const knownIds = new Set(this._messages.map((msg) => msg.id));
+    const olderMessages = messages.filter((msg) => !knownIds.has(msg.id));
+    if (olderMessages.length === 0) return;
+
+    this._messages = [...olderMessages, ...this._messages];
+
+    // Отфильтрованная лента не меняется: история появится после сброса
+    if (this._isFeedFiltered()) return;
+
+    const messagesList = this._getMessagesList();
+    if (!messagesList) return;
+
+    const fragment = document.createDocumentFragment();
+    for (const msg of olderMessages) {
+      fragment.append(this._createMessageElement(msg));
+    }
+
+    messagesList.prepend(fragment);
+    this._toggleEmptyBlock(false);
+  }
+
+  /**
+   * Прокручивает ленту к последнему сообщению.
+   *
+   * @private
+   */
+  private _scrollFeedToBottom(): void {
+    if (!this._chatFeed) return;
+
+    // Разделители дней для только что добавленных сообщений должны быть
+    // на месте до измерения высоты ленты
+    this._feedTimeline.update();
+    this._chatFeed.scrollTop = this._chatFeed.scrollHeight;
+  }
+
+  /**
+   * Показывает скелетон загрузки в начале ленты.
+   *
+   * @private
+   */
+  private _showSkeleton(): void {
+    if (!this._chatContent || !this._skeleton) return;
+
+    // Скелетон может быть удалён из DOM при полной перерисовке ленты
+    if (this._chatContent.firstElementChild !== this._skeleton) {
+      this._chatContent.prepend(this._skeleton);
+    }
+    this._skeleton.classList.remove('hidden');
+  }
+
+  /**
+   * Скрывает скелетон загрузки.
+   *
+   * @private
+   */
+  private _hideSkeleton(): void {
+    if (!this._skeleton) return;
+    this._skeleton.classList.add('hidden');
+  }
+
+  /**
+   * Сохраняет массив сообщений как содержимое ленты и отображает его.
+   *
+   * @param {IUserMessageCard[]} messages — массив сообщений с сервера.
+   *
+   * @private
+   *
+   * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+   */
+  private _renderMessages(messages: IUserMessageCard[]): void {
+    this._messages = [...messages];
+
+    // Локальные сообщения встраиваются в ленту по времени
+    if (this._localMessages.length > 0) {
+      this._messages = [...this._messages, ...this._localMessages].sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    }
+
+    // Результаты поиска и фильтра по тегу остаются на экране до их сброса
+    if (this._isFeedFiltered()) return;
+    this._renderFeed(this._messages);
+  }
+
+  /**
+   * Приводит ленту в соответствие с переданными сообщениями, не меняя
+   * сохранённое содержимое ленты (используется и для результатов поиска).
+   *
+   * @description
+   * Элементы сопоставляются с сообщениями по `id`: новые сообщения
+   * добавляются, изменившиеся — пересоздаются, отсутствующие — удаляются,
+   * а неизменённые элементы остаются в DOM. Благодаря этому не сбрасывается
+   * прокрутка и не перезагружаются изображения и видео. Отправляемые
+   * сообщения всегда остаются в конце списка.
+   *
+   * @param {IUserMessageCard[]} messages — сообщения для отображения.
+   *
+   * @private
+   *
+   * @see {@link _createMessageElement} - Создание DOM-элемента сообщения
+   */
+  private _renderFeed(messages: IUserMessageCard[]): void {
+    const messagesList = this._getMessagesList();
+    if (!messagesList) return;
+
+    const rendered = new Map<string, HTMLElement>();
+    messagesList
+      .querySelectorAll<HTMLElement>(
+        ':scope > .chat__message-item:not(.chat__message-item--pending)'
+      )
+      .forEach((element) => rendered.set(element.id, element));
+
+    // Удаляем элементы сообщений, которых больше нет
+    const nextIds = new Set(messages.map((msg) => msg.id));
+    rendered.forEach((element, id) => {
+      if (!nextIds.has(id)) element.remove();
+    });
+
+    // Расставляем элементы в порядке сообщений, пересоздавая изменившиеся.
+    // Разделители дней пропускаются — их расставляет FeedTimeline
+    let cursor = messagesList.firstElementChild;
+    for (const msg of messages) {
+      while (cursor?.classList.contains('chat__day-separator')) {
+        cursor = cursor.nextElementSibling;
+      }
+
+      let element = rendered.get(msg.id);
+
+      if (!element) {
+        element = this._createMessageElement(msg);
+      } else if (
+        this._renderedSignatures.get(element) !== this._getSignature(msg)
+      ) {
+        const updated = this._createMessageElement(msg);
+        if (cursor === element) cursor = updated;
+        element.replaceWith(updated);
+        element = updated;
+      }
+
+      if (element === cursor) {
+        cursor = cursor.nextElementSibling;
+      } else {
+        messagesList.insertBefore(element, cursor);
+      }
+    }
+
+    const isEmpty = messages.length === 0 && this._pendingMessages.size === 0;
+    if (isEmpty) messagesList.remove();
+    this._toggleEmptyBlock(isEmpty && !this._isFeedFiltered());
+  }
+
+  /**
+   * Возвращает «подпись» сообщения для сравнения с уже отображённой версией.
+   *
+   * @param {IUserMessageCard} msg - Сообщение.
+   * @returns {string} Сериализованное сообщение.
+   *
+   * @private
+   */
+  private _getSignature(msg: IUserMessageCard): string {
+    return JSON.stringify(msg);
+  }
+
+  /**
+   * Проверяет, прокручена ли лента до конца (с небольшим допуском).
+   *
+   * @returns {boolean} `true`, если пользователь находится внизу ленты.
+   *
+   * @private
+   */
+  private _isFeedAtBottom(): boolean {
+    const feed = this._chatFeed;
+    if (!feed) return true;
+    return (
+      feed.scrollHeight - feed.scrollTop - feed.clientHeight <=
+      FEED_BOTTOM_THRESHOLD
+    );
+  }
+
+  /**
+   * Показывает или скрывает блок «Сообщений нет».
+   *
+   * @param {boolean} isVisible - Нужно ли показать блок.
+   *
+   * @private
+   */
+  private _toggleEmptyBlock(isVisible: boolean): void {
+    if (!(this._emptyBlock instanceof HTMLElement) || !this._chatContent) {
+      return;
+    }
+
+    this._emptyBlock.style.display = isVisible ? '' : 'none';
+    if (isVisible && !this._emptyBlock.isConnected) {
+      this._chatContent.append(this._emptyBlock);
+    }
+  }
+
+  /**
+   * Создаёт DOM-элемент карточки сообщения.
+   *
+   * @description
+   * Вид зависит от автора (`sender`): сообщения пользователя выравниваются
+   * по правому краю, ответы бота — по левому и могут содержать быстрые
+   * ответы, карточки и встроенную клавиатуру, а служебные сообщения
+   * отображаются по центру без действий.
+   *
+   * @param {IUserMessageCard} msg — сообщение с сервера.
+   * @returns {HTMLElement} Элемент `li.chat__message-item` с id сообщения.
+   *
+   * @private
+   *
+   * @see {@link createElement} - Функция для создания DOM-элементов
+   * @see {@link https://linkify.js.org/} - Библиотека для автоматической обработки ссылок
+   */
+  private _createMessageElement(msg: IUserMessageCard): HTMLElement {
+    if (msg.sender === 'system') return this._createSystemMessageElement(msg);
+
+    const isBot = msg.sender === 'bot';
+    const bodyChildren: ICreateElementOptions[] = [];
+
+    // Обработка файлов
+    if (msg.files?.length) {
+      const fileItems: ICreateElementOptions[] = [];
+
+      msg.files.forEach((file, index) => {
+        const fileUrl = `${SERVER_URL}${file.url}`;
+
+        if (file.mimetype.startsWith('image/')) {
+          fileItems.push({
+            tag: 'li',
+            className: ['chat__message-file', 'chat__message-file--image'],
+            children: [
+              {
+                tag: 'img',
+                className: ['chat__message-file-img', 'has-tooltip'],
+                attrs: {
+                  src: fileUrl,
+                  alt: file.originalname,
+                  'data-tooltip': file.originalname,
+                  'data-action': 'open-image',
+                  'data-file-index': String(index),
+                },
+              },
+              {
+                tag: 'div',
+                className: 'chat__message-file-download-wrap',
+                children: [
+                  {
+                    tag: 'p',
+                    className: 'chat__message-file-size',
+                    text: formatFileSize(file.size),
+                  },
+                  {
+                    tag: 'a',
+                    className: [
+                      'chat__message-file-download-icon',
+                      'material-symbols-outlined',
+                    ],
+                    attrs: { href: fileUrl, download: file.originalname },
+                    text: 'download',
+                  },
+                ],
+              },
+            ],
+          });
+        } else if (file.mimetype.startsWith('video/')) {
+          fileItems.push({
+            tag: 'li',
+            className: 'chat__message-file',
+            children: [
+              {
+                tag: 'video',
+                className: 'chat__message-video',
+                attrs: { src: fileUrl, controls: 'true' },
+              },
+            ],
+          });
+        } else if (file.mimetype.startsWith('audio/')) {
+          fileItems.push({
+            tag: 'li',
+            className: 'chat__message-file',
+            children: [
+              {
+                tag: 'audio',
+                className: 'chat__message-audio',
+                attrs: { src: fileUrl, controls: 'true' },
+              },
+            ],
+          });
+        } else {
+          // Остальные файлы (PDF, документы, архивы) — карточкой документа
+          fileItems.push(this._createDocumentFileItem(file, index));
+        }
+      });
+
+      bodyChildren.push({
+        tag: 'ul',
+        className: 'chat__message-files',
+        children: fileItems,
+      });
+    }
+
+    // Подпись бота над его ответами
+    if (isBot) {
+      bodyChildren.unshift({
+        tag: 'span',
+        className: 'chat__message-author',
+        text: 'Keeply',
+      });
+    }
+
+    // Всегда добавляем текст сообщения; отмечать задачи можно только
+    // в своих сообщениях, сохранённых на сервере
+    bodyChildren.push({
+      tag: 'div',
+      className: 'chat__message-text',
+      html: sanitizeHtml(
+        linkifyHtml(
+          renderMarkdown(msg.message, {
+            isTaskEditable: !isBot && !msg.isLocal,
+          }),
+          this._linkifyOptions
+        )
+      ),
+    });
+
+    // Карточки и встроенная клавиатура бота — сразу под текстом
+    if (isBot && msg.payload) {
+      bodyChildren.push(...this._createBotPayload(msg.payload));
+    }
+
+    // Место, где написано сообщение, — ссылкой на карту
+    if (isValidLocation(msg.location)) {
+      bodyChildren.push(this._createLocationLink(msg.location));
+    }
+
+    bodyChildren.push(this._createTimestamp(msg.timestamp));
+
+    // Отметка об изменении с точным временем в подсказке
+    if (msg.editedAt) {
+      bodyChildren.push({
+        tag: 'span',
+        className: ['chat__message-edited', 'has-tooltip'],
+        text: 'изменено',
+        attrs: {
+          'data-tooltip': `Изменено ${new Date(msg.editedAt).toLocaleString()}`,
+        },
+      });
+    }
+
+    // Быстрые ответы — под сообщением
+    if (isBot && msg.payload?.quickReplies?.length) {
+      bodyChildren.push({
+        className: 'chat__quick-replies',
+        children: msg.payload.quickReplies.map(({ label, value }) => ({
+          tag: 'button',
+          className: 'chat__quick-reply',
+          text: label,
+          attrs: {
+            type: 'button',
+            'data-action': 'quick-reply',
+            'data-value': value ?? label,
+          },
+        })),
+      });
+    }
+
+    const element = createElement({
+      tag: 'li',
+      className: [
+        'chat__message-item',
+        `chat__message-item--${msg.sender ?? 'user'}`,
+      ],
+      id: msg.id,
+      attrs: {
+        'data-timestamp': msg.timestamp,
+        'data-sender': msg.sender ?? 'user',
+      },
+      children: [
+        {
+          tag: 'div',
+          className: 'chat__message-body',
+          children: bodyChildren,
+        },
+        // Локальные сообщения не хранятся на сервере — действий с ними нет
+        ...(msg.isLocal
+          ? []
+          : [
+              {
+                tag: 'div',
+                className: 'chat__message-actions',
+                children: [
+                  this._createFavoriteButton(Boolean(msg.isFavorite)),
+                  ...this._createMessageMenu(msg),
+                ],
+              },
+            ]),
+      ],
+    });
+
+    if (this._pendingDeletions.has(msg.id)) element.classList.add('hidden');
+    if (msg.pinned) element.classList.add('chat__message-item--pinned');
+
+    // Хэштеги в тексте — кнопки фильтра по тегу рядом со ссылками linkifyHtml,
+    // под текстом — превью первой ссылки
+    const text = element.querySelector<HTMLElement>('.chat__message-text');
+    if (text) {
+      renderTagChips(text, 'chat__message-tag');
+      this._linkPreviews.attach(text);
+    }
+
+    this._renderedSignatures.set(element, this._getSignature(msg));
+    this._renderedMessages.set(element, msg);
+    return element;
+  }
+
+  /**
+   * Создаёт время сообщения: относительное («5 минут назад», обновляет
+   * FeedTimeline) с точным временем в подсказке.
+   *
+   * @param {string} timestamp - Время сообщения в формате ISO.
+   * @returns {ICreateElementOptions} Конфигурация элемента `time`.
+   *
+   * @private
+   */
+  private _createTimestamp(timestamp: string): ICreateElementOptions {
+    const date = new Date(timestamp);
+
+    return {
+      tag: 'time',
+      className: ['chat__message-timestamp', 'has-tooltip'],
+      text: formatRelativeTime(date),
+      attrs: { datetime: timestamp, 'data-tooltip': date.toLocaleString() },
+    };
+  }
+
+  /**
+   * Создаёт ссылку на карту с координатами сообщения. Точность, если
+   * она известна, показывается в подсказке.
+   *
+   * @param {IMessageLocation} location - Координаты сообщения.
+   * @returns {ICreateElementOptions} Конфигурация ссылки.
+   *
+   * @private
+   */
+  private _createLocationLink(
+    location: IMessageLocation
+  ): ICreateElementOptions {
+    const coordinates = formatCoordinates(location);
+
+    return {
+      tag: 'a',
+      className: ['chat__message-location', 'has-tooltip'],
+      attrs: {
+        href: getMapUrl(location),
+        target: '_blank',
+        rel: 'noopener noreferrer',
+        'aria-label': `Открыть на карте: ${coordinates}`,
+        'data-tooltip':
+          typeof location.accuracy === 'number'
+            ? `Открыть на карте (точность ±${location.accuracy} м)`
+            : 'Открыть на карте',
+      },
+      children: [
+        {
+          tag: 'span',
+          className: 'material-symbols-outlined',
+          attrs: { 'aria-hidden': 'true' },
+          text: 'location_on',
+        },
+        coordinates,
+      ],
+    };
+  }
+
+  /**
+   * Создаёт карточку документа: иконка по типу файла, имя, размер,
+   * кнопка предпросмотра (для PDF, текста, JSON и CSV) и ссылка на скачивание.
+   *
+   * @param {IMessageFile} file - Файл из сообщения.
+   * @param {number} index - Индекс файла в сообщении (для предпросмотра).
+   * @returns {ICreateElementOptions} Конфигурация элемента `li`.
+   *
+   * @private
+   */
+  private _createDocumentFileItem(
+    file: IMessageFile,
+    index: number
+  ): ICreateElementOptions {
+    const fileUrl = `${SERVER_URL}${file.url}`;
+    const isPreviewable =
+      getFilePreviewType(file.mimetype, file.originalname) !== null;
+
+    return {
+      tag: 'li',
+      className: ['chat__message-file', 'chat__message-file--document'],
+      children: [
+        {
+          tag: 'span',
+          className: ['chat__message-file-icon', 'material-symbols-outlined'],
+          attrs: { 'aria-hidden': 'true' },
+          text: getFileIcon(file.mimetype, file.originalname),
+        },
+        {
+          className: 'chat__message-file-info',
+          children: [
+            {
+              tag: 'p',
+              className: 'chat__message-file-name',
+              attrs: { title: file.originalname },
+              text: file.originalname,
+            },
+            {
+              tag: 'p',
+              className: 'chat__message-file-size',
+              text: formatFileSize(file.size),
+            },
+          ],
+        },
+        ...(isPreviewable
+          ? [
+              {
+                tag: 'button',
+                className: [
+                  'chat__message-file-action',
+                  'material-symbols-outlined',
+                ],
+                attrs: {
+                  type: 'button',
+                  'data-action': 'preview-file',
+                  'data-file-index': String(index),
+                  'aria-label': `Просмотреть ${file.originalname}`,
+                  title: 'Просмотреть',
+                },
+                text: 'visibility',
+              },
+            ]
+          : []),
+        {
+          tag: 'a',
+          className: ['chat__message-file-action', 'material-symbols-outlined'],
+          attrs: {
+            href: fileUrl,
+            download: file.originalname,
+            'aria-label': `Скачать ${file.originalname}`,
+            title: 'Скачать',
+          },
+          text: 'download',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Создаёт DOM-элемент служебного сообщения: текст и время по центру
+   * ленты, без действий.
+   *
+   * @param {IUserMessageCard} msg - Служебное сообщение.
+   * @returns {HTMLElement} Элемент `li.chat__message-item--system`.
+   *
+   * @private
+   */
+  private _createSystemMessageElement(msg: IUserMessageCard): HTMLElement {
+    const element = createElement({
+      tag: 'li',
+      className: ['chat__message-item', 'chat__message-item--system'],
+      id: msg.id,
+      attrs: { 'data-timestamp': msg.timestamp, 'data-sender': 'system' },
+      children: [
+        {
+          tag: 'p',
+          className: 'chat__message-text',
+          html: sanitizeHtml(
+            linkifyHtml(escapeHtml(msg.message), this._linkifyOptions)
+          ),
+        },
+        this._createTimestamp(msg.timestamp),
+      ],
+    });
+
+    this._renderedSignatures.set(element, this._getSignature(msg));
+    this._renderedMessages.set(element, msg);
+    return element;
+  }
+
+  /**
+   * Создаёт карточки и встроенную клавиатуру сообщения бота.
+   * Ссылки и изображения с небезопасной схемой (не http/https) пропускаются.
+   *
+   * @param {IBotPayload} payload - Интерактивные элементы сообщения.
+   * @returns {ICreateElementOptions[]} Конфигурации карточек и клавиатуры.
+   *
+   * @private
+   *
+   * @see {@link IBotPayload} - Интерфейс интерактивных элементов
+   */
+  private _createBotPayload(payload: IBotPayload): ICreateElementOptions[] {
+    const isSafeUrl = (url?: string): url is string =>
+      Boolean(url && /^https?:\/\//i.test(url));
+    const result: ICreateElementOptions[] = [];
+
+    if (payload.cards?.length) {
+      result.push({
+        tag: 'ul',
+        className: 'chat__cards',
+        children: payload.cards.map((card) => ({
+          tag: 'li',
+          className: 'chat__card',
+          children: [
+            ...(isSafeUrl(card.imageUrl)
+              ? [
+                  {
+                    tag: 'img',
+                    className: 'chat__card-image',
+                    attrs: { src: card.imageUrl, alt: '', loading: 'lazy' },
+                  },
+                ]
+              : []),
+            {
+              className: 'chat__card-body',
+              children: [
+                { tag: 'p', className: 'chat__card-title', text: card.title },
+                ...(card.description
+                  ? [
+                      {
+                        tag: 'p',
+                        className: 'chat__card-description',
+                        text: card.description,
+                      },
+                    ]
+                  : []),
+                ...(isSafeUrl(card.url)
+                  ? [
+                      {
+                        tag: 'a',
+                        className: 'chat__card-link',
+                        text: 'Открыть',
+                        attrs: {
+                          href: card.url,
+                          target: '_blank',
+                          rel: 'noopener noreferrer',
+                        },
+                      },
+                    ]
+                  : []),
+              ],
+            },
+          ],
+        })),
+      });
+    }
+
+    if (payload.keyboard?.length) {
+      result.push({
+        className: 'chat__keyboard',
+        children: payload.keyboard.map((row) => ({
+          className: 'chat__keyboard-row',
+          children: row.map(
+            ({ label, data, url }): ICreateElementOptions =>
+              isSafeUrl(url)
+                ? {
+                    tag: 'a',
+                    className: 'chat__keyboard-btn',
+                    text: label,
+                    attrs: {
+                      href: url,
+                      target: '_blank',
+                      rel: 'noopener noreferrer',
+                    },
+                  }
+                : {
+                    tag: 'button',
+                    className: 'chat__keyboard-btn',
+                    text: label,
+                    attrs: {
+                      type: 'button',
+                      'data-action': 'inline-button',
+                      'data-callback': data ?? label,
+                    },
+                  }
+          ),
+        })),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Создаёт кнопку «звёздочка» для добавления сообщения в избранное.
+   *
+   * @param {boolean} isFavorite - Находится ли сообщение в избранном.
+   * @returns {ICreateElementOptions} Конфигурация кнопки.
+   *
+   * @private
+   */
+  private _createFavoriteButton(isFavorite: boolean): ICreateElementOptions {
+    const label = isFavorite ? 'Убрать из избранного' : 'Добавить в избранное';
+
+    return {
+      tag: 'button',
+      className: [
+        'chat__message-action',
+        'chat__message-favorite',
+        ...(isFavorite ? ['chat__message-favorite--active'] : []),
+      ],
+      attrs: {
+        type: 'button',
+        'data-action': 'favorite',
+        'aria-pressed': String(isFavorite),
+        'aria-label': label,
+        title: label,
+      },
+      children: [
+        { tag: 'span', className: 'material-symbols-outlined', text: 'star' },
+      ],
+    };
+  }
+
+  /**
+   * Создаёт кнопку и выпадающее меню действий с сообщением
+   * (копирование текста, закрепление, изменение, удаление).
+   *
+   * @param {IUserMessageCard} msg - Сообщение.
+   * @returns {ICreateElementOptions[]} Конфигурации кнопки и меню.
+   *
+   * @private
+   */
+  private _createMessageMenu(msg: IUserMessageCard): ICreateElementOptions[] {
+    const [copyItem, ...restItems] = MESSAGE_MENU_ITEMS;
+    const menuItems = [
+      copyItem,
+      msg.pinned
+        ? { action: 'pin', label: 'Открепить', icon: 'keep_off' }
+        : { action: 'pin', label: 'Закрепить', icon: 'keep' },
+      // Изменять можно только собственные сообщения
+      ...restItems.filter(
+        ({ action }) => action !== 'edit' || msg.sender !== 'bot'
+      ),
+    ];
+
+    return [
+      {
+        tag: 'button',
+        className: ['chat__message-action', 'chat__message-menu-toggle'],
+        attrs: {
+          type: 'button',
+          'data-action': 'menu',
+          'aria-haspopup': 'menu',
+          'aria-expanded': 'false',
+          'aria-label': 'Действия с сообщением',
+          title: 'Действия с сообщением',
+        },
+        children: [
+          {
+            tag: 'span',
+            className: 'material-symbols-outlined',
+            text: 'more_vert',
+          },
+        ],
+      },
+      {
+        tag: 'ul',
+        className: 'chat__message-menu',
+        attrs: { role: 'menu' },
+        children: menuItems.map(({ action, label, icon }) => ({
+          tag: 'li',
+          attrs: { role: 'none' },
+          children: [
+            {
+              tag: 'button',
+              className: 'chat__message-menu-item',
+              attrs: {
+                type: 'button',
+                role: 'menuitem',
+                'data-action': action,
+              },
+              children: [
+                {
+                  tag: 'span',
+                  className: 'material-symbols-outlined',
+                  text: icon,
+                },
+                label,
+              ],
+            },
+          ],
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Обработчик кликов по ленте: делегирует нажатия на кнопки действий
+   * сообщений (`[data-action]`).
+   *
+   * @param {MouseEvent} event - Событие клика.
+   *
+   * @private
+   */
+  private _handleFeedClick(event: MouseEvent): void {
+    if (!(event.target instanceof Element)) return;
+
+    const button = event.target.closest<HTMLElement>('[data-action]');
+    const item = button?.closest<HTMLElement>('.chat__message-item');
+    if (!button || !item) return;
+
+    const pending = this._pendingMessages.get(item.id);
+
+    const action = button.dataset.action;
+    if (action !== 'menu') this._closeMessageMenu();
+
+    switch (action) {
+      case 'favorite':
+        void this._toggleFavorite(item.id);
+        break;
+      case 'menu':
+        this._toggleMessageMenu(item);
+        break;
+      case 'copy':
+        void this._copyMessageText(item);
+        break;
+      case 'preview-file':
+        this._openFilePreview(item, Number(button.dataset.fileIndex));
+        break;
+      case 'open-image':
+        this._openImage(item, Number(button.dataset.fileIndex));
+        break;
+      case 'copy-code':
+        void this._copyCode(button);
+        break;
+      case 'task':
+        void this._toggleTask(item, Number(button.dataset.taskIndex));
+        break;
+      case 'pin':
+        void this._togglePinned(item);
+        break;
+      case 'remind':
+        this._openReminderDialog(item);
+        break;
+      case 'tag':
+        this._tagFilter?.select(button.dataset.tag ?? '');
+        break;
+      case 'quick-reply':
+        this._sendQuickReply(button.dataset.value ?? '');
+        break;
+      case 'inline-button':
+        void this._sendInlineButton(item.id, button);
+        break;
+      case 'edit':
+        this._startEditing(item);
+        break;
+      case 'edit-save':
+        void this._saveEditing(item);
+        break;
+      case 'edit-cancel':
+        this._cancelEditing(item);
+        break;
+      case 'delete':
+        this._deleteMessageWithUndo(item.id);
+        break;
+      case 'cancel-upload':
+        pending?.controller?.abort();
+        break;
+      case 'retry-upload':
+        if (pending) void this._sendPendingMessage(pending);
+        break;
+      case 'discard-upload':
+        this._removePendingMessage(item.id);
+        break;
+    }
+  }
+
+  /**
+   * Открывает меню действий по правому клику на сообщении.
+   *
+   * @param {MouseEvent} event - Событие контекстного меню.
+   *
+   * @private
+   */
+  private _handleFeedContextMenu(event: MouseEvent): void {
+    if (!(event.target instanceof Element)) return;
+
+    // Над ссылками, медиа и полем редактирования оставляем меню браузера
+    if (event.target.closest('a, img, video, audio, textarea')) return;
+
+    const item = event.target.closest<HTMLElement>(
+      '.chat__message-item:not(.chat__message-item--pending)'
+    );
+    if (!item) return;
+
+    event.preventDefault();
+    this._closeMessageMenu();
+    this._toggleMessageMenu(item);
+  }
+
+  /**
+   * Обработчик нажатий клавиш в ленте: навигация по меню действий
+   * стрелками и его закрытие по Esc.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   *
+   * @private
+   */
+  private _handleFeedKeydown(event: KeyboardEvent): void {
+    if (!(event.target instanceof HTMLElement)) return;
+
+    const menu = event.target.closest('.chat__message-menu');
+    const item = event.target.closest<HTMLElement>('.chat__message-item');
+    if (!menu || !item) return;
+
+    if (event.key === 'Escape') {
+      // Esc закрывает только меню, но не боковую панель
+      event.preventDefault();
+      this._closeMessageMenu();
+      item.querySelector<HTMLElement>('.chat__message-menu-toggle')?.focus();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const items = [
+        ...menu.querySelectorAll<HTMLElement>('.chat__message-menu-item'),
+      ];
+      const index = items.indexOf(event.target);
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      items[(index + step + items.length) % items.length]?.focus();
+    }
+  }
+
+  /**
+   * Открывает или закрывает меню действий с сообщением.
+   * Одновременно может быть открыто только одно меню.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   *
+   * @private
+   */
+  private _toggleMessageMenu(item: HTMLElement): void {
+    const isOpen = item.classList.contains('chat__message-item--menu-open');
+    this._closeMessageMenu();
+    if (isOpen) return;
+
+    item.classList.add('chat__message-item--menu-open');
+    item
+      .querySelector('.chat__message-menu-toggle')
+      ?.setAttribute('aria-expanded', 'true');
+    item.querySelector<HTMLElement>('.chat__message-menu-item')?.focus();
+  }
+
+  /**
+   * Закрывает открытое меню действий с сообщением.
+   *
+   * @private
+   */
+  private _closeMessageMenu(): void {
+    this._chatContent
+      ?.querySelectorAll('.chat__message-item--menu-open')
+      .forEach((item) => {
+        item.classList.remove('chat__message-item--menu-open');
+        item
+          .querySelector('.chat__message-menu-toggle')
+          ?.setAttribute('aria-expanded', 'false');
+      });
+  }
+
+  /**
+   * Копирует текст сообщения в буфер обмена.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после копирования.
+   *
+   * @private
+   */
+  private async _copyMessageText(item: HTMLElement): Promise<void> {
+    const msg = this._renderedMessages.get(item);
+    if (!msg) return;
+
+    try {
+      await navigator.clipboard.writeText(msg.message);
+      this._toasts.show({ message: 'Текст скопирован', type: 'success' });
+    } catch {
+      this._toasts.show({
+        message: 'Не удалось скопировать текст',
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * Открывает предпросмотр документа из сообщения.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @param {number} index - Индекс файла в сообщении.
+   *
+   * @private
+   */
+  private _openFilePreview(item: HTMLElement, index: number): void {
+    const file = this._renderedMessages.get(item)?.files?.[index];
+    if (file) this._filePreview.open(file);
+  }
+
+  /**
+   * Открывает изображение из сообщения в просмотрщике.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @param {number} index - Индекс файла в сообщении.
+   *
+   * @private
+   */
+  private _openImage(item: HTMLElement, index: number): void {
+    const file = this._renderedMessages.get(item)?.files?.[index];
+    if (file) this._lightbox.open(file);
+  }
+
+  /**
+   * Копирует содержимое блока кода в буфер обмена.
+   *
+   * @param {HTMLElement} button - Кнопка копирования внутри блока кода.
+   * @returns {Promise<void>} Промис, который разрешается после копирования.
+   *
+   * @private
+   */
+  private async _copyCode(button: HTMLElement): Promise<void> {
+    const code = button.closest('.chat__code')?.querySelector('code');
+    if (!code) return;
+
+    try {
+      await navigator.clipboard.writeText(code.textContent ?? '');
+      this._toasts.show({ message: 'Код скопирован', type: 'success' });
+    } catch {
+      this._toasts.show({
+        message: 'Не удалось скопировать код',
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * Отмечает пункт списка задач (или снимает отметку) и сохраняет
+   * изменённый текст сообщения. При ошибке отметка возвращается.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @param {number} index - Номер пункта задачи в сообщении.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _toggleTask(item: HTMLElement, index: number): Promise<void> {
+    const msg = this._renderedMessages.get(item);
+    if (!msg || msg.isLocal || Number.isNaN(index)) return;
+
+    const message = toggleTask(msg.message, index);
+    if (message === msg.message) return;
+
+    // Отметка видна сразу, не дожидаясь ответа сервера
+    this._updateMessage({ ...msg, message });
+
+    try {
+      this._updateMessage(await updateMessage(msg.id, message));
+    } catch {
+      this._updateMessage(msg);
+      this._toasts.show({
+        message: 'Не удалось сохранить отметку задачи',
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * Отправляет быстрый ответ бота как сообщение пользователя
+   * (или выполняет его, если это команда).
+   *
+   * @param {string} value - Текст быстрого ответа.
+   *
+   * @private
+   */
+  private _sendQuickReply(value: string): void {
+    const text = value.trim();
+    if (!text) return;
+
+    const command = this._commands.parse(text);
+    if (command) {
+      void this._runCommand(text, command);
+    } else {
+      void this._deliverPendingMessage(this._createPendingMessage(text, []));
+    }
+  }
+
+  /**
+   * Отправляет боту нажатие кнопки встроенной клавиатуры и показывает
+   * его ответ. На время запроса кнопка блокируется.
+   *
+   * @param {string} id - Идентификатор сообщения бота.
+   * @param {HTMLElement} button - Нажатая кнопка с `data-callback`.
+   * @returns {Promise<void>} Промис, который разрешается после ответа бота.
+   *
+   * @private
+   */
+  private async _sendInlineButton(
+    id: string,
+    button: HTMLElement
+  ): Promise<void> {
+    if (!(button instanceof HTMLButtonElement) || button.disabled) return;
+
+    button.disabled = true;
+    try {
+      const messages = await sendCallback(id, button.dataset.callback ?? '');
+      messages.forEach((msg) => this._upsertMessage(msg));
+      this._scrollFeedToBottom();
+    } catch {
+      this._toasts.show({
+        message: 'Не удалось отправить ответ боту',
+        type: 'error',
+      });
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  /**
+   * Закрепляет сообщение в панели над лентой или снимает закрепление.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _togglePinned(item: HTMLElement): Promise<void> {
+    const msg = this._renderedMessages.get(item);
+    if (!msg || !this._pinnedBar.isEnabled) return;
+
+    try {
+      this._updateMessage(await setMessagePinned(msg.id, !msg.pinned));
+    } catch {
+      this._toasts.show({
+        message: msg.pinned
+          ? 'Не удалось открепить сообщение'
+          : 'Не удалось закрепить сообщение',
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * Загружает закреплённые сообщения в панель над лентой.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после загрузки.
+   *
+   * @private
+   */
+  private async _loadPinnedMessages(): Promise<void> {
+    try {
+      this._pinnedBar.setMessages(await fetchPinnedMessages());
+    } catch {
+      // Без сети об этом уже сообщает баннер, а панель обновится
+      // при восстановлении связи
+      if (!this._isOffline) {
+        this._toasts.show({
+          message: 'Не удалось загрузить закреплённые сообщения',
+          type: 'error',
+        });
+      }
+    }
+  }
+
+  /**
+   * Заменяет текст сообщения полем редактирования.
+   *
+   * @description
+   * Enter сохраняет изменения, Shift+Enter — перенос строки, Esc — отмена.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   *
+   * @private
+   */
+  private _startEditing(item: HTMLElement): void {
+    const msg = this._renderedMessages.get(item);
+    const text = item.querySelector('.chat__message-text');
+    if (!msg || !text) return;
+
+    if (item.classList.contains('chat__message-item--editing')) {
+      item.querySelector<HTMLElement>('.chat__message-edit-input')?.focus();
+      return;
+    }
+
+    const editor = createElement({
+      className: 'chat__message-edit',
+      children: [
+        {
+          tag: 'textarea',
+          className: 'chat__message-edit-input',
+          attrs: { rows: '3', 'aria-label': 'Текст сообщения' },
+        },
+        {
+          className: 'chat__message-edit-buttons',
+          children: [
+            {
+              tag: 'button',
+              className: 'chat__upload-btn',
+              text: 'Отмена',
+              attrs: { type: 'button', 'data-action': 'edit-cancel' },
+            },
+            {
+              tag: 'button',
+              className: ['chat__upload-btn', 'chat__message-edit-save'],
+              text: 'Сохранить',
+              attrs: { type: 'button', 'data-action': 'edit-save' },
+            },
+          ],
+        },
+      ],
+    });
+
+    const input = editor.querySelector('textarea');
+    if (!input) return;
+
+    input.value = msg.message;
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        this._cancelEditing(item);
+      } else if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        void this._saveEditing(item);
+      }
+    });
+
+    text.after(editor);
+    item.classList.add('chat__message-item--editing');
+    input.focus();
+    input.setSelectionRange(input.value.length, input.value.length);
+  }
+
+  /**
+   * Сохраняет изменённый текст сообщения на сервере.
+   * При ошибке поле редактирования остаётся открытым.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _saveEditing(item: HTMLElement): Promise<void> {
+    const msg = this._renderedMessages.get(item);
+    const input = item.querySelector<HTMLTextAreaElement>(
+      '.chat__message-edit-input'
+    );
+    if (!msg || !input || input.disabled) return;
+
+    const message = input.value.trim();
+    if (!message) {
+      this._toasts.show({
+        message: 'Сообщение не может быть пустым',
+        type: 'error',
+      });
+      return;
+    }
+
+    if (message === msg.message) {
+      this._cancelEditing(item);
+      return;
+    }
+
+    input.disabled = true;
+    try {
+      this._updateMessage(await updateMessage(msg.id, message));
+    } catch {
+      this._toasts.show({
+        message: 'Не удалось изменить сообщение',
+        type: 'error',
+      });
+      input.disabled = false;
+      input.focus();
+    }
+  }
+
+  /**
+   * Закрывает поле редактирования и возвращает исходный текст сообщения.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   *
+   * @private
+   */
+  private _cancelEditing(item: HTMLElement): void {
+    item.querySelector('.chat__message-edit')?.remove();
+    item.classList.remove('chat__message-item--editing');
+  }
+
+  /**
+   * Скрывает сообщение и показывает уведомление с кнопкой «Отменить».
+   * Запрос на удаление отправляется, только когда уведомление закроется.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   *
+   * @private
+   */
+  private _deleteMessageWithUndo(id: string): void {
+    if (this._pendingDeletions.has(id)) return;
+    this._getMessageElement(id)?.classList.add('hidden');
+    // Скрытое сообщение не участвует в группах и разделителях дней
+    this._feedTimeline.update();
+
+    const commit = this._toasts.show({
+      message: 'Сообщение удалено',
+      duration: DELETE_UNDO_DURATION,
+      action: {
+        label: 'Отменить',
+        onClick: (): void => {
+          this._pendingDeletions.delete(id);
+          this._getMessageElement(id)?.classList.remove('hidden');
+          this._feedTimeline.update();
+        },
+      },
+      onDismiss: (): void => {
+        void this._commitDeletion(id);
+      },
+    });
+
+    this._pendingDeletions.set(id, commit);
+  }
+
+  /**
+   * Удаляет сообщение на сервере после того, как время на отмену истекло.
+   * При ошибке сообщение снова показывается в ленте.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _commitDeletion(id: string): Promise<void> {
+    // Сообщение уже удалено (например, событием канала обновлений)
+    if (!this._pendingDeletions.delete(id)) return;
+
+    try {
+      await deleteMessage(id);
+      this._removeMessage(id);
+    } catch {
+      this._getMessageElement(id)?.classList.remove('hidden');
+      this._feedTimeline.update();
+      this._toasts.show({
+        message: 'Не удалось удалить сообщение',
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * Переключает отметку «избранное» у сообщения.
+   *
+   * @description
+   * Кнопка обновляется сразу, не дожидаясь ответа сервера. Если запрос
+   * не удался, отметка возвращается в прежнее состояние.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _toggleFavorite(id: string): Promise<void> {
+    const button = this._getMessageElement(id)?.querySelector(
+      '.chat__message-favorite'
+    );
+    if (!button) return;
+
+    const isFavorite = !button.classList.contains(
+      'chat__message-favorite--active'
+    );
+    button.replaceWith(createElement(this._createFavoriteButton(isFavorite)));
+
+    try {
+      const updated = await setMessageFavorite(id, isFavorite);
+      this._updateMessage(updated);
+    } catch {
+      this._getMessageElement(id)
+        ?.querySelector('.chat__message-favorite')
+        ?.replaceWith(createElement(this._createFavoriteButton(!isFavorite)));
+      this._toasts.show({
+        message: isFavorite
+          ? 'Не удалось добавить сообщение в избранное'
+          : 'Не удалось убрать сообщение из избранного',
+        type: 'error',
+      });
+    }
+
+    if (this._sidebar.section === 'favorites') {
+      void this._renderFavoritesSidebar();
+    }
+  }
+
+  /**
+   * Обработчик клика по кнопке «Избранное»: открывает боковую панель
+   * со списком избранных сообщений или закрывает её.
+   *
+   * @private
+   */
+  private _handleFavoritesButtonClick(): void {
+    if (this._sidebar.section === 'favorites') {
+      this._sidebar.close();
+      return;
+    }
+
+    this._sidebar.open('favorites', 'Избранное', null);
+    void this._renderFavoritesSidebar();
+  }
+
+  /**
+   * Загружает избранные сообщения и отображает их в боковой панели.
+   * Если сервер недоступен, показывает избранные среди загруженных сообщений.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после отображения списка.
+   *
+   * @private
+   */
+  private async _renderFavoritesSidebar(): Promise<void> {
+    let favorites: IUserMessageCard[];
+    try {
+      favorites = await fetchFavorites();
+    } catch {
+      favorites = this._messages.filter((msg) => msg.isFavorite);
+    }
+
+    if (this._sidebar.section !== 'favorites') return;
+    this._sidebar.setContent(this._createSidebarMessageList(favorites));
+  }
+
+  /**
+   * Обработчик клика по кнопке «Вложения»: открывает боковую панель
+   * с галереей файлов из всех сообщений или закрывает её.
+   *
+   * @private
+   */
+  private _handleAttachmentsButtonClick(): void {
+    if (this._sidebar.section === 'attachments') {
+      this._sidebar.close();
+      return;
+    }
+
+    this._sidebar.open('attachments', 'Вложения', null);
+    void this._renderAttachmentsSidebar();
+  }
+
+  /**
+   * Загружает вложения всех сообщений и отображает галерею в боковой панели.
+   * Если сервер недоступен, собирает вложения из загруженных сообщений.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после отображения галереи.
+   *
+   * @private
+   *
+   * @see {@link AttachmentsGallery} - Галерея вложений
+   */
+  private async _renderAttachmentsSidebar(): Promise<void> {
+    let attachments: IMessageAttachment[];
+    try {
+      attachments = await fetchAttachments();
+    } catch {
+      attachments = this._messages.flatMap((msg) =>
+        (msg.files ?? []).map((file) => ({
+          ...file,
+          messageId: msg.id,
+          timestamp: msg.timestamp,
+        }))
+      );
+    }
+
+    if (this._sidebar.section !== 'attachments') return;
+
+    const gallery = new AttachmentsGallery({
+      attachments,
+      onShowInChat: (messageId): void => {
+        void this._scrollToMessage(messageId);
+      },
+    });
+    this._sidebar.setContent(gallery.render());
+  }
+
+  /**
+   * Создаёт список сообщений для боковой панели. Клик по элементу
+   * прокручивает ленту к исходному сообщению.
+   *
+   * @param {IUserMessageCard[]} messages - Сообщения.
+   * @returns {HTMLElement | null} Список или `null`, если сообщений нет.
+   *
+   * @private
+   */
+  private _createSidebarMessageList(
+    messages: IUserMessageCard[]
+  ): HTMLElement | null {
+    if (messages.length === 0) return null;
+
+    const list = createElement({ tag: 'ul', className: 'sidebar__list' });
+
+    // Новые сообщения — вверху списка
+    for (const msg of [...messages].reverse()) {
+      const preview =
+        msg.message.trim() ||
+        msg.files?.map((file) => file.originalname).join(', ') ||
+        '';
+
+      const entry = createElement({
+        tag: 'li',
+        className: 'sidebar__item',
+        children: [
+          {
+            tag: 'button',
+            className: 'sidebar__item-btn',
+            attrs: { type: 'button' },
+            children: [
+              {
+                tag: 'p',
+                className: 'sidebar__item-text',
+                text: preview,
+              },
+              {
+                tag: 'time',
+                className: 'sidebar__item-date',
+                text: new Date(msg.timestamp).toLocaleString(),
+                attrs: { datetime: msg.timestamp },
+              },
+            ],
+          },
+        ],
+        parent: list,
+      });
+
+      entry.querySelector('button')?.addEventListener('click', () => {
+        void this._scrollToMessage(msg.id);
+      });
+    }
+
+    return list;
+  }
+
+  /**
+   * Обработчик клика по кнопке «Теги»: открывает боковую панель
+   * со списком тегов или закрывает её.
+   *
+   * @private
+   */
+  private _handleTagsButtonClick(): void {
+    if (this._sidebar.section === 'tags') {
+      this._sidebar.close();
+      return;
+    }
+
+    this._sidebar.open('tags', 'Теги', null);
+    void this._renderTagsSidebar();
+  }
+
+  /**
+   * Загружает теги с количеством сообщений и отображает их в боковой панели.
+   * Если сервер недоступен, считает теги в загруженных сообщениях.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после отображения списка.
+   *
+   * @private
+   */
+  private async _renderTagsSidebar(): Promise<void> {
+    try {
+      this._tagCounts = await fetchTags();
+    } catch {
+      const counts = new Map<string, number>();
+      this._messages.forEach((msg) => {
+        extractTags(msg.message).forEach((tag) => {
+          counts.set(tag, (counts.get(tag) ?? 0) + 1);
+        });
+      });
+      this._tagCounts = [...counts].map(([tag, count]) => ({ tag, count }));
+    }
+
+    this._refreshTagsSidebar();
+  }
+
+  /**
+   * Перерисовывает список тегов в боковой панели, если он открыт,
+   * отмечая выбранный тег.
+   *
+   * @private
+   */
+  private _refreshTagsSidebar(): void {
+    if (this._sidebar.section !== 'tags') return;
+    this._sidebar.setContent(this._createTagsList());
+  }
+
+  /**
+   * Создаёт список тегов для боковой панели: самые частые — вверху.
+   * Клик по тегу фильтрует ленту, повторный клик по выбранному — сбрасывает фильтр.
+   *
+   * @returns {HTMLElement | null} Список или `null`, если тегов нет.
+   *
+   * @private
+   */
+  private _createTagsList(): HTMLElement | null {
+    if (this._tagCounts.length === 0) return null;
+
+    const activeTag = this._tagFilter?.activeTag ?? null;
+    const tags = [...this._tagCounts].sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+
+    const list = createElement({
+      tag: 'ul',
+      className: 'tags-list',
+      children: tags.map(({ tag, count }) => {
+        const isActive = tag === activeTag;
+        return {
+          tag: 'li',
+          children: [
+            {
+              tag: 'button',
+              className: [
+                'tags-list__item',
+                ...(isActive ? ['tags-list__item--active'] : []),
+              ],
+              attrs: {
+                type: 'button',
+                'data-tag': tag,
+                'aria-pressed': String(isActive),
+              },
+              children: [
+                `#${tag}`,
+                {
+                  tag: 'span',
+                  className: 'tags-list__count',
+                  text: String(count),
+                },
+              ],
+            },
+          ],
+        };
+      }),
+    });
+
+    list.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const button = event.target.closest<HTMLElement>('[data-tag]');
+      const tag = button?.dataset.tag;
+      if (!tag) return;
+
+      if (tag === this._tagFilter?.activeTag) {
+        this._tagFilter.clear();
+      } else {
+        this._tagFilter?.select(tag);
+      }
+    });
+
+    return list;
+  }
+
+  /**
+   * Загружает запланированные сообщения и напоминания и заводит их таймеры.
+   * Без сети берёт список из локального кэша, поэтому напоминания
+   * срабатывают и после перезагрузки страницы офлайн.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после загрузки.
+   *
+   * @private
+   *
+   * @see {@link ReminderScheduler} - Планировщик напоминаний
+   */
+  private async _loadScheduledItems(): Promise<void> {
+    let items: IScheduledItem[] | null;
+    let isFromServer = true;
+    try {
+      items = await fetchScheduledItems();
+    } catch {
+      items = await this._offlineStore.getSchedule();
+      isFromServer = false;
+    }
+
+    if (!items) return;
+
+    // Сработавшие элементы, удаление которых не дошло до сервера,
+    // повторно не срабатывают
+    const completed = new Set(await this._offlineStore.getCompletedSchedule());
+    this._scheduler.setItems(items.filter(({ id }) => !completed.has(id)));
+    this._handleScheduleChange();
+
+    if (!isFromServer) return;
+
+    const serverIds = new Set(items.map(({ id }) => id));
+    await this._withLock(SCHEDULE_LOCK, async () => {
+      // Отметки об элементах, которых на сервере уже нет, больше не нужны
+      const ids = await this._offlineStore.getCompletedSchedule();
+      await this._offlineStore.saveCompletedSchedule(
+        ids.filter((id) => serverIds.has(id))
+      );
+    });
+
+    completed.forEach((id) => {
+      if (serverIds.has(id)) void this._completeScheduledItem(id);
+    });
+  }
+
+  /**
+   * Сохраняет запланированные элементы в кэш и обновляет их список
+   * в боковой панели, если он открыт.
+   *
+   * @private
+   */
+  private _handleScheduleChange(): void {
+    void this._offlineStore.saveSchedule(this._scheduler.items);
+
+    if (this._sidebar.section === 'schedule') {
+      this._sidebar.setContent(this._createScheduleList());
+    }
+  }
+
+  /**
+   * Обработчик клика по кнопке планирования в форме: открывает окно выбора
+   * времени для введённого сообщения. Команды и сообщения с вложениями
+   * не планируются.
+   *
+   * @private
+   */
+  private _handleScheduleButtonClick(): void {
+    const message = this._getUserMessageFromForm()?.trim();
+
+    if (!message) {
+      this._toasts.show({
+        message: 'Напишите сообщение, которое нужно запланировать',
+      });
+      this._chatTextarea?.focus();
+      return;
+    }
+    if (this._commands.parse(message)) {
+      this._toasts.show({
+        message: 'Команды выполняются сразу, их нельзя запланировать',
+        type: 'error',
+      });
+      return;
+    }
+    if (this._selectedFiles.length > 0) {
+      this._toasts.show({
+        message: 'Сообщения с вложениями пока нельзя запланировать',
+        type: 'error',
+      });
+      return;
+    }
+
+    new ScheduleDialog({
+      title: 'Запланировать сообщение',
+      submitLabel: 'Запланировать',
+      preview: message,
+      onSubmit: async (date): Promise<void> => {
+        await this._createScheduledItem({
+          kind: 'message',
+          message,
+          fireAt: date.toISOString(),
+        });
+        this._chatForm?.reset();
+        this._updateSendButtonState();
+      },
+    }).open();
+  }
+
+  /**
+   * Открывает окно выбора времени напоминания о сообщении из ленты.
+   *
+   * @param {HTMLElement} item - Элемент сообщения.
+   *
+   * @private
+   */
+  private _openReminderDialog(item: HTMLElement): void {
+    const msg = this._renderedMessages.get(item);
+    if (!msg) return;
+
+    const text =
+      msg.message.trim() ||
+      (msg.files ?? []).map((file) => file.originalname).join(', ');
+
+    new ScheduleDialog({
+      title: 'Напомнить о сообщении',
+      submitLabel: 'Напомнить',
+      preview: text,
+      onSubmit: async (date): Promise<void> => {
+        await this._createScheduledItem({
+          kind: 'reminder',
+          message: text,
+          messageId: msg.id,
+          fireAt: date.toISOString(),
+        });
+      },
+    }).open();
+  }
+
+  /**
+   * Сохраняет запланированный элемент на сервере и заводит его таймер.
+   *
+   * @description
+   * Разрешение на системные уведомления запрашивается здесь, пока
+   * выполняется обработчик действия пользователя: иначе браузер его отклонит.
+   *
+   * @param {IScheduledItemDraft} draft - Текст, вид и время срабатывания.
+   * @returns {Promise<void>} Промис, который разрешается после сохранения.
+   * @throws {Error} - Если сервер не сохранил элемент.
+   *
+   * @private
+   */
+  private async _createScheduledItem(
+    draft: IScheduledItemDraft
+  ): Promise<void> {
+    if ('Notification' in window && Notification.permission === 'default') {
+      void Notification.requestPermission();
+    }
+
+    // Ошибку показывает окно планирования, оставаясь открытым
+    const item = await createScheduledItem(draft);
+    this._scheduler.upsert(item);
+    this._handleScheduleChange();
+
+    const date = new Date(item.fireAt).toLocaleString();
+    this._toasts.show({
+      message:
+        item.kind === 'message'
+          ? `Сообщение будет отправлено ${date}`
+          : `Напоминание установлено на ${date}`,
+      type: 'success',
+    });
+  }
+
+  /**
+   * Обрабатывает срабатывание запланированного элемента: отправляет
+   * запланированное сообщение или показывает напоминание, добавляет
+   * служебное сообщение в ленту, показывает системное уведомление
+   * и удаляет элемент на сервере.
+   *
+   * @description
+   * Элемент срабатывает во всех открытых вкладках, но обрабатывает его
+   * только вкладка, первой отметившая его сработавшим; остальные лишь
+   * обновляют список запланированного. Запланированное сообщение
+   * отправляется с ключом идемпотентности, по которому сервер отбросит
+   * повторную отправку.
+   *
+   * @param {IScheduledItem} item - Сработавший элемент.
+   * @returns {Promise<void>} Промис, который разрешается после обработки.
+   *
+   * @private
+   */
+  private async _handleScheduledItemFire(item: IScheduledItem): Promise<void> {
+    this._handleScheduleChange();
+    if (!(await this._claimScheduledItem(item.id))) return;
+
+    const fireAt = new Date(item.fireAt);
+    const lateNote =
+      Date.now() - fireAt.getTime() > SCHEDULE_LATE_THRESHOLD
+        ? ` (было запланировано на ${fireAt.toLocaleString()})`
+        : '';
+
+    if (item.kind === 'message') {
+      this._addLocalMessage(
+        `Отправлено запланированное сообщение${lateNote}`,
+        'system'
+      );
+      const pending = this._createPendingMessage(item.message, []);
+      pending.clientId = `schedule-${item.id}`;
+      void this._deliverPendingMessage(pending);
+    } else {
+      this._addLocalMessage(
+        `Напоминание: ${item.message}${lateNote}`,
+        'system'
+      );
+      this._scrollFeedToBottom();
+    }
+
+    this._showScheduleNotification(item);
+    await this._completeScheduledItem(item.id);
+  }
+
+  /**
+   * Отмечает элемент сработавшим, если его ещё не отметила другая вкладка.
+   * Отметка хранится в IndexedDB, пока сервер не подтвердит удаление
+   * элемента, поэтому после перезагрузки без сети он не срабатывает повторно.
+   *
+   * @param {string} id - Идентификатор элемента.
+   * @returns {Promise<boolean>} `true`, если элемент должна обработать
+   * текущая вкладка.
+   *
+   * @private
+   */
+  private async _claimScheduledItem(id: string): Promise<boolean> {
+    return this._withLock(SCHEDULE_LOCK, async () => {
+      const completed = await this._offlineStore.getCompletedSchedule();
+      if (completed.includes(id)) return false;
+
+      await this._offlineStore.saveCompletedSchedule([...completed, id]);
+      return true;
+    });
+  }
+
+  /**
+   * Удаляет сработавший элемент на сервере и снимает отметку о нём.
+   * Если сервер недоступен, удаление повторится при следующей загрузке
+   * запланированных элементов.
+   *
+   * @param {string} id - Идентификатор элемента.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _completeScheduledItem(id: string): Promise<void> {
+    try {
+      await deleteScheduledItem(id);
+    } catch {
+      return;
+    }
+
+    await this._withLock(SCHEDULE_LOCK, async () => {
+      const completed = await this._offlineStore.getCompletedSchedule();
+      await this._offlineStore.saveCompletedSchedule(
+        completed.filter((item) => item !== id)
+      );
+    });
+  }
+
+  /**
+   * Выполняет действие под блокировкой, общей для всех вкладок
+   * (Web Locks API). Без поддержки API действие выполняется сразу.
+   *
+   * @param {string} name - Имя блокировки.
+   * @param {() => Promise<T>} callback - Действие.
+   * @returns {Promise<T>} Результат действия.
+   *
+   * @private
+   */
+  private async _withLock<T>(
+    name: string,
+    callback: () => Promise<T>
+  ): Promise<T> {
+    if (!('locks' in navigator)) return callback();
+    return navigator.locks.request(name, callback);
+  }
+
+  /**
+   * Показывает системное уведомление о сработавшем элементе, если
+   * пользователь разрешил уведомления. Клик по уведомлению открывает
+   * вкладку и прокручивает ленту к сообщению, о котором напоминание.
+   *
+   * @param {IScheduledItem} item - Сработавший элемент.
+   *
+   * @private
+   */
+  private _showScheduleNotification(item: IScheduledItem): void {
+    if (!('Notification' in window) || Notification.permission !== 'granted') {
+      return;
+    }
+
+    const notification = new Notification(
+      item.kind === 'message'
+        ? 'Keeply: отправлено запланированное сообщение'
+        : 'Keeply: напоминание',
+      { body: item.message, tag: item.id, icon: './assets/images/robot.png' }
+    );
+
+    notification.addEventListener('click', () => {
+      window.focus();
+      if (item.messageId) void this._scrollToMessage(item.messageId);
+      notification.close();
+    });
+  }
+
+  /**
+   * Обработчик клика по кнопке «Запланированное»: открывает боковую панель
+   * со списком запланированных сообщений и напоминаний или закрывает её.
+   *
+   * @private
+   */
+  private _handleScheduleSidebarButtonClick(): void {
+    if (this._sidebar.section === 'schedule') {
+      this._sidebar.close();
+      return;
+    }
+
+    this._sidebar.open(
+      'schedule',
+      'Запланированное',
+      this._createScheduleList()
+    );
+  }
+
+  /**
+   * Создаёт список запланированных элементов для боковой панели с кнопками
+   * переноса и отмены. Клик по напоминанию о сообщении прокручивает ленту
+   * к этому сообщению.
+   *
+   * @returns {HTMLElement | null} Список или `null`, если ничего не запланировано.
+   *
+   * @private
+   */
+  private _createScheduleList(): HTMLElement | null {
+    const items = this._scheduler.items;
+    if (items.length === 0) return null;
+
+    const list = createElement({ tag: 'ul', className: 'sidebar__list' });
+
+    for (const item of items) {
+      const { label, icon } = SCHEDULED_KIND_LABELS[item.kind];
+
+      const entry = createElement({
+        tag: 'li',
+        className: ['sidebar__item', 'sidebar__item--scheduled'],
+        children: [
+          {
+            tag: 'button',
+            className: 'sidebar__item-btn',
+            attrs: { type: 'button', 'data-action': 'show' },
+            children: [
+              {
+                tag: 'p',
+                className: 'sidebar__item-text',
+                text: item.message,
+              },
+              {
+                tag: 'p',
+                className: 'sidebar__item-date',
+                children: [
+                  {
+                    tag: 'span',
+                    className: [
+                      'sidebar__item-kind',
+                      'material-symbols-outlined',
+                    ],
+                    text: icon,
+                    attrs: { 'aria-hidden': 'true' },
+                  },
+                  `${label} · `,
+                  {
+                    tag: 'time',
+                    text: new Date(item.fireAt).toLocaleString(),
+                    attrs: { datetime: item.fireAt },
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            className: 'sidebar__item-actions',
+            children: [
+              {
+                tag: 'button',
+                className: [
+                  'sidebar__item-action',
+                  'material-symbols-outlined',
+                ],
+                text: 'edit_calendar',
+                attrs: {
+                  type: 'button',
+                  'data-action': 'reschedule',
+                  title: 'Перенести',
+                  'aria-label': 'Перенести',
+                },
+              },
+              {
+                tag: 'button',
+                className: [
+                  'sidebar__item-action',
+                  'material-symbols-outlined',
+                ],
+                text: 'close',
+                attrs: {
+                  type: 'button',
+                  'data-action': 'cancel',
+                  title: 'Отменить',
+                  'aria-label': 'Отменить',
+                },
+              },
+            ],
+          },
+        ],
+        parent: list,
+      });
+
+      entry.addEventListener('click', (event) => {
+        if (!(event.target instanceof Element)) return;
+        const action =
+          event.target.closest<HTMLElement>('[data-action]')?.dataset.action;
+
+        if (action === 'show' && item.messageId) {
+          void this._scrollToMessage(item.messageId);
+        } else if (action === 'reschedule') {
+          this._openRescheduleDialog(item);
+        } else if (action === 'cancel') {
+          void this._cancelScheduledItem(item);
+        }
+      });
+    }
+
+    return list;
+  }
+
+  /**
+   * Открывает окно переноса запланированного элемента на другое время.
+   *
+   * @param {IScheduledItem} item - Запланированный элемент.
+   *
+   * @private
+   */
+  private _openRescheduleDialog(item: IScheduledItem): void {
+    new ScheduleDialog({
+      title: 'Перенести',
+      submitLabel: 'Перенести',
+      preview: item.message,
+      initialDate: new Date(item.fireAt),
+      onSubmit: async (date): Promise<void> => {
+        const updated = await rescheduleItem(item.id, date.toISOString());
+        this._scheduler.upsert(updated);
+        this._handleScheduleChange();
+      },
+    }).open();
+  }
+
+  /**
+   * Отменяет запланированный элемент на сервере и снимает его таймер.
+   *
+   * @param {IScheduledItem} item - Запланированный элемент.
+   * @returns {Promise<void>} Промис, который разрешается после ответа сервера.
+   *
+   * @private
+   */
+  private async _cancelScheduledItem(item: IScheduledItem): Promise<void> {
+    try {
+      await deleteScheduledItem(item.id);
+    } catch {
+      this._toasts.show({
+        message: 'Не удалось отменить. Попробуйте позже.',
+        type: 'error',
+      });
+      return;
+    }
+
+    this._scheduler.remove(item.id);
+    this._handleScheduleChange();
+  }
+
+  /**
+   * Подключается к каналу обновлений сообщений в реальном времени.
+   *
+   * @private
+   *
+   * @see {@link connectRealtime} - Подключение к каналу обновлений
+   */
+  private _connectRealtime(): void {
+    this._realtime = connectRealtime({
+      onEvent: this._applyRealtimeEvent.bind(this),
+      onStatusChange: (status): void => {
+        this._renderConnectionStatus(status);
+
+        // Канал обновлений подключился — сервер снова доступен
+        if (status === 'online' || status === 'polling') {
+          this._setOffline(false);
+        }
+      },
+      onResync: (): void => {
+        void this._resyncMessages();
+      },
+    });
+  }
+
+  /**
+   * Сверяет ленту с сервером после разрыва канала обновлений: загружает
+   * самую свежую страницу и добавляет пропущенные или изменённые сообщения,
+   * не сбрасывая подгруженную историю. Если страница не пересекается
+   * с лентой (за время разрыва пришло больше страницы сообщений),
+   * лента загружается заново.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после сверки.
+   *
+   * @private
+   */
+  private async _resyncMessages(): Promise<void> {
+    let page: IMessagesPage;
+    try {
+      page = await fetchMessages();
+    } catch {
+      // Ленту перезагрузит обработчик восстановления связи
+      this._isFeedStale = true;
+      return;
+    }
+
+    const knownIds = new Set(this._messages.map((msg) => msg.id));
+    const hasGap =
+      knownIds.size > 0 && !page.messages.some((msg) => knownIds.has(msg.id));
+
+    if (hasGap && !this._isFeedFiltered()) {
+      await this._loadMessages();
+      return;
+    }
+
+    this._mergeMessages(page.messages);
+  }
+
+  /**
+   * Добавляет в ленту новые и изменённые сообщения; уже отображённые
+   * без изменений не перерисовываются, остальная история не трогается.
+   *
+   * @param {IUserMessageCard[]} messages - Сообщения в порядке возрастания времени.
+   *
+   * @private
+   */
+  private _mergeMessages(messages: IUserMessageCard[]): void {
+    const known = new Map(this._messages.map((msg) => [msg.id, msg]));
+
+    messages.forEach((msg) => {
+      const current = known.get(msg.id);
+      if (!current || JSON.stringify(current) !== JSON.stringify(msg)) {
+        this._upsertMessage(msg);
+      }
+    });
+  }
+
+  /**
+   * Применяет событие канала обновлений к ленте без полной перерисовки:
+   * добавляет новое сообщение, заменяет изменённое или удаляет удалённое.
+   *
+   * @param {RealtimeEvent} event - Событие канала обновлений.
+   *
+   * @private
+   *
+   * @see {@link RealtimeEvent} - Тип события канала обновлений
+   */
+  private _applyRealtimeEvent(event: RealtimeEvent): void {
+    if (event.type === 'deleted') {
+      this._removeMessage(event.id);
+    } else if (event.type === 'updated') {
+      this._updateMessage(event.message);
+    } else {
+      this._upsertMessage(event.message);
+    }
+  }
+
+  /**
+   * Добавляет сообщение в ленту по времени или заменяет уже отображённое
+   * сообщение с тем же id.
+   *
+   * @param {IUserMessageCard} msg - Сообщение.
+   *
+   * @private
+   */
+  private _upsertMessage(msg: IUserMessageCard): void {
+    if (!msg.isLocal) void this._offlineStore.saveMessages([msg]);
+    this._pinnedBar.update(msg);
+
+    const time = new Date(msg.timestamp).getTime();
+    const index = this._messages.findIndex((item) => item.id === msg.id);
+    if (index === -1) {
+      const nextIndex = this._messages.findIndex(
+        (item) => new Date(item.timestamp).getTime() > time
+      );
+      this._messages.splice(
+        nextIndex === -1 ? this._messages.length : nextIndex,
+        0,
+        msg
+      );
+    } else {
+      this._messages[index] = msg;
+    }
+
+    const current = this._getMessageElement(msg.id);
+
+    // Во время поиска или фильтра по тегу лента показывает только результаты:
+    // обновляем лишь уже отображённое сообщение, новые появятся после сброса.
+    // Новое сообщение с выбранным тегом сразу попадает в отфильтрованную ленту
+    if (this._isFeedFiltered() && !this._tagFilter?.matches(msg)) {
+      current?.replaceWith(this._createMessageElement(msg));
+      return;
+    }
+
+    const messagesList = this._getMessagesList();
+    if (!messagesList) return;
+
+    const isAtBottom = this._isFeedAtBottom();
+    const element = this._createMessageElement(msg);
+    if (current) {
+      current.replaceWith(element);
+    } else {
+      // Новое сообщение встаёт по времени среди отображённых,
+      // но всегда перед отправляемыми
+      const next = [
+        ...messagesList.querySelectorAll<HTMLElement>(
+          ':scope > .chat__message-item'
+        ),
+      ].find(
+        (item) =>
+          item.classList.contains('chat__message-item--pending') ||
+          new Date(item.dataset.timestamp ?? '').getTime() > time
+      );
+      messagesList.insertBefore(element, next ?? null);
+    }
+
+    this._toggleEmptyBlock(false);
+    if (isAtBottom) this._scrollFeedToBottom();
+  }
+
+  /**
+   * Обновляет уже загруженное сообщение в состоянии и в ленте.
+   * Сообщения, которых нет ни в ленте, ни в результатах поиска, игнорируются.
+   *
+   * @param {IUserMessageCard} msg - Обновлённое сообщение.
+   *
+   * @private
+   */
+  private _updateMessage(msg: IUserMessageCard): void {
+    void this._offlineStore.saveMessages([msg]);
+    this._pinnedBar.update(msg);
+
+    const index = this._messages.findIndex((item) => item.id === msg.id);
+    if (index !== -1) this._messages[index] = msg;
+
+    this._getMessageElement(msg.id)?.replaceWith(
+      this._createMessageElement(msg)
+    );
+  }
+
+  /**
+   * Удаляет сообщение из ленты.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   *
+   * @private
+   */
+  private _removeMessage(id: string): void {
+    this._pendingDeletions.delete(id);
+    this._pinnedBar.remove(id);
+    void this._offlineStore.deleteMessage(id);
+    this._messages = this._messages.filter((item) => item.id !== id);
+    this._getMessageElement(id)?.remove();
+
+    const isFeedEmpty =
+      this._messages.length === 0 && this._pendingMessages.size === 0;
+    if (isFeedEmpty && !this._isFeedFiltered()) {
+      this._chatContent?.querySelector('.chat__messages-list')?.remove();
+      this._toggleEmptyBlock(true);
+    }
+  }
+
+  /**
+   * Возвращает DOM-элемент отображённого сообщения.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   * @returns {HTMLElement | null} Элемент `li.chat__message-item` или `null`.
+   *
+   * @private
+   */
+  private _getMessageElement(id: string): HTMLElement | null {
+    return (
+      this._chatContent?.querySelector<HTMLElement>(`#${CSS.escape(id)}`) ??
+      null
+    );
+  }
+
+  /**
+   * Прокручивает ленту к сообщению и ненадолго подсвечивает его.
+   * Если сообщение ещё не загружено, подгружает историю, пока не найдёт его.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   * @returns {Promise<void>} Промис, который разрешается после прокрутки.
+   *
+   * @private
+   */
+  private async _scrollToMessage(id: string): Promise<void> {
+    this._resetFeedFilters();
+
+    let element = this._getMessageElement(id);
+    while (!element && this._nextCursor) {
+      const cursor = this._nextCursor;
+      await this._loadOlderMessages();
+      if (this._nextCursor === cursor) break;
+      element = this._getMessageElement(id);
+    }
+
+    if (!element) return;
+
+    const flashed = element;
+    flashed.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    flashed.classList.add('chat__message-item--flash');
+    setTimeout(() => {
+      flashed.classList.remove('chat__message-item--flash');
+    }, MESSAGE_FLASH_DURATION);
+  }
+
+  /**
+   * Прокручивает ленту к первому сообщению выбранного дня (или ближайшего
+   * следующего, если в этот день сообщений не было). История подгружается,
+   * пока в ленте не появятся сообщения старше выбранного дня.
+   *
+   * @param {Date} date - Начало выбранного дня.
+   * @returns {Promise<void>} Промис, который разрешается после прокрутки.
+   *
+   * @private
+   */
+  private async _scrollToDate(date: Date): Promise<void> {
+    this._resetFeedFilters();
+
+    const start = date.getTime();
+    const getTime = (msg: IUserMessageCard): number =>
+      new Date(msg.timestamp).getTime();
+
+    while (
+      this._nextCursor &&
+      (this._messages.length === 0 || getTime(this._messages[0]) >= start)
+    ) {
+      const cursor = this._nextCursor;
+      await this._loadOlderMessages();
+      if (this._nextCursor === cursor) break;
+    }
+
+    const target = this._messages.find((msg) => getTime(msg) >= start);
+    if (!target) {
+      this._toasts.show({ message: 'С этой даты сообщений нет' });
+      return;
+    }
+
+    await this._scrollToMessage(target.id);
+  }
+
+  /**
+   * Возвращает список сообщений в ленте, создавая его при необходимости.
+   *
+   * @returns {HTMLElement | null} Элемент `ul.chat__messages-list` или `null`,
+   * если в DOM нет контейнера чата.
+   *
+   * @private
+   */
+  private _getMessagesList(): HTMLElement | null {
+    if (!(this._chatContent instanceof HTMLElement)) return null;
+
+    const existing = this._chatContent.querySelector<HTMLElement>(
+      '.chat__messages-list'
+    );
+    if (existing) return existing;
+
+    const list = createElement({
+      tag: 'ul',
+      className: 'chat__messages-list',
+      parent: this._chatContent,
+    });
+    this._feedTimeline.observe(list);
+    return list;
+  }
+
+  /**
+   * Отображает состояние подключения к каналу обновлений в индикаторе.
+   *
+   * @param {RealtimeStatus} status - Состояние подключения.
+   *
+   * @private
+   */
+  private _renderConnectionStatus(status: RealtimeStatus): void {
+    const indicator = this._connectionStatus;
+    if (!indicator) return;
+
+    indicator.className = [
+      'connection-status',
+      `connection-status--${status}`,
+      'has-tooltip',
+    ].join(' ');
+    indicator.setAttribute('data-tooltip', CONNECTION_STATUS_LABELS[status]);
   }
 }
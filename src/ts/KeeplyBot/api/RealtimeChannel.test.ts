@@ -0,0 +1,278 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import {
+  IRealtimeUpdates,
+  IUserMessageCard,
+  RealtimeEvent,
+  RealtimeStatus,
+} from '../shared/interfaces';
+import RealtimeChannel from './RealtimeChannel';
+
+const SOCKET_URL = 'ws://localhost:7070/ws';
+
+let server: MockServer;
+
+/**
+ * Соединение с локальным сервером-заглушкой вместо настоящего WebSocket.
+ */
+class MockSocket {
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public isClosed = false;
+
+  constructor(public readonly url: string) {
+    server.sockets.push(this);
+  }
+
+  public close(): void {
+    this.isClosed = true;
+  }
+}
+
+/**
+ * Локальный сервер-заглушка: принимает и разрывает WebSocket-соединения,
+ * отправляет события и отвечает на запросы long-polling.
+ */
+class MockServer {
+  public sockets: MockSocket[] = [];
+  public updates: Array<IRealtimeUpdates | Error> = [];
+  public fetchUpdates = jest.fn<
+    (cursor: string | null) => Promise<IRealtimeUpdates>
+  >(async () => {
+    const response = this.updates.shift();
+    if (response instanceof Error) throw response;
+    // Нет событий — запрос удерживается, как на настоящем сервере
+    return response ?? new Promise(() => undefined);
+  });
+
+  get socket(): MockSocket {
+    const socket = this.sockets.at(-1);
+    if (!socket) throw new Error('No socket opened');
+    return socket;
+  }
+
+  public accept(): void {
+    this.socket.onopen?.();
+  }
+
+  public drop(): void {
+    this.socket.onclose?.();
+  }
+
+  public send(data: unknown): void {
+    this.socket.onmessage?.(
+      new MessageEvent('message', { data: JSON.stringify(data) })
+    );
+  }
+}
+
+const message: IUserMessageCard = {
+  id: '1',
+  message: 'Привет',
+  files: [],
+  timestamp: '2024-05-01T10:00:00.000Z',
+};
+
+/**
+ * Создаёт канал, подключённый к серверу-заглушке.
+ *
+ * @returns Канал и обработчики событий.
+ */
+const createChannel = (): {
+  channel: RealtimeChannel;
+  onEvent: jest.Mock<(event: RealtimeEvent) => void>;
+  onResync: jest.Mock<() => void>;
+  statuses: RealtimeStatus[];
+} => {
+  const onEvent = jest.fn<(event: RealtimeEvent) => void>();
+  const onResync = jest.fn<() => void>();
+  const statuses: RealtimeStatus[] = [];
+
+  const channel = new RealtimeChannel({
+    socketUrl: SOCKET_URL,
+    fetchUpdates: server.fetchUpdates,
+    onEvent,
+    onResync,
+    onStatusChange: (status): void => {
+      statuses.push(status);
+    },
+  });
+
+  return { channel, onEvent, onResync, statuses };
+};
+
+describe('RealtimeChannel', () => {
+  const { WebSocket: originalWebSocket } = globalThis;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new MockServer();
+    globalThis.WebSocket = MockSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    globalThis.WebSocket = originalWebSocket;
+  });
+
+  it('передаёт события, полученные по WebSocket', () => {
+    const { channel, onEvent, statuses } = createChannel();
+    channel.connect();
+    server.accept();
+
+    server.send({ type: 'created', message });
+    server.send({ type: 'updated', message: { ...message, message: 'Пока' } });
+    server.send({ type: 'deleted', id: '1' });
+    server.send({ type: 'unknown' });
+    server.socket.onmessage?.(new MessageEvent('message', { data: '{' }));
+
+    expect(server.socket.url).toBe(SOCKET_URL);
+    expect(statuses).toEqual(['connecting', 'online']);
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+      'created',
+      'updated',
+      'deleted',
+    ]);
+  });
+
+  it('переподключается с задержкой и запрашивает сверку ленты', async () => {
+    const { channel, onResync, statuses } = createChannel();
+    channel.connect();
+    server.accept();
+    expect(onResync).not.toHaveBeenCalled();
+
+    server.drop();
+    expect(channel.status).toBe('offline');
+
+    await jest.advanceTimersByTimeAsync(1200);
+    expect(server.sockets).toHaveLength(2);
+    server.accept();
+
+    expect(statuses).toEqual([
+      'connecting',
+      'online',
+      'offline',
+      'connecting',
+      'online',
+    ]);
+    expect(onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it('увеличивает задержку после каждой неудачной попытки', async () => {
+    const { channel } = createChannel();
+    channel.connect();
+    server.accept();
+
+    server.drop();
+    await jest.advanceTimersByTimeAsync(1200);
+    server.drop();
+
+    // Вторая попытка — не раньше чем через 2 секунды
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(server.sockets).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(401);
+    expect(server.sockets).toHaveLength(3);
+  });
+
+  it('переключается на long-polling, если WebSocket недоступен', async () => {
+    const { channel, onEvent, onResync } = createChannel();
+    server.updates.push(
+      { events: [{ type: 'created', message }], cursor: 'a' },
+      { events: [{ type: 'deleted', id: '1' }], cursor: 'b' }
+    );
+
+    channel.connect();
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      server.drop();
+      await jest.advanceTimersByTimeAsync(5000);
+    }
+
+    expect(channel.status).toBe('polling');
+    expect(server.fetchUpdates.mock.calls.map(([cursor]) => cursor)).toEqual([
+      null,
+      'a',
+      'b',
+    ]);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(onResync).not.toHaveBeenCalled();
+  });
+
+  it('возвращается на WebSocket и запрашивает сверку ленты', async () => {
+    const { channel, onResync } = createChannel();
+    server.updates.push({ events: [], cursor: 'a' });
+
+    channel.connect();
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      server.drop();
+      await jest.advanceTimersByTimeAsync(5000);
+    }
+    expect(channel.status).toBe('polling');
+
+    await jest.advanceTimersByTimeAsync(60000);
+    server.accept();
+
+    expect(channel.status).toBe('online');
+    expect(onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it('повторяет запрос long-polling после ошибки сети', async () => {
+    Reflect.deleteProperty(globalThis, 'WebSocket');
+    const { channel, onResync } = createChannel();
+    server.updates.push(
+      { events: [], cursor: 'a' },
+      new Error('Network error'),
+      { events: [], cursor: 'b' }
+    );
+
+    channel.connect();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(channel.status).toBe('offline');
+
+    await jest.advanceTimersByTimeAsync(1200);
+    expect(channel.status).toBe('polling');
+    expect(server.fetchUpdates).toHaveBeenCalledTimes(4);
+    expect(onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it('прерывает ожидание повтора при отключении', async () => {
+    Reflect.deleteProperty(globalThis, 'WebSocket');
+    const poll = jest.spyOn(
+      RealtimeChannel.prototype as unknown as { _poll: () => Promise<void> },
+      '_poll'
+    );
+    const { channel } = createChannel();
+    server.updates.push(new Error('Network error'));
+
+    channel.connect();
+    await jest.advanceTimersByTimeAsync(0);
+    channel.disconnect();
+    await expect(poll.mock.results[0].value).resolves.toBeUndefined();
+
+    channel.connect();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    // Прежний цикл long-polling завершился и не запрашивает обновления
+    expect(server.fetchUpdates).toHaveBeenCalledTimes(2);
+  });
+
+  it('закрывает соединение и не переподключается после отключения', async () => {
+    const { channel, statuses } = createChannel();
+    channel.connect();
+    server.accept();
+
+    channel.disconnect();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(server.socket.isClosed).toBe(true);
+    expect(server.sockets).toHaveLength(1);
+    expect(statuses.at(-1)).toBe('offline');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
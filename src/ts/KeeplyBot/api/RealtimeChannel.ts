@@ -0,0 +1,362 @@
+import {
+  IRealtimeChannelOptions,
+  RealtimeEvent,
+  RealtimeStatus,
+} from '../shared/interfaces';
+
+/**
+ * Базовая задержка перед переподключением (мс)
+ */
+const RECONNECT_BASE_DELAY = 1000;
+
+/**
+ * Максимальная задержка перед переподключением (мс)
+ */
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Количество неудачных попыток открыть WebSocket, после которого
+ * канал переключается на long-polling
+ */
+const MAX_SOCKET_FAILURES = 3;
+
+/**
+ * Интервал, с которым в режиме long-polling повторяется попытка
+ * вернуться на WebSocket (мс)
+ */
+const SOCKET_UPGRADE_INTERVAL = 60000;
+
+/**
+ * Канал обновлений сообщений в реальном времени.
+ *
+ * Получает события о новых, изменённых и удалённых сообщениях через WebSocket.
+ * Если WebSocket недоступен (нет поддержки в браузере или сервер не принимает
+ * соединение несколько раз подряд), переключается на long-polling и
+ * периодически пытается вернуться на WebSocket.
+ *
+ * Переподключение выполняется с экспоненциальной задержкой. События,
+ * пришедшие во время разрыва, канал не доставляет: после восстановления
+ * соединения вызывается `onResync`, чтобы ленту сверили с сервером.
+ */
+export default class RealtimeChannel {
+  private readonly _options: IRealtimeChannelOptions;
+  private _socket: WebSocket | null = null;
+  private _status: RealtimeStatus = 'offline';
+  private _isStopped = true;
+  private _isPolling = false;
+  private _hasBeenLive = false;
+  private _socketFailures = 0;
+  private _reconnectAttempt = 0;
+  private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private _upgradeTimer: ReturnType<typeof setTimeout> | null = null;
+  private _pollController: AbortController | null = null;
+  private _pollCursor: string | null = null;
+  private _resolveWait: (() => void) | null = null;
+
+  /**
+   * Конструктор канала обновлений.
+   *
+   * @param {IRealtimeChannelOptions} options - Настройки канала.
+   *
+   * @see {@link IRealtimeChannelOptions} - Интерфейс настроек канала
+   */
+  constructor(options: IRealtimeChannelOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Текущее состояние подключения.
+   */
+  get status(): RealtimeStatus {
+    return this._status;
+  }
+
+  /**
+   * Открывает канал. Повторный вызов на открытом канале ничего не делает.
+   *
+   * @public
+   */
+  public connect(): void {
+    if (!this._isStopped) return;
+    this._isStopped = false;
+
+    if (typeof WebSocket === 'undefined') {
+      this._startPolling();
+    } else {
+      this._openSocket();
+    }
+  }
+
+  /**
+   * Закрывает канал, отменяет запросы и таймеры переподключения.
+   *
+   * @public
+   */
+  public disconnect(): void {
+    this._isStopped = true;
+    this._clearTimers();
+    this._stopPolling();
+
+    if (this._socket) {
+      this._socket.onclose = null;
+      this._socket.close();
+      this._socket = null;
+    }
+
+    this._setStatus('offline');
+  }
+
+  /**
+   * Открывает WebSocket-соединение и навешивает обработчики.
+   *
+   * @private
+   */
+  private _openSocket(): void {
+    if (this._isStopped || this._socket) return;
+    if (!this._isPolling) this._setStatus('connecting');
+
+    let isOpened = false;
+    const socket = new WebSocket(this._options.socketUrl);
+    this._socket = socket;
+
+    socket.onopen = (): void => {
+      isOpened = true;
+      this._socketFailures = 0;
+      this._reconnectAttempt = 0;
+      this._stopPolling();
+      this._setStatus('online');
+    };
+
+    socket.onmessage = (event: MessageEvent): void => {
+      this._handleSocketMessage(event);
+    };
+
+    socket.onclose = (): void => {
+      this._socket = null;
+      if (this._isStopped) return;
+
+      // Неудачная попытка вернуться на WebSocket из режима long-polling
+      if (this._isPolling) {
+        this._scheduleSocketUpgrade();
+        return;
+      }
+
+      if (!isOpened) this._socketFailures += 1;
+
+      if (this._socketFailures >= MAX_SOCKET_FAILURES) {
+        this._startPolling();
+      } else {
+        this._scheduleReconnect();
+      }
+    };
+  }
+
+  /**
+   * Разбирает сообщение, пришедшее по WebSocket, и передаёт событие обработчику.
+   * Сообщения в неизвестном формате игнорируются.
+   *
+   * @param {MessageEvent} event - Событие WebSocket с данными в формате JSON.
+   *
+   * @private
+   */
+  private _handleSocketMessage(event: MessageEvent): void {
+    try {
+      const data = JSON.parse(String(event.data)) as RealtimeEvent;
+      if (this._isRealtimeEvent(data)) this._options.onEvent(data);
+    } catch {
+      // Некорректный JSON — пропускаем сообщение
+    }
+  }
+
+  /**
+   * Проверяет, что объект является событием канала обновлений.
+   *
+   * @param {unknown} data - Проверяемый объект.
+   * @returns {boolean} `true`, если объект — событие канала.
+   *
+   * @private
+   */
+  private _isRealtimeEvent(data: unknown): data is RealtimeEvent {
+    if (!data || typeof data !== 'object') return false;
+
+    const event = data as Record<string, unknown>;
+    if (event.type === 'deleted') return typeof event.id === 'string';
+
+    return (
+      (event.type === 'created' || event.type === 'updated') &&
+      typeof event.message === 'object' &&
+      event.message !== null
+    );
+  }
+
+  /**
+   * Планирует переподключение WebSocket с экспоненциальной задержкой.
+   *
+   * @private
+   */
+  private _scheduleReconnect(): void {
+    this._setStatus('offline');
+    const delay = this._getBackoffDelay(this._reconnectAttempt);
+    this._reconnectAttempt += 1;
+
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null;
+      this._openSocket();
+    }, delay);
+  }
+
+  /**
+   * Планирует попытку вернуться с long-polling на WebSocket.
+   *
+   * @private
+   */
+  private _scheduleSocketUpgrade(): void {
+    if (typeof WebSocket === 'undefined') return;
+
+    this._upgradeTimer = setTimeout(() => {
+      this._upgradeTimer = null;
+      this._openSocket();
+    }, SOCKET_UPGRADE_INTERVAL);
+  }
+
+  /**
+   * Переключает канал в режим long-polling.
+   *
+   * @private
+   */
+  private _startPolling(): void {
+    if (this._isPolling || this._isStopped) return;
+
+    this._isPolling = true;
+    this._reconnectAttempt = 0;
+    this._setStatus('connecting');
+    this._scheduleSocketUpgrade();
+    void this._poll();
+  }
+
+  /**
+   * Останавливает long-polling и отменяет текущий запрос.
+   *
+   * @private
+   */
+  private _stopPolling(): void {
+    this._isPolling = false;
+    this._pollController?.abort();
+    this._pollController = null;
+
+    if (this._upgradeTimer) {
+      clearTimeout(this._upgradeTimer);
+      this._upgradeTimer = null;
+    }
+  }
+
+  /**
+   * Цикл long-polling: запрашивает обновления, пока канал открыт и находится
+   * в режиме long-polling. При ошибке повторяет запрос с экспоненциальной задержкой.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после выхода из цикла.
+   *
+   * @private
+   */
+  private async _poll(): Promise<void> {
+    while (this._isPolling && !this._isStopped) {
+      const controller = new AbortController();
+      this._pollController = controller;
+
+      try {
+        const updates = await this._options.fetchUpdates(
+          this._pollCursor,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        this._pollCursor = updates.cursor;
+        this._reconnectAttempt = 0;
+        this._setStatus('polling');
+        updates.events.forEach((event) => this._options.onEvent(event));
+      } catch {
+        if (controller.signal.aborted) return;
+
+        this._setStatus('offline');
+        await this._wait(this._getBackoffDelay(this._reconnectAttempt));
+        // Канал закрыли во время ожидания
+        if (controller.signal.aborted) return;
+        this._reconnectAttempt += 1;
+      }
+    }
+  }
+
+  /**
+   * Вычисляет задержку перед очередной попыткой подключения.
+   * К экспоненциальной задержке добавляется случайный разброс до 20%,
+   * чтобы вкладки не переподключались одновременно.
+   *
+   * @param {number} attempt - Номер попытки, начиная с 0.
+   * @returns {number} Задержка в миллисекундах.
+   *
+   * @private
+   */
+  private _getBackoffDelay(attempt: number): number {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** attempt,
+      RECONNECT_MAX_DELAY
+    );
+    return delay + Math.random() * delay * 0.2;
+  }
+
+  /**
+   * Возвращает промис, который разрешается через указанное время
+   * или досрочно — при закрытии канала.
+   *
+   * @param {number} ms - Время ожидания в миллисекундах.
+   * @returns {Promise<void>}
+   *
+   * @private
+   */
+  private async _wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this._resolveWait = resolve;
+      this._reconnectTimer = setTimeout(() => {
+        this._reconnectTimer = null;
+        this._resolveWait = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  /**
+   * Сбрасывает таймеры переподключения и завершает текущее ожидание.
+   *
+   * @private
+   */
+  private _clearTimers(): void {
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+
+    const resolveWait = this._resolveWait;
+    this._resolveWait = null;
+    resolveWait?.();
+  }
+
+  /**
+   * Обновляет состояние подключения и уведомляет обработчик при изменении.
+   *
+   * @param {RealtimeStatus} status - Новое состояние.
+   *
+   * @private
+   */
+  private _setStatus(status: RealtimeStatus): void {
+    if (this._status === status) return;
+    this._status = status;
+    this._options.onStatusChange?.(status);
+
+    if (status !== 'online' && status !== 'polling') return;
+
+    // Соединение восстановлено или сменился транспорт: события,
+    // пришедшие в промежутке, могли потеряться
+    if (this._hasBeenLive) this._options.onResync?.();
+    this._hasBeenLive = true;
+  }
+}
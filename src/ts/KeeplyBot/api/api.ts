@@ -1,4 +1,18 @@
-import { IBotCapabilities, IUserMessageCard } from '../shared/interfaces';
+import {
+  IBotCapabilities,
+  ILinkPreview,
+  IMessageAttachment,
+  IMessagesPage,
+  IRealtimeHandlers,
+  IRealtimeUpdates,
+  IScheduledItem,
+  IScheduledItemDraft,
+  ISendMessageOptions,
+  ITagCount,
+  IUploadProgress,
+  IUserMessageCard,
+} from '../shared/interfaces';
+import RealtimeChannel from './RealtimeChannel';
 
 /**
  * URL-адрес сервера
@@ -6,6 +20,11 @@ import { IBotCapabilities, IUserMessageCard } from '../shared/interfaces';
 export const SERVER_URL = process.env.SERVER_URL || 'http://localhost:7070';
 const URL = SERVER_URL;
 
+/**
+ * URL-адрес WebSocket-канала обновлений (схема http(s) заменяется на ws(s))
+ */
+export const SERVER_WS_URL = `${SERVER_URL.replace(/^http/, 'ws')}/ws`;
+
 /**
  * Получение Capabilities бота от сервера
  *
@@ -26,58 +45,545 @@ export const fetchCapabilities = async (): Promise<IBotCapabilities> => {
 };
 
 /**
- * Получение всех сообщений с сервера
+ * Количество сообщений, загружаемых за один запрос
+ */
+export const MESSAGES_PAGE_SIZE = 30;
+
+/**
+ * Получение страницы сообщений с сервера.
+ *
+ * Сообщения загружаются от новых к старым: первая страница (без курсора)
+ * содержит самые свежие сообщения, а `nextCursor` указывает на более старые.
+ * Внутри страницы сообщения отсортированы по возрастанию времени.
+ *
+ * @param {string | null} [cursor] - Курсор страницы; `null` — самая свежая страница
+ * @param {number} [limit] - Количество сообщений на странице
+ * @returns {Promise<IMessagesPage>} - Страница сообщений и курсор следующей (более старой) страницы
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку. Ошибка
+ * не подменяется пустой страницей, чтобы отсутствие сети не стирало
+ * сообщения, показанные из локального кэша.
+ *
+ * @see {@link IMessagesPage} - Интерфейс страницы сообщений
+ */
+export const fetchMessages = async (
+  cursor: string | null = null,
+  limit: number = MESSAGES_PAGE_SIZE
+): Promise<IMessagesPage> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`${URL}/api/messages?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch messages');
+
+  const data = (await response.json()) as IMessagesPage | IUserMessageCard[];
+
+  // Сервер без поддержки пагинации возвращает всю историю массивом
+  if (Array.isArray(data)) return { messages: data, nextCursor: null };
+  return data;
+};
+
+/**
+ * Полнотекстовый поиск сообщений на сервере
  *
- * @returns {Promise<IUserMessageCard[]>} - Массив сообщений в формате IUserMessageCard
+ * @param {string} query - Поисковый запрос
+ * @param {AbortSignal} [signal] - Сигнал для отмены запроса
+ * @returns {Promise<IUserMessageCard[]>} - Найденные сообщения в порядке возрастания времени
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
  *
  * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
  */
-export const fetchMessages = async (): Promise<IUserMessageCard[]> => {
-  let messages: IUserMessageCard[] = [];
+export const searchMessages = async (
+  query: string,
+  signal?: AbortSignal
+): Promise<IUserMessageCard[]> => {
+  const params = new URLSearchParams({ q: query });
+  const response = await fetch(`${URL}/api/messages/search?${params}`, {
+    signal,
+  });
+  if (!response.ok) throw new Error('Failed to search messages');
+  return response.json();
+};
 
-  try {
-    const response = await fetch(`${URL}/api/messages`);
-    if (!response.ok) messages = [];
-    messages = await response.json();
-  } catch {
-    messages = [];
-  }
+/**
+ * Получение всех тегов с количеством сообщений
+ *
+ * @returns {Promise<ITagCount[]>} - Теги без `#` в нижнем регистре
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link ITagCount} - Интерфейс тега с количеством сообщений
+ */
+export const fetchTags = async (): Promise<ITagCount[]> => {
+  const response = await fetch(`${URL}/api/tags`);
+  if (!response.ok) throw new Error('Failed to fetch tags');
+  return response.json();
+};
+
+/**
+ * Получение сообщений с тегом
+ *
+ * @param {string} tag - Тег без `#` в нижнем регистре
+ * @param {AbortSignal} [signal] - Сигнал для отмены запроса
+ * @returns {Promise<IUserMessageCard[]>} - Сообщения с тегом в порядке возрастания времени
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const fetchMessagesByTag = async (
+  tag: string,
+  signal?: AbortSignal
+): Promise<IUserMessageCard[]> => {
+  const response = await fetch(
+    `${URL}/api/tags/${encodeURIComponent(tag)}/messages`,
+    { signal }
+  );
+  if (!response.ok) throw new Error('Failed to fetch messages by tag');
+  return response.json();
+};
+
+/**
+ * Получение закреплённых сообщений с сервера
+ *
+ * @returns {Promise<IUserMessageCard[]>} - Закреплённые сообщения в порядке возрастания времени
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const fetchPinnedMessages = async (): Promise<IUserMessageCard[]> => {
+  const response = await fetch(`${URL}/api/messages/pinned`);
+  if (!response.ok) throw new Error('Failed to fetch pinned messages');
+  return response.json();
+};
+
+/**
+ * Закрепление сообщения или снятие закрепления
+ *
+ * @param {string} id - Идентификатор сообщения
+ * @param {boolean} isPinned - `true` — закрепить, `false` — открепить
+ * @returns {Promise<IUserMessageCard>} - Обновлённая карточка сообщения
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const setMessagePinned = async (
+  id: string,
+  isPinned: boolean
+): Promise<IUserMessageCard> => {
+  const response = await fetch(
+    `${URL}/api/messages/${encodeURIComponent(id)}/pin`,
+    { method: isPinned ? 'POST' : 'DELETE' }
+  );
+  if (!response.ok) throw new Error('Failed to update pin');
+  return response.json();
+};
+
+/**
+ * Изменение текста сообщения
+ *
+ * @param {string} id - Идентификатор сообщения
+ * @param {string} message - Новый текст сообщения
+ * @returns {Promise<IUserMessageCard>} - Обновлённая карточка сообщения с отметкой `editedAt`
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const updateMessage = async (
+  id: string,
+  message: string
+): Promise<IUserMessageCard> => {
+  const response = await fetch(
+    `${URL}/api/messages/${encodeURIComponent(id)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message }),
+    }
+  );
+  if (!response.ok) throw new Error('Failed to update message');
+  return response.json();
+};
+
+/**
+ * Удаление сообщения
+ *
+ * Запрос не прерывается при закрытии страницы (`keepalive`), чтобы удаление,
+ * отложенное на время показа кнопки «Отменить», всё равно дошло до сервера.
+ *
+ * @param {string} id - Идентификатор сообщения
+ * @returns {Promise<void>}
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ */
+export const deleteMessage = async (id: string): Promise<void> => {
+  const response = await fetch(
+    `${URL}/api/messages/${encodeURIComponent(id)}`,
+    { method: 'DELETE', keepalive: true }
+  );
+  if (!response.ok) throw new Error('Failed to delete message');
+};
+
+/**
+ * Получение избранных сообщений с сервера
+ *
+ * @returns {Promise<IUserMessageCard[]>} - Избранные сообщения в порядке возрастания времени
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const fetchFavorites = async (): Promise<IUserMessageCard[]> => {
+  const response = await fetch(`${URL}/api/favorites`);
+  if (!response.ok) throw new Error('Failed to fetch favorites');
+  return response.json();
+};
+
+/**
+ * Добавление сообщения в избранное или удаление из него
+ *
+ * @param {string} id - Идентификатор сообщения
+ * @param {boolean} isFavorite - `true` — добавить в избранное, `false` — убрать
+ * @returns {Promise<IUserMessageCard>} - Обновлённая карточка сообщения
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const setMessageFavorite = async (
+  id: string,
+  isFavorite: boolean
+): Promise<IUserMessageCard> => {
+  const response = await fetch(
+    `${URL}/api/messages/${encodeURIComponent(id)}/favorite`,
+    { method: isFavorite ? 'POST' : 'DELETE' }
+  );
+  if (!response.ok) throw new Error('Failed to update favorite');
+  return response.json();
+};
 
-  return messages;
+/**
+ * Получение всех вложений из всех сообщений
+ *
+ * @returns {Promise<IMessageAttachment[]>} - Вложения в порядке возрастания времени
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IMessageAttachment} - Интерфейс вложения
+ */
+export const fetchAttachments = async (): Promise<IMessageAttachment[]> => {
+  const response = await fetch(`${URL}/api/attachments`);
+  if (!response.ok) throw new Error('Failed to fetch attachments');
+  return response.json();
+};
+
+/**
+ * Получение содержимого текстового вложения для предпросмотра
+ *
+ * @param {string} fileUrl - Полный адрес файла на сервере
+ * @param {AbortSignal} [signal] - Сигнал для отмены запроса
+ * @returns {Promise<string>} - Текст файла
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ */
+export const fetchFileText = async (
+  fileUrl: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await fetch(fileUrl, { signal });
+  if (!response.ok) throw new Error('Failed to fetch file');
+  return response.text();
+};
+
+/**
+ * Получение превью страницы по ссылке: сервер загружает страницу
+ * и читает её данные OpenGraph (заголовок, описание, сайт, изображение)
+ *
+ * @param {string} url - Адрес страницы
+ * @param {AbortSignal} [signal] - Сигнал для отмены запроса
+ * @returns {Promise<ILinkPreview>} - Превью страницы
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link ILinkPreview} - Интерфейс превью страницы
+ */
+export const fetchLinkPreview = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<ILinkPreview> => {
+  const params = new URLSearchParams({ url });
+  const response = await fetch(`${URL}/api/link-preview?${params}`, {
+    signal,
+  });
+  if (!response.ok) throw new Error('Failed to fetch link preview');
+  return response.json();
+};
+
+/**
+ * Вычисляет прогресс загрузки каждого файла по общему количеству
+ * отправленных байт.
+ *
+ * Файлы в теле multipart-запроса идут по порядку, поэтому отправленные байты
+ * последовательно «заполняют» файлы; служебные части запроса (текст
+ * сообщения, заголовки) учитываются только в общем прогрессе.
+ *
+ * @param {File[]} files - Отправляемые файлы
+ * @param {number} loaded - Отправлено байт
+ * @param {number} total - Всего байт в запросе
+ * @returns {IUploadProgress} - Общий прогресс и прогресс каждого файла
+ */
+const getUploadProgress = (
+  files: File[],
+  loaded: number,
+  total: number
+): IUploadProgress => {
+  const filesSize = files.reduce((sum, file) => sum + file.size, 0);
+  let remaining = loaded - Math.max(0, total - filesSize);
+
+  return {
+    loaded,
+    total,
+    files: files.map((file) => {
+      const fileLoaded = Math.min(file.size, Math.max(0, remaining));
+      remaining -= file.size;
+      return { name: file.name, loaded: fileLoaded, total: file.size };
+    }),
+  };
 };
 
 /**
  * Отправка сообщения боту на сервер
  *
+ * Запрос выполняется через XMLHttpRequest, чтобы сообщать о прогрессе
+ * загрузки файлов; отменить отправку можно через `options.signal`.
+ *
  * @param {string} message - Сообщение пользователя
  * @param {File[]} files - Массив файлов для отправки
+ * @param {ISendMessageOptions} [options] - Обработчик прогресса, сигнал отмены,
+ * координаты и идентификатор сообщения на клиенте
  * @returns {Promise<IUserMessageCard[]>} - Промис с массивом карточек сообщений
- * @throws {Error} - Если
- *  - запрос не удался
- *  - сервер вернул ошибку
+ * @throws {TypeError} - Если сервер недоступен (нет сети), — как и `fetch`
+ * @throws {Error} - Если сервер вернул ошибку
+ * @throws {DOMException} - `AbortError`, если отправка отменена
  *
  * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ * @see {@link ISendMessageOptions} - Интерфейс настроек отправки
  */
 export const sendMessage = async (
   message: string,
-  files: File[] = []
+  files: File[] = [],
+  options: ISendMessageOptions = {}
 ): Promise<IUserMessageCard[]> => {
+  const { onProgress, signal, location, clientId } = options;
+
   try {
     const formData = new FormData();
     formData.append('message', message);
 
+    // Координаты передаются JSON-строкой: в FormData только строки и файлы
+    if (location) formData.append('location', JSON.stringify(location));
+    if (clientId) formData.append('clientId', clientId);
+
     files.forEach((file) => {
       formData.append('files', file);
     });
 
-    const response = await fetch(`${URL}/api/messages`, {
-      method: 'POST',
-      body: formData,
+    return await new Promise<IUserMessageCard[]>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Message sending aborted', 'AbortError'));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${URL}/api/messages`);
+      xhr.responseType = 'json';
+
+      xhr.upload.onprogress = (event): void => {
+        if (!event.lengthComputable) return;
+        onProgress?.(getUploadProgress(files, event.loaded, event.total));
+      };
+      xhr.onload = (): void => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr.response as IUserMessageCard[]);
+        } else {
+          reject(new Error('Failed to send message'));
+        }
+      };
+      xhr.onerror = (): void =>
+        reject(new TypeError('Failed to send message: network error'));
+      xhr.onabort = (): void =>
+        reject(new DOMException('Message sending aborted', 'AbortError'));
+
+      signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+      xhr.send(formData);
     });
-    if (!response.ok) throw new Error('Failed to send message');
-    return response.json();
   } catch (error) {
-    console.error('Error sending message:', error);
+    if (!(error instanceof DOMException && error.name === 'AbortError')) {
+      console.error('Error sending message:', error);
+    }
     throw error;
   }
 };
+
+/**
+ * Выполнение команды бота на сервере
+ *
+ * @param {string} name - Имя команды без `/`
+ * @param {Record<string, string>} args - Значения аргументов команды
+ * @returns {Promise<IUserMessageCard[]>} - Сообщения, созданные сервером: команда пользователя и ответ бота
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const executeCommand = async (
+  name: string,
+  args: Record<string, string>
+): Promise<IUserMessageCard[]> => {
+  const response = await fetch(`${URL}/api/commands`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ command: name, args }),
+  });
+  if (!response.ok) throw new Error('Failed to execute command');
+  return response.json();
+};
+
+/**
+ * Отправка боту нажатия кнопки встроенной клавиатуры
+ *
+ * @param {string} id - Идентификатор сообщения бота с клавиатурой
+ * @param {string} data - Данные нажатой кнопки
+ * @returns {Promise<IUserMessageCard[]>} - Сообщения, созданные ботом в ответ (или изменённое сообщение)
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IUserMessageCard} - Интерфейс для карточек сообщений
+ */
+export const sendCallback = async (
+  id: string,
+  data: string
+): Promise<IUserMessageCard[]> => {
+  const response = await fetch(
+    `${URL}/api/messages/${encodeURIComponent(id)}/callback`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data }),
+    }
+  );
+  if (!response.ok) throw new Error('Failed to send callback');
+  return response.json();
+};
+
+/**
+ * Получение запланированных сообщений и напоминаний
+ *
+ * @returns {Promise<IScheduledItem[]>} - Запланированные элементы
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IScheduledItem} - Интерфейс запланированного элемента
+ */
+export const fetchScheduledItems = async (): Promise<IScheduledItem[]> => {
+  const response = await fetch(`${URL}/api/schedule`);
+  if (!response.ok) throw new Error('Failed to fetch scheduled items');
+  return response.json();
+};
+
+/**
+ * Планирование сообщения или напоминания
+ *
+ * @param {IScheduledItemDraft} draft - Текст, вид и время срабатывания
+ * @returns {Promise<IScheduledItem>} - Сохранённый элемент с идентификатором
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IScheduledItem} - Интерфейс запланированного элемента
+ */
+export const createScheduledItem = async (
+  draft: IScheduledItemDraft
+): Promise<IScheduledItem> => {
+  const response = await fetch(`${URL}/api/schedule`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft),
+  });
+  if (!response.ok) throw new Error('Failed to create scheduled item');
+  return response.json();
+};
+
+/**
+ * Перенос запланированного элемента на другое время
+ *
+ * @param {string} id - Идентификатор элемента
+ * @param {string} fireAt - Новое время срабатывания (ISO 8601)
+ * @returns {Promise<IScheduledItem>} - Обновлённый элемент
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IScheduledItem} - Интерфейс запланированного элемента
+ */
+export const rescheduleItem = async (
+  id: string,
+  fireAt: string
+): Promise<IScheduledItem> => {
+  const response = await fetch(
+    `${URL}/api/schedule/${encodeURIComponent(id)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fireAt }),
+    }
+  );
+  if (!response.ok) throw new Error('Failed to reschedule item');
+  return response.json();
+};
+
+/**
+ * Удаление запланированного элемента (отмена или отметка о срабатывании)
+ *
+ * @param {string} id - Идентификатор элемента
+ * @returns {Promise<void>}
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ */
+export const deleteScheduledItem = async (id: string): Promise<void> => {
+  const response = await fetch(
+    `${URL}/api/schedule/${encodeURIComponent(id)}`,
+    { method: 'DELETE', keepalive: true }
+  );
+  if (!response.ok) throw new Error('Failed to delete scheduled item');
+};
+
+/**
+ * Получение обновлений сообщений через long-polling.
+ *
+ * Сервер удерживает запрос, пока не появятся новые события или не истечёт
+ * таймаут, после чего возвращает события и курсор для следующего запроса.
+ *
+ * @param {string | null} cursor - Курсор, полученный в предыдущем ответе
+ * @param {AbortSignal} [signal] - Сигнал для отмены запроса
+ * @returns {Promise<IRealtimeUpdates>} - События и курсор для следующего запроса
+ * @throws {Error} - Если запрос не удался или сервер вернул ошибку
+ *
+ * @see {@link IRealtimeUpdates} - Интерфейс ответа long-polling
+ */
+export const fetchMessageUpdates = async (
+  cursor: string | null,
+  signal?: AbortSignal
+): Promise<IRealtimeUpdates> => {
+  const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+  const response = await fetch(`${URL}/api/messages/updates${query}`, {
+    signal,
+  });
+  if (!response.ok) throw new Error('Failed to fetch message updates');
+  return response.json();
+};
+
+/**
+ * Подключение к каналу обновлений сообщений в реальном времени.
+ *
+ * Использует WebSocket, а при его недоступности переключается на long-polling.
+ *
+ * @param {IRealtimeHandlers} handlers - Обработчики событий и состояния канала
+ * @returns {RealtimeChannel} - Подключённый канал; для отключения вызовите `disconnect()`
+ *
+ * @see {@link RealtimeChannel} - Канал обновлений в реальном времени
+ */
+export const connectRealtime = (
+  handlers: IRealtimeHandlers
+): RealtimeChannel => {
+  const channel = new RealtimeChannel({
+    socketUrl: SERVER_WS_URL,
+    fetchUpdates: fetchMessageUpdates,
+    ...handlers,
+  });
+  channel.connect();
+  return channel;
+};
@@ -0,0 +1,219 @@
+import { executeCommand } from '../api/api';
+import {
+  CommandResult,
+  IBotCommand,
+  ICommandCapability,
+  ICommandContext,
+  IParsedCommand,
+} from '../shared/interfaces';
+
+/**
+ * Команда, которой передаются запросы вида `@bot вопрос`
+ */
+const MENTION_COMMAND = 'ask';
+
+/**
+ * Формирует строку использования команды по схеме её аргументов,
+ * например `/remind <время> <текст>` или `/export [формат]`.
+ *
+ * @param {IBotCommand} command - Команда.
+ * @returns {string} Строка использования.
+ */
+export const formatCommandUsage = (command: IBotCommand): string =>
+  [
+    `/${command.name}`,
+    ...command.args.map(({ name, isRequired }) =>
+      isRequired ? `<${name}>` : `[${name}]`
+    ),
+  ].join(' ');
+
+/**
+ * Реестр команд бота.
+ *
+ * @description
+ * - Распознаёт в тексте сообщения команду (`/имя аргументы`) или обращение
+ *   к боту (`@bot вопрос`).
+ * - Разбирает аргументы по схеме команды и проверяет обязательные.
+ * - Выполняет команду локально (если у неё есть обработчик) или на сервере.
+ * - Набор доступных команд может задать сервер через capabilities.
+ */
+export default class CommandRegistry {
+  private readonly _commands = new Map<string, IBotCommand>();
+  private readonly _builtins: Map<string, IBotCommand>;
+
+  /**
+   * Конструктор реестра команд.
+   *
+   * @param {IBotCommand[]} [commands] - Встроенные команды, доступные сразу.
+   */
+  constructor(commands: IBotCommand[] = []) {
+    commands.forEach((command) => this.register(command));
+    this._builtins = new Map(this._commands);
+  }
+
+  /**
+   * Заменяет набор доступных команд списком из capabilities.
+   *
+   * @description
+   * Команда из списка, совпадающая по имени со встроенной, сохраняет её
+   * обработчик и схему аргументов (если сервер не прислал свою).
+   * Остальные команды выполняются на сервере. Встроенные команды,
+   * которых нет в списке, становятся недоступны.
+   *
+   * @param {ICommandCapability[]} commands - Команды из capabilities.
+   *
+   * @public
+   */
+  public setAvailable(commands: ICommandCapability[]): void {
+    this._commands.clear();
+
+    for (const { name, description, args } of commands) {
+      const builtin = this._builtins.get(name.toLowerCase());
+      this.register({
+        ...builtin,
+        name,
+        description: description || builtin?.description || '',
+        args: args ?? builtin?.args ?? [],
+      });
+    }
+  }
+
+  /**
+   * Регистрирует команду; команда с тем же именем заменяется.
+   *
+   * @param {IBotCommand} command - Команда.
+   *
+   * @public
+   */
+  public register(command: IBotCommand): void {
+    this._commands.set(command.name.toLowerCase(), command);
+  }
+
+  /**
+   * Возвращает зарегистрированную команду по имени.
+   *
+   * @param {string} name - Имя команды без `/`.
+   * @returns {IBotCommand | undefined} Команда или `undefined`.
+   *
+   * @public
+   */
+  public get(name: string): IBotCommand | undefined {
+    return this._commands.get(name.toLowerCase());
+  }
+
+  /**
+   * Возвращает все зарегистрированные команды в порядке регистрации.
+   *
+   * @returns {IBotCommand[]} Команды.
+   *
+   * @public
+   */
+  public list(): IBotCommand[] {
+    return [...this._commands.values()];
+  }
+
+  /**
+   * Распознаёт команду в тексте сообщения.
+   *
+   * @param {string} text - Текст сообщения.
+   * @returns {IParsedCommand | null} Имя и аргументы команды или `null`,
+   * если текст не является командой.
+   *
+   * @public
+   */
+  public parse(text: string): IParsedCommand | null {
+    const trimmed = text.trim();
+
+    const mention = /^@bot\s+([\s\S]+)$/i.exec(trimmed);
+    if (mention) return { name: MENTION_COMMAND, input: mention[1].trim() };
+
+    const command = /^\/([\p{L}\d_-]+)(?:\s+([\s\S]*))?$/u.exec(trimmed);
+    if (!command) return null;
+
+    return { name: command[1].toLowerCase(), input: (command[2] ?? '').trim() };
+  }
+
+  /**
+   * Выполняет разобранную команду.
+   *
+   * @description
+   * Неизвестная команда и пропущенные обязательные аргументы не считаются
+   * ошибкой выполнения: бот отвечает подсказкой, как правильно вызвать команду.
+   *
+   * @param {IParsedCommand} parsed - Разобранная команда.
+   * @param {ICommandContext} context - Окружение для локальных команд.
+   * @returns {Promise<CommandResult>} Результат выполнения.
+   * @throws {Error} - Если серверная команда не выполнена.
+   *
+   * @public
+   */
+  public async execute(
+    parsed: IParsedCommand,
+    context: ICommandContext
+  ): Promise<CommandResult> {
+    const command = this.get(parsed.name);
+    if (!command) {
+      return {
+        type: 'local',
+        text: `Неизвестная команда /${parsed.name}. Список команд — /help`,
+      };
+    }
+
+    const args = this._parseArgs(command, parsed.input);
+    const missing = command.args.filter(
+      ({ name, isRequired }) => isRequired && !args[name]
+    );
+    if (missing.length > 0) {
+      return {
+        type: 'local',
+        text: `Не хватает аргументов: ${missing
+          .map(({ name }) => name)
+          .join(', ')}.\nИспользование: ${formatCommandUsage(command)}`,
+      };
+    }
+
+    if (command.handler) {
+      return { type: 'local', text: await command.handler(args, context) };
+    }
+
+    return {
+      type: 'server',
+      messages: await executeCommand(command.name, args),
+    };
+  }
+
+  /**
+   * Разбирает аргументы команды по её схеме: каждый аргумент — одно слово,
+   * а аргумент с `isRest` забирает весь оставшийся текст.
+   *
+   * @param {IBotCommand} command - Команда.
+   * @param {string} input - Текст после имени команды.
+   * @returns {Record<string, string>} Значения аргументов по именам.
+   *
+   * @private
+   */
+  private _parseArgs(
+    command: IBotCommand,
+    input: string
+  ): Record<string, string> {
+    const args: Record<string, string> = {};
+    let rest = input;
+
+    for (const arg of command.args) {
+      if (!rest) break;
+
+      if (arg.isRest) {
+        args[arg.name] = rest;
+        rest = '';
+        break;
+      }
+
+      const match = /^(\S+)\s*/.exec(rest);
+      if (!match) break;
+      args[arg.name] = match[1];
+      rest = rest.slice(match[0].length);
+    }
+
+    return args;
+  }
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { IBotCommand } from '../shared/interfaces';
+import CommandSuggestions from './CommandSuggestions';
+
+const commands: IBotCommand[] = [
+  { name: 'helpdesk', description: 'Поддержка', args: [] },
+  { name: 'help', description: 'Справка', args: [] },
+  { name: 'remind', description: 'Напоминание', args: [] },
+];
+
+/**
+ * Нажимает клавишу в поле ввода через список подсказок.
+ *
+ * @param {CommandSuggestions} suggestions - Список подсказок.
+ * @param {string} key - Клавиша.
+ * @returns {boolean} Результат `handleKeydown`.
+ */
+const press = (suggestions: CommandSuggestions, key: string): boolean =>
+  suggestions.handleKeydown(
+    new KeyboardEvent('keydown', { key, cancelable: true })
+  );
+
+describe('CommandSuggestions', () => {
+  let textarea: HTMLTextAreaElement;
+  let suggestions: CommandSuggestions;
+
+  /**
+   * Вводит текст в поле ввода.
+   *
+   * @param {string} value - Текст.
+   */
+  const type = (value: string): void => {
+    textarea.value = value;
+    textarea.dispatchEvent(new Event('input'));
+  };
+
+  beforeEach(() => {
+    Element.prototype.scrollIntoView = (): void => undefined;
+    document.body.replaceChildren();
+    textarea = document.createElement('textarea');
+    document.body.append(textarea);
+    suggestions = new CommandSuggestions({
+      textarea,
+      getCommands: (): IBotCommand[] => commands,
+    });
+  });
+
+  it('подставляет выбранную команду по Enter', () => {
+    type('/re');
+
+    expect(press(suggestions, 'Enter')).toBe(true);
+    expect(textarea.value).toBe('/remind ');
+    expect(suggestions.isOpen).toBe(false);
+  });
+
+  it('пропускает Enter для отправки, если команда введена полностью', () => {
+    type('/help');
+    expect(suggestions.isOpen).toBe(true);
+
+    expect(press(suggestions, 'Enter')).toBe(false);
+    expect(textarea.value).toBe('/help');
+    expect(suggestions.isOpen).toBe(false);
+  });
+
+  it('подставляет другую выделенную команду по Enter', () => {
+    type('/help');
+    press(suggestions, 'ArrowDown');
+
+    expect(press(suggestions, 'Enter')).toBe(true);
+    expect(textarea.value).toBe('/helpdesk ');
+  });
+});
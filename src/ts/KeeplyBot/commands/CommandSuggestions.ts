@@ -0,0 +1,269 @@
+import createElement from '../../utils/createElementFunction';
+import { IBotCommand, ICommandSuggestionsOptions } from '../shared/interfaces';
+import { formatCommandUsage } from './CommandRegistry';
+
+/**
+ * Id списка подсказок (для связи с полем ввода через ARIA-атрибуты)
+ */
+const LIST_ID = 'command-suggestions';
+
+/**
+ * Всплывающий список подсказок команд для поля ввода сообщения.
+ *
+ * @description
+ * - Появляется, когда пользователь начинает вводить `/` и имя команды,
+ *   и фильтруется по мере ввода.
+ * - Стрелки вверх/вниз выбирают команду, Tab и Enter подставляют её в поле,
+ *   Esc закрывает список. Если имя выделенной команды уже введено
+ *   полностью, Enter не перехватывается и отправляет сообщение.
+ * - Пока список открыт, поле ввода должно передавать нажатия клавиш
+ *   в {@link CommandSuggestions.handleKeydown}.
+ */
+export default class CommandSuggestions {
+  private readonly _options: ICommandSuggestionsOptions;
+  private readonly _list: HTMLElement;
+  private _items: IBotCommand[] = [];
+  private _activeIndex = 0;
+
+  /**
+   * Конструктор списка подсказок.
+   *
+   * @param {ICommandSuggestionsOptions} options - Настройки списка.
+   *
+   * @see {@link ICommandSuggestionsOptions} - Интерфейс настроек списка
+   */
+  constructor(options: ICommandSuggestionsOptions) {
+    this._options = options;
+    this._list = createElement({
+      tag: 'ul',
+      className: ['command-suggestions', 'hidden'],
+      id: LIST_ID,
+      attrs: { role: 'listbox', 'aria-label': 'Команды бота' },
+    });
+
+    const { textarea } = options;
+    textarea.setAttribute('aria-autocomplete', 'list');
+    textarea.setAttribute('aria-controls', LIST_ID);
+    textarea.setAttribute('aria-expanded', 'false');
+    textarea.after(this._list);
+
+    this._initEventListeners();
+  }
+
+  /**
+   * Открыт ли список подсказок.
+   */
+  get isOpen(): boolean {
+    return this._items.length > 0;
+  }
+
+  /**
+   * Обрабатывает нажатие клавиши в поле ввода, пока список открыт.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   * @returns {boolean} `true`, если нажатие обработано списком и полю ввода
+   * не нужно выполнять своё действие (например, отправку по Enter).
+   *
+   * @public
+   */
+  public handleKeydown(event: KeyboardEvent): boolean {
+    if (!this.isOpen) return false;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const total = this._items.length;
+        this._setActive((this._activeIndex + step + total) % total);
+        break;
+      }
+      case 'Tab':
+      case 'Enter':
+        if (event.shiftKey) return false;
+
+        // Выделенная команда уже введена полностью — Enter отправляет её
+        if (event.key === 'Enter' && this._isExactMatch()) {
+          this.close();
+          return false;
+        }
+
+        this._complete(this._activeIndex);
+        break;
+      case 'Escape':
+        this.close();
+        break;
+      default:
+        return false;
+    }
+
+    event.preventDefault();
+    return true;
+  }
+
+  /**
+   * Закрывает список подсказок.
+   *
+   * @public
+   */
+  public close(): void {
+    this._items = [];
+    this._list.replaceChildren();
+    this._list.classList.add('hidden');
+    this._options.textarea.setAttribute('aria-expanded', 'false');
+    this._options.textarea.removeAttribute('aria-activedescendant');
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    const { textarea } = this._options;
+
+    textarea.addEventListener('input', () => this._update());
+    textarea.addEventListener('blur', () => this.close());
+
+    // mousedown вместо click: иначе поле ввода потеряет фокус и закроет список
+    this._list.addEventListener('mousedown', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const option = event.target.closest<HTMLElement>('[data-index]');
+      if (!option) return;
+
+      event.preventDefault();
+      this._complete(Number(option.dataset.index));
+    });
+  }
+
+  /**
+   * Обновляет список по тексту поля ввода: показывает команды, имя которых
+   * начинается с введённого после `/` текста, а затем — содержащие его.
+   *
+   * @private
+   */
+  private _update(): void {
+    const match = /^\/(\S*)$/.exec(this._options.textarea.value);
+    if (!match) {
+      this.close();
+      return;
+    }
+
+    const query = match[1].toLowerCase();
+    const commands = this._options.getCommands();
+    const startsWith = commands.filter(({ name }) =>
+      name.toLowerCase().startsWith(query)
+    );
+    const includes = commands.filter(
+      ({ name }) =>
+        !name.toLowerCase().startsWith(query) &&
+        name.toLowerCase().includes(query)
+    );
+
+    this._items = [...startsWith, ...includes];
+    if (this._items.length === 0) {
+      this.close();
+      return;
+    }
+
+    // Полностью введённая команда выделяется сразу
+    const exactIndex = this._items.findIndex(
+      ({ name }) => name.toLowerCase() === query
+    );
+
+    this._render();
+    this._setActive(Math.max(exactIndex, 0));
+  }
+
+  /**
+   * Отображает отфильтрованные команды с подсказками аргументов и описанием.
+   *
+   * @private
+   */
+  private _render(): void {
+    this._list.replaceChildren(
+      ...this._items.map((command, index) =>
+        createElement({
+          tag: 'li',
+          className: 'command-suggestions__item',
+          id: `${LIST_ID}-${index}`,
+          attrs: {
+            role: 'option',
+            'aria-selected': 'false',
+            'data-index': String(index),
+          },
+          children: [
+            {
+              tag: 'span',
+              className: 'command-suggestions__usage',
+              text: formatCommandUsage(command),
+            },
+            {
+              tag: 'span',
+              className: 'command-suggestions__description',
+              text: command.description,
+            },
+          ],
+        })
+      )
+    );
+
+    this._list.classList.remove('hidden');
+    this._options.textarea.setAttribute('aria-expanded', 'true');
+  }
+
+  /**
+   * Выделяет команду в списке.
+   *
+   * @param {number} index - Индекс команды.
+   *
+   * @private
+   */
+  private _setActive(index: number): void {
+    this._activeIndex = index;
+
+    this._list.querySelectorAll('[role="option"]').forEach((option, i) => {
+      const isActive = i === index;
+      option.classList.toggle('command-suggestions__item--active', isActive);
+      option.setAttribute('aria-selected', String(isActive));
+      if (isActive) option.scrollIntoView({ block: 'nearest' });
+    });
+
+    this._options.textarea.setAttribute(
+      'aria-activedescendant',
+      `${LIST_ID}-${index}`
+    );
+  }
+
+  /**
+   * Проверяет, совпадает ли введённый текст с именем выделенной команды.
+   *
+   * @returns {boolean} `true`, если выделенная команда введена полностью.
+   *
+   * @private
+   */
+  private _isExactMatch(): boolean {
+    const command = this._items[this._activeIndex];
+    const query = this._options.textarea.value.slice(1).toLowerCase();
+    return command?.name.toLowerCase() === query;
+  }
+
+  /**
+   * Подставляет команду в поле ввода и закрывает список.
+   *
+   * @param {number} index - Индекс команды.
+   *
+   * @private
+   */
+  private _complete(index: number): void {
+    const command = this._items[index];
+    if (!command) return;
+
+    const { textarea } = this._options;
+    textarea.value = `/${command.name} `;
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    this.close();
+
+    // Оповещаем форму (состояние кнопки отправки и т.д.) об изменении текста
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+}
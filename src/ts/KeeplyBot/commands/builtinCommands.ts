@@ -0,0 +1,119 @@
+import { downloadFile } from '../../utils/fileHelpers';
+import { IBotCommand, IUserMessageCard } from '../shared/interfaces';
+import { formatCommandUsage } from './CommandRegistry';
+
+/**
+ * Форматирует сообщения для экспорта в текстовый файл.
+ *
+ * @param {IUserMessageCard[]} messages - Сообщения.
+ * @returns {string} Текст: дата, текст и названия файлов каждого сообщения.
+ */
+const formatMessagesAsText = (messages: IUserMessageCard[]): string =>
+  messages
+    .map((msg) => {
+      const files = (msg.files ?? [])
+        .map((file) => `[${file.originalname}]`)
+        .join(' ');
+      const date = new Date(msg.timestamp).toLocaleString();
+      return [date, msg.message, files].filter(Boolean).join('\n');
+    })
+    .join('\n\n');
+
+/**
+ * Встроенные команды бота.
+ *
+ * Команды с обработчиком выполняются в браузере, остальные — на сервере
+ * через `/api/commands`.
+ */
+const BUILTIN_COMMANDS: IBotCommand[] = [
+  {
+    name: 'help',
+    description: 'Список команд',
+    args: [],
+    handler: (_args, context): string =>
+      [
+        'Доступные команды:',
+        ...context
+          .getCommands()
+          .map(
+            (command) =>
+              `${formatCommandUsage(command)} — ${command.description}`
+          ),
+      ].join('\n'),
+  },
+  {
+    name: 'weather',
+    description: 'Погода в городе',
+    args: [{ name: 'город', description: 'Название города', isRequired: true }],
+  },
+  {
+    name: 'remind',
+    description: 'Напомнить о чём-то в указанное время',
+    args: [
+      {
+        name: 'время',
+        description: 'Через сколько напомнить (10m, 2h) или время (18:30)',
+        isRequired: true,
+      },
+      {
+        name: 'текст',
+        description: 'Текст напоминания',
+        isRequired: true,
+        isRest: true,
+      },
+    ],
+  },
+  {
+    name: 'ask',
+    description: 'Задать вопрос боту (или @bot вопрос)',
+    args: [
+      {
+        name: 'вопрос',
+        description: 'Текст вопроса',
+        isRequired: true,
+        isRest: true,
+      },
+    ],
+  },
+  {
+    name: 'clear',
+    description: 'Очистить ленту на экране (история на сервере сохранится)',
+    args: [],
+    handler: (_args, context): string => {
+      context.clearFeed();
+      return 'Лента очищена. История вернётся после перезагрузки страницы.';
+    },
+  },
+  {
+    name: 'export',
+    description: 'Скачать загруженные сообщения в формате json или txt',
+    args: [{ name: 'формат', description: 'json (по умолчанию) или txt' }],
+    handler: (args, context): string => {
+      const format = (args['формат'] || 'json').toLowerCase();
+      if (format !== 'json' && format !== 'txt') {
+        return `Неизвестный формат «${format}». Доступны: json, txt`;
+      }
+
+      const messages = context.getMessages().filter((msg) => !msg.isLocal);
+      const date = new Date().toISOString().slice(0, 10);
+
+      if (format === 'json') {
+        downloadFile(
+          `keeply-${date}.json`,
+          JSON.stringify(messages, null, 2),
+          'application/json'
+        );
+      } else {
+        downloadFile(
+          `keeply-${date}.txt`,
+          formatMessagesAsText(messages),
+          'text/plain'
+        );
+      }
+
+      return `Экспортировано сообщений: ${messages.length}`;
+    },
+  },
+];
+
+export default BUILTIN_COMMANDS;
@@ -0,0 +1,222 @@
+import createElement from '../../utils/createElementFunction';
+
+/**
+ * Сообщения одного автора, отправленные с таким интервалом, объединяются
+ * в группу (5 минут)
+ */
+const GROUP_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Как часто обновляются относительное время и подписи дней (30 секунд)
+ */
+const REFRESH_INTERVAL = 30 * 1000;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat('ru', {
+  numeric: 'auto',
+});
+
+/**
+ * Возвращает начало дня (локальное время).
+ *
+ * @param {Date} date - Дата.
+ * @returns {number} Метка времени полуночи этого дня.
+ */
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Возвращает ключ дня для сравнения дат.
+ *
+ * @param {Date} date - Дата.
+ * @returns {string} Строка вида `2024-5-1` (локальная дата).
+ */
+const getDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Форматирует подпись разделителя дня: «Сегодня», «Вчера» или дата
+ * (год — только для прошлых лет).
+ *
+ * @param {Date} date - Дата сообщения.
+ * @param {Date} now - Текущее время.
+ * @returns {string} Подпись дня.
+ */
+export const formatDayLabel = (date: Date, now: Date = new Date()): string => {
+  // Округление — из-за перехода на летнее время в сутках бывает 23 или 25 часов
+  const daysAgo = Math.round((startOfDay(now) - startOfDay(date)) / DAY);
+
+  if (daysAgo === 0) return 'Сегодня';
+  if (daysAgo === 1) return 'Вчера';
+
+  return date.toLocaleDateString('ru-RU', {
+    day: 'numeric',
+    month: 'long',
+    year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+/**
+ * Форматирует время сообщения относительно текущего: «только что»,
+ * «5 минут назад», «2 часа назад»; для сообщений старше суток — время
+ * дня (дату показывает разделитель дня).
+ *
+ * @param {Date} date - Время сообщения.
+ * @param {Date} now - Текущее время.
+ * @returns {string} Относительное время.
+ */
+export const formatRelativeTime = (
+  date: Date,
+  now: Date = new Date()
+): string => {
+  const elapsed = now.getTime() - date.getTime();
+
+  if (elapsed < MINUTE) return 'только что';
+  if (elapsed < HOUR) {
+    return relativeTimeFormat.format(-Math.floor(elapsed / MINUTE), 'minute');
+  }
+  if (elapsed < DAY) {
+    return relativeTimeFormat.format(-Math.floor(elapsed / HOUR), 'hour');
+  }
+
+  return date.toLocaleTimeString('ru-RU', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Разметка ленты по времени: разделители дней, группы сообщений
+ * и относительное время.
+ *
+ * @description
+ * - Перед первым сообщением каждого дня стоит закрепляемый при прокрутке
+ *   разделитель («Сегодня», «Вчера», дата).
+ * - Сообщения одного автора, отправленные подряд с интервалом до 5 минут,
+ *   объединяются в группу (`chat__message-item--grouped`).
+ * - Время сообщений (`time.chat__message-timestamp`) показывается
+ *   относительно текущего и обновляется каждые 30 секунд.
+ * - Разметка обновляется сама при любом изменении списка сообщений.
+ *   Элементы сообщений должны содержать `data-timestamp` и `data-sender`.
+ */
+export default class FeedTimeline {
+  private readonly _observer = new MutationObserver(() => this.update());
+  private _list: HTMLElement | null = null;
+
+  /**
+   * Конструктор разметки ленты.
+   */
+  constructor() {
+    window.setInterval(() => this.update(), REFRESH_INTERVAL);
+  }
+
+  /**
+   * Начинает следить за списком сообщений (список пересоздаётся, когда
+   * лента становится пустой).
+   *
+   * @param {HTMLElement} list - Элемент `ul.chat__messages-list`.
+   *
+   * @public
+   */
+  public observe(list: HTMLElement): void {
+    this._observer.disconnect();
+    this._list = list;
+    this._observer.observe(list, { childList: true });
+    this.update();
+  }
+
+  /**
+   * Обновляет разделители дней, группы и время сообщений. Вызывается
+   * сразу, если до следующей отрисовки нужно измерить ленту (например,
+   * чтобы сохранить позицию прокрутки).
+   *
+   * @public
+   */
+  public update(): void {
+    const list = this._list;
+    if (!list) return;
+
+    const now = new Date();
+    const separators = new Map<string, HTMLElement>();
+    list
+      .querySelectorAll<HTMLElement>(':scope > .chat__day-separator')
+      .forEach((separator) => {
+        separators.set(separator.dataset.day ?? '', separator);
+      });
+
+    const used = new Set<HTMLElement>();
+    let previousDay: string | null = null;
+    let previousSender: string | null = null;
+    let previousTime = 0;
+
+    for (const item of list.querySelectorAll<HTMLElement>(
+      ':scope > .chat__message-item:not(.hidden)'
+    )) {
+      const date = new Date(item.dataset.timestamp ?? '');
+      if (Number.isNaN(date.getTime())) continue;
+
+      const day = getDayKey(date);
+      const sender = item.dataset.sender ?? 'user';
+
+      if (day !== previousDay) {
+        let separator = separators.get(day);
+        if (!separator || used.has(separator)) {
+          separator = this._createSeparator(day);
+        }
+
+        const label = formatDayLabel(date, now);
+        separator.setAttribute('aria-label', label);
+        separator.firstElementChild?.replaceChildren(label);
+        if (item.previousElementSibling !== separator) item.before(separator);
+        used.add(separator);
+      }
+
+      const isGrouped =
+        previousDay === day &&
+        previousSender === sender &&
+        sender !== 'system' &&
+        date.getTime() - previousTime <= GROUP_INTERVAL;
+      item.classList.toggle('chat__message-item--grouped', isGrouped);
+
+      previousDay = day;
+      previousSender = sender;
+      previousTime = date.getTime();
+    }
+
+    separators.forEach((separator) => {
+      if (!used.has(separator)) separator.remove();
+    });
+
+    list
+      .querySelectorAll<HTMLTimeElement>('time.chat__message-timestamp')
+      .forEach((time) => {
+        const date = new Date(time.dateTime);
+        if (!Number.isNaN(date.getTime())) {
+          time.textContent = formatRelativeTime(date, now);
+        }
+      });
+
+    // Собственные изменения списка не должны запускать разметку повторно
+    this._observer.takeRecords();
+  }
+
+  /**
+   * Создаёт разделитель дня.
+   *
+   * @param {string} day - Ключ дня.
+   * @returns {HTMLElement} Элемент `li.chat__day-separator`.
+   *
+   * @private
+   */
+  private _createSeparator(day: string): HTMLElement {
+    return createElement({
+      tag: 'li',
+      className: 'chat__day-separator',
+      attrs: { role: 'separator', 'data-day': day },
+      children: [{ tag: 'span', className: 'chat__day-separator-label' }],
+    });
+  }
+}
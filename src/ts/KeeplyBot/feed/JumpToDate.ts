@@ -0,0 +1,196 @@
+import createElement from '../../utils/createElementFunction';
+import Modal from '../../utils/Modal';
+import { IJumpToDateOptions } from '../shared/interfaces';
+
+/**
+ * Через сколько после остановки прокрутки кнопка скрывается (2 секунды)
+ */
+const HIDE_DELAY = 2000;
+
+/**
+ * Форматирует дату для поля `date` (локальная дата).
+ *
+ * @param {Date} date - Дата.
+ * @returns {string} Строка вида `2024-05-01`.
+ */
+const toDateValue = (date: Date): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Плавающая кнопка «Перейти к дате» в ленте.
+ *
+ * @description
+ * - Кнопка появляется при прокрутке ленты и скрывается через пару секунд
+ *   после её остановки (если на ней нет курсора или фокуса).
+ * - По клику открывается окно выбора даты; переход к сообщениям
+ *   выполняет `onSelect`.
+ */
+export default class JumpToDate {
+  private readonly _options: IJumpToDateOptions;
+  private readonly _button = createElement({
+    tag: 'button',
+    className: ['btn', 'btn--secondary', 'jump-to-date__btn'],
+    attrs: { type: 'button' },
+    children: [
+      {
+        tag: 'span',
+        className: 'material-symbols-outlined',
+        attrs: { 'aria-hidden': 'true' },
+        text: 'calendar_month',
+      },
+      'Перейти к дате',
+    ],
+  });
+  private readonly _control = createElement({
+    className: ['jump-to-date', 'hidden'],
+    children: [this._button],
+  });
+  private readonly _input = createElement({
+    tag: 'input',
+    className: 'jump-to-date__input',
+    attrs: { type: 'date', required: 'true' },
+  }) as HTMLInputElement;
+  private readonly _error = createElement({
+    tag: 'p',
+    className: ['jump-to-date__error', 'hidden'],
+    attrs: { role: 'alert' },
+  });
+  private readonly _form = createElement({
+    tag: 'form',
+    className: 'jump-to-date__form',
+    attrs: { novalidate: 'true' },
+    children: [
+      {
+        tag: 'label',
+        className: 'jump-to-date__label',
+        children: ['Дата', this._input],
+      },
+      this._error,
+      {
+        tag: 'button',
+        className: ['btn', 'btn--primary', 'jump-to-date__submit'],
+        attrs: { type: 'submit' },
+        text: 'Перейти',
+      },
+    ],
+  }) as HTMLFormElement;
+  private readonly _modal = new Modal({
+    title: 'Перейти к дате',
+    content: this._form,
+    className: 'modal--jump-to-date',
+  });
+  private _hideTimer: number | null = null;
+
+  /**
+   * Конструктор кнопки перехода к дате.
+   *
+   * @param {IJumpToDateOptions} options - Настройки кнопки.
+   *
+   * @see {@link IJumpToDateOptions} - Интерфейс настроек кнопки
+   */
+  constructor(options: IJumpToDateOptions) {
+    this._options = options;
+    options.feed.append(this._control);
+    this._initEventListeners();
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    const { feed } = this._options;
+
+    feed.addEventListener('scroll', () => this._show(), { passive: true });
+    this._control.addEventListener('mouseleave', () => this._scheduleHide());
+    this._control.addEventListener('focusout', () => this._scheduleHide());
+    this._button.addEventListener('click', () => this._open());
+    this._input.addEventListener('input', () => this._setError(null));
+
+    this._form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this._submit();
+    });
+  }
+
+  /**
+   * Показывает кнопку, если ленту есть куда прокручивать.
+   *
+   * @private
+   */
+  private _show(): void {
+    const { feed } = this._options;
+    if (feed.scrollHeight <= feed.clientHeight) return;
+
+    this._control.classList.remove('hidden');
+    this._scheduleHide();
+  }
+
+  /**
+   * Скрывает кнопку после паузы в прокрутке, если пользователь
+   * не навёл на неё курсор и не перевёл фокус.
+   *
+   * @private
+   */
+  private _scheduleHide(): void {
+    if (this._hideTimer !== null) window.clearTimeout(this._hideTimer);
+
+    this._hideTimer = window.setTimeout(() => {
+      this._hideTimer = null;
+      if (this._control.matches(':hover, :focus-within')) return;
+      this._control.classList.add('hidden');
+    }, HIDE_DELAY);
+  }
+
+  /**
+   * Открывает окно выбора даты (будущие даты недоступны).
+   *
+   * @private
+   */
+  private _open(): void {
+    const today = toDateValue(new Date());
+    this._input.max = today;
+    this._input.value = today;
+    this._setError(null);
+    this._modal.open();
+    this._input.focus();
+  }
+
+  /**
+   * Проверяет выбранную дату, закрывает окно и передаёт начало дня
+   * в `onSelect`.
+   *
+   * @private
+   */
+  private _submit(): void {
+    // Строка без времени разбирается как UTC, а с временем — как локальное
+    const date = new Date(`${this._input.value}T00:00`);
+
+    if (Number.isNaN(date.getTime())) {
+      this._setError('Укажите дату');
+      return;
+    }
+    if (date.getTime() > Date.now()) {
+      this._setError('Выберите сегодняшнюю или прошедшую дату');
+      return;
+    }
+
+    this._modal.close();
+    this._options.onSelect(date);
+  }
+
+  /**
+   * Показывает или скрывает текст ошибки.
+   *
+   * @param {string | null} message - Текст ошибки; `null` — скрыть.
+   *
+   * @private
+   */
+  private _setError(message: string | null): void {
+    this._error.textContent = message ?? '';
+    this._error.classList.toggle('hidden', !message);
+  }
+}
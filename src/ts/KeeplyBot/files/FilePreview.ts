@@ -0,0 +1,297 @@
+import createElement from '../../utils/createElementFunction';
+import { formatFileSize, getFilePreviewType } from '../../utils/fileHelpers';
+import Modal from '../../utils/Modal';
+import sanitizeHtml from '../../utils/sanitizeHtml';
+import { FilePreviewType } from '../../shared/type';
+import { fetchFileText, SERVER_URL } from '../api/api';
+import highlightCode from '../markdown/highlight';
+import { IMessageFile } from '../shared/interfaces';
+
+/**
+ * Максимальный размер текстового файла для предпросмотра (1 МБ)
+ */
+const MAX_TEXT_PREVIEW_SIZE = 1024 * 1024;
+
+/**
+ * Максимальное количество строк таблицы CSV в предпросмотре
+ */
+const MAX_CSV_ROWS = 500;
+
+/**
+ * Определяет разделитель CSV по первой строке: запятая, точка с запятой
+ * или табуляция — тот, что встречается чаще.
+ *
+ * @param {string} line - Первая строка файла.
+ * @returns {string} Разделитель.
+ */
+const detectDelimiter = (line: string): string =>
+  [',', ';', '\t'].reduce((best, delimiter) =>
+    line.split(delimiter).length > line.split(best).length ? delimiter : best
+  );
+
+/**
+ * Разбирает CSV с учётом значений в кавычках (в том числе с переносами
+ * строк и экранированными `""`).
+ *
+ * @param {string} text - Содержимое файла.
+ * @param {number} maxRows - Сколько строк разобрать.
+ * @returns {string[][]} Строки таблицы.
+ */
+const parseCsv = (text: string, maxRows: number): string[][] => {
+  const delimiter = detectDelimiter(text.split('\n', 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i += 1) {
+    const char = text[i];
+
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if ((field || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Окно предпросмотра документов из сообщений.
+ *
+ * @description
+ * - PDF открывается встроенным просмотрщиком браузера.
+ * - Текст, JSON (с форматированием и подсветкой) и CSV (таблицей)
+ *   загружаются с сервера; слишком большие файлы предлагается скачать.
+ * - При закрытии окна незавершённая загрузка отменяется.
+ */
+export default class FilePreview {
+  /**
+   * Открывает предпросмотр файла, если его тип поддерживается.
+   *
+   * @param {IMessageFile} file - Файл из сообщения.
+   *
+   * @public
+   */
+  public open(file: IMessageFile): void {
+    const type = getFilePreviewType(file.mimetype, file.originalname);
+    if (!type) return;
+
+    const fileUrl = `${SERVER_URL}${file.url}`;
+    const controller = new AbortController();
+    const body = createElement({ className: 'file-preview__body' });
+
+    const modal = new Modal({
+      title: file.originalname,
+      className: 'modal--file-preview',
+      content: createElement({
+        className: 'file-preview',
+        children: [
+          body,
+          {
+            tag: 'footer',
+            className: 'file-preview__footer',
+            children: [
+              {
+                tag: 'span',
+                className: 'file-preview__size',
+                text: formatFileSize(file.size),
+              },
+              {
+                tag: 'a',
+                className: ['btn', 'btn--primary', 'file-preview__download'],
+                attrs: { href: fileUrl, download: file.originalname },
+                text: 'Скачать',
+              },
+            ],
+          },
+        ],
+      }),
+      onClose: (): void => controller.abort(),
+    });
+
+    modal.open();
+
+    if (type === 'pdf') {
+      body.append(
+        createElement({
+          tag: 'iframe',
+          className: 'file-preview__pdf',
+          attrs: { src: fileUrl, title: file.originalname },
+        })
+      );
+    } else {
+      void this._renderText(body, file, type, controller.signal);
+    }
+  }
+
+  /**
+   * Загружает и отображает текстовый файл.
+   *
+   * @param {HTMLElement} body - Контейнер предпросмотра.
+   * @param {IMessageFile} file - Файл.
+   * @param {FilePreviewType} type - Вид предпросмотра.
+   * @param {AbortSignal} signal - Сигнал отмены (закрытие окна).
+   * @returns {Promise<void>} Промис, который разрешается после отображения.
+   *
+   * @private
+   */
+  private async _renderText(
+    body: HTMLElement,
+    file: IMessageFile,
+    type: FilePreviewType,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (file.size > MAX_TEXT_PREVIEW_SIZE) {
+      this._renderNotice(
+        body,
+        'Файл слишком большой для предпросмотра — скачайте его'
+      );
+      return;
+    }
+
+    this._renderNotice(body, 'Загрузка…');
+
+    let text: string;
+    try {
+      text = await fetchFileText(`${SERVER_URL}${file.url}`, signal);
+    } catch {
+      if (!signal.aborted) {
+        this._renderNotice(body, 'Не удалось загрузить файл');
+      }
+      return;
+    }
+
+    if (type === 'csv') {
+      body.replaceChildren(...this._createTable(text));
+    } else if (type === 'json') {
+      body.replaceChildren(this._createJson(text));
+    } else {
+      body.replaceChildren(
+        createElement({ tag: 'pre', className: 'file-preview__text', text })
+      );
+    }
+  }
+
+  /**
+   * Показывает сообщение вместо содержимого файла.
+   *
+   * @param {HTMLElement} body - Контейнер предпросмотра.
+   * @param {string} message - Текст сообщения.
+   *
+   * @private
+   */
+  private _renderNotice(body: HTMLElement, message: string): void {
+    body.replaceChildren(
+      createElement({
+        tag: 'p',
+        className: 'file-preview__notice',
+        text: message,
+      })
+    );
+  }
+
+  /**
+   * Создаёт отформатированный JSON с подсветкой. Некорректный JSON
+   * показывается как есть.
+   *
+   * @param {string} text - Содержимое файла.
+   * @returns {HTMLElement} Элемент `pre`.
+   *
+   * @private
+   */
+  private _createJson(text: string): HTMLElement {
+    let formatted = text;
+    try {
+      formatted = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Оставляем исходный текст
+    }
+
+    return createElement({
+      tag: 'pre',
+      className: 'file-preview__text',
+      children: [
+        {
+          tag: 'code',
+          html: sanitizeHtml(highlightCode(formatted, 'json')),
+        },
+      ],
+    });
+  }
+
+  /**
+   * Создаёт таблицу из CSV: первая строка — заголовки столбцов.
+   *
+   * @param {string} text - Содержимое файла.
+   * @returns {HTMLElement[]} Таблица и, если строк больше лимита, пояснение.
+   *
+   * @private
+   */
+  private _createTable(text: string): HTMLElement[] {
+    const rows = parseCsv(text, MAX_CSV_ROWS + 1);
+    const [header = [], ...data] = rows.slice(0, MAX_CSV_ROWS);
+
+    const table = createElement({
+      className: 'file-preview__table-wrap',
+      children: [
+        {
+          tag: 'table',
+          className: 'file-preview__table',
+          children: [
+            {
+              tag: 'thead',
+              children: [
+                {
+                  tag: 'tr',
+                  children: header.map((cell) => ({ tag: 'th', text: cell })),
+                },
+              ],
+            },
+            {
+              tag: 'tbody',
+              children: data.map((row) => ({
+                tag: 'tr',
+                children: row.map((cell) => ({ tag: 'td', text: cell })),
+              })),
+            },
+          ],
+        },
+      ],
+    });
+
+    if (rows.length <= MAX_CSV_ROWS) return [table];
+
+    return [
+      table,
+      createElement({
+        tag: 'p',
+        className: 'file-preview__notice',
+        text: `Показаны первые ${MAX_CSV_ROWS} строк — скачайте файл целиком`,
+      }),
+    ];
+  }
+}
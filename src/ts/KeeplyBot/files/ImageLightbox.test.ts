@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { IMessageFile } from '../shared/interfaces';
+import ImageLightbox from './ImageLightbox';
+
+/**
+ * Создаёт описание изображения из сообщения.
+ *
+ * @param {string} name - Имя файла.
+ * @returns {IMessageFile} Изображение.
+ */
+const createImage = (name: string): IMessageFile => ({
+  filename: name,
+  originalname: name,
+  mimetype: 'image/png',
+  size: 1024,
+  url: `/uploads/${name}`,
+});
+
+const images = ['a.png', 'b.png', 'c.png'].map(createImage);
+
+/**
+ * Возвращает элемент открытого просмотрщика.
+ *
+ * @param {string} selector - CSS-селектор.
+ * @returns {HTMLElement} Найденный элемент.
+ */
+const getElement = <T extends HTMLElement = HTMLElement>(
+  selector: string
+): T => {
+  const element = document.querySelector<T>(`.lightbox ${selector}`);
+  if (!element) throw new Error(`Element not found: ${selector}`);
+  return element;
+};
+
+const getCounter = (): string | null =>
+  getElement('.lightbox__counter').textContent;
+
+const getTransform = (): string =>
+  getElement<HTMLImageElement>('.lightbox__image').style.transform;
+
+const isZoomed = (): boolean =>
+  getElement('.lightbox__stage').classList.contains('lightbox__stage--zoomed');
+
+const getButton = (action: string): HTMLButtonElement =>
+  getElement<HTMLButtonElement>(`[data-lightbox-action="${action}"]`);
+
+const clickButton = (action: string): void => getButton(action).click();
+
+/**
+ * Нажимает клавишу в окне просмотрщика.
+ *
+ * @param {string} key - Клавиша.
+ * @returns {KeyboardEvent} Событие нажатия.
+ */
+const pressKey = (key: string): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', {
+    key,
+    bubbles: true,
+    cancelable: true,
+  });
+  getElement('.lightbox__counter').dispatchEvent(event);
+  return event;
+};
+
+/**
+ * Перетаскивает увеличенное изображение.
+ *
+ * @param {number} dx - Смещение по горизонтали.
+ * @param {number} dy - Смещение по вертикали.
+ */
+const dragImage = (dx: number, dy: number): void => {
+  const image = getElement<HTMLImageElement>('.lightbox__image');
+  image.setPointerCapture = (): void => undefined;
+
+  image.dispatchEvent(
+    new MouseEvent('pointerdown', { clientX: 0, clientY: 0 })
+  );
+  image.dispatchEvent(
+    new MouseEvent('pointermove', { clientX: dx, clientY: dy })
+  );
+  image.dispatchEvent(new MouseEvent('pointerup'));
+};
+
+describe('ImageLightbox', () => {
+  let lightbox: ImageLightbox;
+
+  beforeEach(() => {
+    lightbox = new ImageLightbox({ getImages: (): IMessageFile[] => images });
+  });
+
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+
+  it('открывает выбранное изображение и показывает счётчик', () => {
+    lightbox.open(images[1]);
+
+    expect(getCounter()).toBe('2 / 3');
+    expect(getElement<HTMLImageElement>('.lightbox__image').src).toMatch(
+      /\/uploads\/b\.png$/
+    );
+  });
+
+  it('не выходит за первое и последнее изображение', () => {
+    lightbox.open(images[0]);
+    expect(getButton('prev').disabled).toBe(true);
+
+    pressKey('ArrowLeft');
+    expect(getCounter()).toBe('1 / 3');
+
+    clickButton('next');
+    pressKey('ArrowRight');
+    expect(getCounter()).toBe('3 / 3');
+    expect(getButton('next').disabled).toBe(true);
+
+    pressKey('ArrowRight');
+    expect(getCounter()).toBe('3 / 3');
+
+    clickButton('prev');
+    expect(getCounter()).toBe('2 / 3');
+  });
+
+  it('показывает изображение не из ленты отдельно', () => {
+    lightbox.open(createImage('other.png'));
+
+    expect(getCounter()).toBe('1 / 1');
+    expect(getButton('prev').disabled).toBe(true);
+    expect(getButton('next').disabled).toBe(true);
+  });
+
+  it('ограничивает масштаб сверху и снизу', () => {
+    lightbox.open(images[0]);
+
+    for (let step = 0; step < 10; step += 1) pressKey('+');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(5)');
+
+    for (let step = 0; step < 10; step += 1) clickButton('zoom-out');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1)');
+    expect(isZoomed()).toBe(false);
+  });
+
+  it('меняет масштаб клавишами + и - и сбрасывает клавишей 0', () => {
+    lightbox.open(images[0]);
+
+    const event = pressKey('+');
+    pressKey('=');
+    expect(event.defaultPrevented).toBe(true);
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1.5625)');
+    expect(isZoomed()).toBe(true);
+
+    pressKey('-');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1.25)');
+
+    pressKey('0');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1)');
+    expect(pressKey('a').defaultPrevented).toBe(false);
+  });
+
+  it('сбрасывает смещение при возврате к исходному масштабу', () => {
+    lightbox.open(images[0]);
+    clickButton('zoom-in');
+    dragImage(30, -20);
+    expect(getTransform()).toBe('translate(30px, -20px) scale(1.25)');
+
+    clickButton('zoom-in');
+    expect(getTransform()).toBe('translate(30px, -20px) scale(1.5625)');
+
+    pressKey('-');
+    pressKey('-');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1)');
+  });
+
+  it('не перетаскивает изображение в исходном масштабе', () => {
+    lightbox.open(images[0]);
+    dragImage(30, -20);
+
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1)');
+  });
+
+  it('сбрасывает масштаб при переключении изображения', () => {
+    lightbox.open(images[0]);
+    clickButton('zoom-in');
+    dragImage(10, 10);
+
+    pressKey('ArrowRight');
+    expect(getCounter()).toBe('2 / 3');
+    expect(getTransform()).toBe('translate(0px, 0px) scale(1)');
+  });
+});
@@ -0,0 +1,327 @@
+import createElement from '../../utils/createElementFunction';
+import Modal from '../../utils/Modal';
+import { SERVER_URL } from '../api/api';
+import { IImageLightboxOptions, IMessageFile } from '../shared/interfaces';
+
+/**
+ * Пределы и шаг масштаба изображения
+ */
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const SCALE_STEP = 1.25;
+
+/**
+ * Просмотрщик изображений (lightbox) поверх приложения.
+ *
+ * @description
+ * - Показывает изображение целиком с масштабированием (кнопки, колесо
+ *   мыши, двойной клик, `+`/`-`/`0`) и перемещением перетаскиванием.
+ * - Стрелки влево/вправо переключают изображения всей переписки.
+ * - Окно построено на {@link Modal}: фокус удерживается внутри, Esc и клик
+ *   по фону закрывают его.
+ */
+export default class ImageLightbox {
+  private readonly _options: IImageLightboxOptions;
+  private readonly _modal: Modal;
+  private readonly _image = createElement({
+    tag: 'img',
+    className: 'lightbox__image',
+    attrs: { draggable: 'false' },
+  }) as HTMLImageElement;
+  private readonly _stage = createElement({
+    className: 'lightbox__stage',
+    children: [this._image],
+  });
+  private readonly _prevButton = this._createButton(
+    'prev',
+    'chevron_left',
+    'Предыдущее изображение'
+  );
+  private readonly _nextButton = this._createButton(
+    'next',
+    'chevron_right',
+    'Следующее изображение'
+  );
+  private readonly _counter = createElement({
+    tag: 'span',
+    className: 'lightbox__counter',
+    attrs: { 'aria-live': 'polite' },
+  });
+  private readonly _download = createElement({
+    tag: 'a',
+    className: ['lightbox__btn', 'material-symbols-outlined'],
+    attrs: { 'aria-label': 'Скачать', title: 'Скачать' },
+    text: 'download',
+  }) as HTMLAnchorElement;
+  private readonly _toolbar = createElement({
+    className: 'lightbox__toolbar',
+    children: [
+      this._prevButton,
+      this._counter,
+      this._nextButton,
+      this._createButton('zoom-out', 'zoom_out', 'Уменьшить'),
+      this._createButton('zoom-reset', 'fit_screen', 'Исходный размер'),
+      this._createButton('zoom-in', 'zoom_in', 'Увеличить'),
+      this._download,
+    ],
+  });
+  private _images: IMessageFile[] = [];
+  private _index = 0;
+  private _scale = MIN_SCALE;
+  private _offsetX = 0;
+  private _offsetY = 0;
+  private _drag: {
+    x: number;
+    y: number;
+    offsetX: number;
+    offsetY: number;
+  } | null = null;
+
+  /**
+   * Конструктор просмотрщика изображений.
+   *
+   * @param {IImageLightboxOptions} options - Настройки просмотрщика.
+   *
+   * @see {@link IImageLightboxOptions} - Интерфейс настроек просмотрщика
+   */
+  constructor(options: IImageLightboxOptions) {
+    this._options = options;
+    this._modal = new Modal({
+      title: 'Изображение',
+      className: 'modal--lightbox',
+      content: createElement({
+        className: 'lightbox',
+        children: [this._stage, this._toolbar],
+      }),
+      onKeydown: (event): void => this._handleKeydown(event),
+      onClose: (): void => {
+        this._image.removeAttribute('src');
+        this._images = [];
+      },
+    });
+
+    this._initEventListeners();
+  }
+
+  /**
+   * Открывает изображение. Список для переключения стрелками — все
+   * изображения переписки на момент открытия.
+   *
+   * @param {IMessageFile} file - Изображение из сообщения.
+   *
+   * @public
+   */
+  public open(file: IMessageFile): void {
+    const images = this._options.getImages();
+    const index = images.findIndex(({ url }) => url === file.url);
+
+    this._images = index === -1 ? [file] : images;
+    this._modal.open();
+    this._show(Math.max(index, 0));
+  }
+
+  /**
+   * Создаёт кнопку панели управления.
+   *
+   * @param {string} action - Действие (`data-lightbox-action`).
+   * @param {string} icon - Иконка Material Symbols.
+   * @param {string} label - Подпись для скринридеров и тултипа.
+   * @returns {HTMLButtonElement} Кнопка.
+   *
+   * @private
+   */
+  private _createButton(
+    action: string,
+    icon: string,
+    label: string
+  ): HTMLButtonElement {
+    return createElement({
+      tag: 'button',
+      className: ['lightbox__btn', 'material-symbols-outlined'],
+      attrs: {
+        type: 'button',
+        'data-lightbox-action': action,
+        'aria-label': label,
+        title: label,
+      },
+      text: icon,
+    }) as HTMLButtonElement;
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._toolbar.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const button = event.target.closest<HTMLElement>(
+        '[data-lightbox-action]'
+      );
+
+      switch (button?.dataset.lightboxAction) {
+        case 'prev':
+          this._show(this._index - 1);
+          break;
+        case 'next':
+          this._show(this._index + 1);
+          break;
+        case 'zoom-in':
+          this._setScale(this._scale * SCALE_STEP);
+          break;
+        case 'zoom-out':
+          this._setScale(this._scale / SCALE_STEP);
+          break;
+        case 'zoom-reset':
+          this._setScale(MIN_SCALE);
+          break;
+      }
+    });
+
+    // Клик по пустому месту вокруг изображения закрывает окно, как клик по фону
+    this._stage.addEventListener('click', (event) => {
+      if (event.target === this._stage) this._modal.close();
+    });
+
+    this._stage.addEventListener(
+      'wheel',
+      (event) => {
+        event.preventDefault();
+        this._setScale(
+          event.deltaY < 0 ? this._scale * SCALE_STEP : this._scale / SCALE_STEP
+        );
+      },
+      { passive: false }
+    );
+
+    this._image.addEventListener('dblclick', () => {
+      this._setScale(this._scale > MIN_SCALE ? MIN_SCALE : 2);
+    });
+
+    this._image.addEventListener('pointerdown', (event) => {
+      if (this._scale <= MIN_SCALE) return;
+
+      this._image.setPointerCapture(event.pointerId);
+      this._drag = {
+        x: event.clientX,
+        y: event.clientY,
+        offsetX: this._offsetX,
+        offsetY: this._offsetY,
+      };
+      this._stage.classList.add('lightbox__stage--dragging');
+    });
+
+    this._image.addEventListener('pointermove', (event) => {
+      if (!this._drag) return;
+
+      this._offsetX = this._drag.offsetX + event.clientX - this._drag.x;
+      this._offsetY = this._drag.offsetY + event.clientY - this._drag.y;
+      this._applyTransform();
+    });
+
+    const stopDrag = (): void => {
+      this._drag = null;
+      this._stage.classList.remove('lightbox__stage--dragging');
+    };
+    this._image.addEventListener('pointerup', stopDrag);
+    this._image.addEventListener('pointercancel', stopDrag);
+  }
+
+  /**
+   * Обрабатывает клавиши просмотрщика. Esc и Tab обрабатывает Modal.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   *
+   * @private
+   */
+  private _handleKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowLeft':
+        this._show(this._index - 1);
+        break;
+      case 'ArrowRight':
+        this._show(this._index + 1);
+        break;
+      case '+':
+      case '=':
+        this._setScale(this._scale * SCALE_STEP);
+        break;
+      case '-':
+        this._setScale(this._scale / SCALE_STEP);
+        break;
+      case '0':
+        this._setScale(MIN_SCALE);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  /**
+   * Показывает изображение с указанным индексом в исходном масштабе.
+   *
+   * @param {number} index - Индекс изображения в списке.
+   *
+   * @private
+   */
+  private _show(index: number): void {
+    const file = this._images[index];
+    if (!file) return;
+
+    const fileUrl = `${SERVER_URL}${file.url}`;
+    const total = this._images.length;
+
+    this._index = index;
+    this._image.src = fileUrl;
+    this._image.alt = file.originalname;
+    this._download.href = fileUrl;
+    this._download.download = file.originalname;
+    this._counter.textContent = `${index + 1} / ${total}`;
+    this._prevButton.disabled = index === 0;
+    this._nextButton.disabled = index === total - 1;
+    this._modal.setTitle(file.originalname);
+    this._setScale(MIN_SCALE);
+
+    // Заблокированная кнопка теряет фокус, и клавиши перестали бы доходить
+    // до окна — переводим фокус на сам диалог
+    const { activeElement } = document;
+    if (activeElement instanceof HTMLButtonElement && activeElement.disabled) {
+      this._stage.closest<HTMLElement>('.modal__dialog')?.focus();
+    }
+  }
+
+  /**
+   * Меняет масштаб изображения в допустимых пределах. В исходном
+   * масштабе смещение сбрасывается.
+   *
+   * @param {number} scale - Новый масштаб.
+   *
+   * @private
+   */
+  private _setScale(scale: number): void {
+    this._scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+    if (this._scale === MIN_SCALE) {
+      this._offsetX = 0;
+      this._offsetY = 0;
+    }
+
+    this._stage.classList.toggle(
+      'lightbox__stage--zoomed',
+      this._scale > MIN_SCALE
+    );
+    this._applyTransform();
+  }
+
+  /**
+   * Применяет масштаб и смещение к изображению.
+   *
+   * @private
+   */
+  private _applyTransform(): void {
+    this._image.style.transform = `translate(${this._offsetX}px, ${this._offsetY}px) scale(${this._scale})`;
+  }
+}
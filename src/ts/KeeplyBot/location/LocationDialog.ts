@@ -0,0 +1,147 @@
+import createElement from '../../utils/createElementFunction';
+import Modal from '../../utils/Modal';
+import { IMessageLocation } from '../shared/interfaces';
+import parseCoordinates from './geolocation';
+
+/**
+ * Окно ручного ввода координат — когда местоположение не удалось
+ * определить автоматически (нет доступа или Geolocation API).
+ *
+ * @description
+ * - Показывает причину, по которой координаты нужно ввести вручную.
+ * - Принимает широту и долготу в форматах `51.50851, -0.12572`
+ *   и `[51.50851,-0.12572]`; при ошибке показывает подсказку
+ *   и оставляет окно открытым.
+ */
+export default class LocationDialog {
+  private readonly _reason = createElement({
+    tag: 'p',
+    className: 'location-form__reason',
+  });
+  private readonly _input = createElement({
+    tag: 'input',
+    className: 'location-form__input',
+    attrs: {
+      type: 'text',
+      inputmode: 'decimal',
+      autocomplete: 'off',
+      placeholder: '51.50851, -0.12572',
+      required: 'true',
+    },
+  }) as HTMLInputElement;
+  private readonly _error = createElement({
+    tag: 'p',
+    className: ['location-form__error', 'hidden'],
+    attrs: { role: 'alert' },
+  });
+  private readonly _form = createElement({
+    tag: 'form',
+    className: 'location-form',
+    attrs: { novalidate: 'true' },
+    children: [
+      this._reason,
+      {
+        tag: 'label',
+        className: 'location-form__label',
+        children: ['Широта и долгота', this._input],
+      },
+      this._error,
+      {
+        tag: 'button',
+        className: ['btn', 'btn--primary', 'location-form__submit'],
+        attrs: { type: 'submit' },
+        text: 'Прикрепить',
+      },
+    ],
+  }) as HTMLFormElement;
+  private readonly _modal: Modal;
+  private _resolve: ((location: IMessageLocation | null) => void) | null = null;
+
+  /**
+   * Конструктор окна ввода координат.
+   */
+  constructor() {
+    this._modal = new Modal({
+      title: 'Местоположение',
+      content: this._form,
+      className: 'modal--location',
+      onClose: (): void => this._finish(null),
+    });
+
+    this._initEventListeners();
+  }
+
+  /**
+   * Открывает окно и ждёт ввода координат.
+   *
+   * @param {string} reason - Почему местоположение не определилось автоматически.
+   * @returns {Promise<IMessageLocation | null>} Координаты или `null`,
+   * если окно закрыли без ввода.
+   *
+   * @public
+   */
+  public async request(reason: string): Promise<IMessageLocation | null> {
+    // Предыдущий запрос, если окно ещё открыто, считается отменённым
+    this._finish(null);
+
+    this._reason.textContent = `${reason}. Укажите координаты вручную.`;
+    this._input.value = '';
+    this._setError(null);
+    this._modal.open();
+    this._input.focus();
+
+    return new Promise((resolve) => {
+      this._resolve = resolve;
+    });
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._input.addEventListener('input', () => this._setError(null));
+
+    this._form.addEventListener('submit', (event) => {
+      event.preventDefault();
+
+      const location = parseCoordinates(this._input.value);
+      if (!location) {
+        this._setError(
+          'Введите широту (от -90 до 90) и долготу (от -180 до 180) через ' +
+            'запятую, например 51.50851, -0.12572'
+        );
+        return;
+      }
+
+      this._finish(location);
+      this._modal.close();
+    });
+  }
+
+  /**
+   * Передаёт результат ожидающему запросу.
+   *
+   * @param {IMessageLocation | null} location - Координаты или `null`.
+   *
+   * @private
+   */
+  private _finish(location: IMessageLocation | null): void {
+    const resolve = this._resolve;
+    this._resolve = null;
+    resolve?.(location);
+  }
+
+  /**
+   * Показывает или скрывает текст ошибки.
+   *
+   * @param {string | null} message - Текст ошибки; `null` — скрыть.
+   *
+   * @private
+   */
+  private _setError(message: string | null): void {
+    this._error.textContent = message ?? '';
+    this._error.classList.toggle('hidden', !message);
+  }
+}
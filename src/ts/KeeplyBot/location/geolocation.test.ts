@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import parseCoordinates, { isValidLocation } from './geolocation';
+
+const LONDON = { latitude: 51.50851, longitude: -0.12572 };
+
+describe('parseCoordinates', () => {
+  it.each([
+    '51.50851, -0.12572',
+    '[51.50851,-0.12572]',
+    '(51.50851 -0.12572)',
+    '  51.50851;-0.12572  ',
+    '+51.50851 -0.12572',
+  ])('разбирает координаты: %s', (value) => {
+    expect(parseCoordinates(value)).toEqual(LONDON);
+  });
+
+  it('принимает граничные значения', () => {
+    expect(parseCoordinates('-90, 180')).toEqual({
+      latitude: -90,
+      longitude: 180,
+    });
+    expect(parseCoordinates('90, -180')).toEqual({
+      latitude: 90,
+      longitude: -180,
+    });
+  });
+
+  it.each(['90.0001, 0', '-91, 0', '0, 180.5', '0, -181', '100, 200'])(
+    'отклоняет координаты вне допустимых пределов: %s',
+    (value) => {
+      expect(parseCoordinates(value)).toBeNull();
+    }
+  );
+
+  it.each([
+    '',
+    '51.50851',
+    '51,50851, -0,12572',
+    '51.50851, -0.12572, 10',
+    '[51.50851, -0.12572',
+    'abc, def',
+    '1e1, 2',
+  ])('отклоняет неверный формат: %s', (value) => {
+    expect(parseCoordinates(value)).toBeNull();
+  });
+});
+
+describe('isValidLocation', () => {
+  it('проверяет координаты из сообщения', () => {
+    expect(isValidLocation({ ...LONDON, accuracy: 12 })).toBe(true);
+    expect(isValidLocation({ latitude: '51.5', longitude: 0 })).toBe(false);
+    expect(isValidLocation({ latitude: 0 })).toBe(false);
+    expect(isValidLocation(null)).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { IMessageLocation } from '../shared/interfaces';
+
+/**
+ * Число в записи координат: необязательный знак, целая часть и дробная
+ * через точку
+ */
+const NUMBER = '[-+]?\\d{1,3}(?:\\.\\d+)?';
+
+/**
+ * Пара координат: широта и долгота через запятую, точку с запятой или
+ * пробелы (`51.50851, -0.12572`, `51.50851 -0.12572`)
+ */
+const COORDINATES_PATTERN = new RegExp(
+  `^(${NUMBER})\\s*(?:[,;]|\\s)\\s*(${NUMBER})$`
+);
+
+/**
+ * Настройки запроса местоположения: максимальная точность, не дольше
+ * 10 секунд, допускаются координаты, полученные не раньше минуты назад
+ */
+const POSITION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10_000,
+  maximumAge: 60_000,
+};
+
+/**
+ * Проверяет, что широта и долгота — числа в допустимых пределах
+ *
+ * @param {unknown} value - Проверяемое значение (например, поле сообщения с сервера)
+ * @returns {boolean} `true`, если это корректные координаты
+ */
+export const isValidLocation = (value: unknown): value is IMessageLocation => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { latitude, longitude } = value as Record<string, unknown>;
+
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+};
+
+/**
+ * Форматирует координаты для отображения
+ *
+ * @param {IMessageLocation} location - Координаты
+ * @returns {string} Строка вида `51.50851, -0.12572`
+ */
+export const formatCoordinates = ({
+  latitude,
+  longitude,
+}: IMessageLocation): string =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+/**
+ * Возвращает ссылку на точку на карте OpenStreetMap
+ *
+ * @param {IMessageLocation} location - Координаты
+ * @returns {string} Адрес карты с отмеченной точкой
+ */
+export const getMapUrl = ({ latitude, longitude }: IMessageLocation): string =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+
+/**
+ * Определяет текущее местоположение через Geolocation API
+ *
+ * @returns {Promise<IMessageLocation>} Координаты с точностью в метрах
+ * @throws {Error} С понятным пользователю текстом, если API недоступен,
+ * доступ запрещён или местоположение не удалось определить
+ */
+export const getCurrentLocation = async (): Promise<IMessageLocation> =>
+  new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Браузер не поддерживает определение местоположения'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy: Math.round(coords.accuracy),
+        }),
+      (error) =>
+        reject(
+          new Error(
+            error.code === error.PERMISSION_DENIED
+              ? 'Доступ к местоположению запрещён'
+              : 'Не удалось определить местоположение'
+          )
+        ),
+      POSITION_OPTIONS
+    );
+  });
+
+/**
+ * Разбирает координаты, введённые вручную.
+ *
+ * Принимаются широта и долгота в десятичных градусах через запятую,
+ * точку с запятой или пробел, в том числе в квадратных или круглых скобках:
+ * `51.50851, -0.12572`, `[51.50851,-0.12572]`, `(51.50851 -0.12572)`.
+ *
+ * @param {string} value - Введённый текст
+ * @returns {IMessageLocation | null} Координаты или `null`, если формат
+ * неверный или значения вне допустимых пределов
+ */
+export default function parseCoordinates(
+  value: string
+): IMessageLocation | null {
+  let text = value.trim();
+
+  const bracketed = /^\[(.*)\]$/s.exec(text) ?? /^\((.*)\)$/s.exec(text);
+  if (bracketed) text = bracketed[1].trim();
+
+  const match = COORDINATES_PATTERN.exec(text);
+  if (!match) return null;
+
+  const location = { latitude: Number(match[1]), longitude: Number(match[2]) };
+  return isValidLocation(location) ? location : null;
+}
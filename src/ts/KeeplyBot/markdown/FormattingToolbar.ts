@@ -0,0 +1,304 @@
+import createElement from '../../utils/createElementFunction';
+import { IFormattingToolbarOptions, TextFormat } from '../shared/interfaces';
+
+/**
+ * Кнопки панели: вид форматирования, подпись, иконка и сочетание клавиш
+ * (`code` из KeyboardEvent — не зависит от раскладки)
+ */
+const FORMAT_ACTIONS: {
+  format: TextFormat;
+  label: string;
+  icon: string;
+  code: string;
+  isShift: boolean;
+  shortcut: string;
+}[] = [
+  {
+    format: 'bold',
+    label: 'Полужирный',
+    icon: 'format_bold',
+    code: 'KeyB',
+    isShift: false,
+    shortcut: 'Ctrl+B',
+  },
+  {
+    format: 'italic',
+    label: 'Курсив',
+    icon: 'format_italic',
+    code: 'KeyI',
+    isShift: false,
+    shortcut: 'Ctrl+I',
+  },
+  {
+    format: 'code',
+    label: 'Код',
+    icon: 'code',
+    code: 'KeyE',
+    isShift: false,
+    shortcut: 'Ctrl+E',
+  },
+  {
+    format: 'code-block',
+    label: 'Блок кода',
+    icon: 'data_object',
+    code: 'KeyE',
+    isShift: true,
+    shortcut: 'Ctrl+Shift+E',
+  },
+  {
+    format: 'list',
+    label: 'Список',
+    icon: 'format_list_bulleted',
+    code: 'Digit8',
+    isShift: true,
+    shortcut: 'Ctrl+Shift+8',
+  },
+  {
+    format: 'task',
+    label: 'Список задач',
+    icon: 'checklist',
+    code: 'Digit9',
+    isShift: true,
+    shortcut: 'Ctrl+Shift+9',
+  },
+  {
+    format: 'quote',
+    label: 'Цитата',
+    icon: 'format_quote',
+    code: 'Period',
+    isShift: true,
+    shortcut: 'Ctrl+Shift+.',
+  },
+];
+
+/**
+ * Маркеры форматирования внутри строки
+ */
+const INLINE_MARKERS: Partial<Record<TextFormat, string>> = {
+  bold: '**',
+  italic: '_',
+  code: '`',
+};
+
+/**
+ * Префиксы строк: `pattern` находит уже добавленный префикс
+ */
+const LINE_PREFIXES: Partial<
+  Record<TextFormat, { prefix: string; pattern: RegExp }>
+> = {
+  list: { prefix: '- ', pattern: /^\s*[-*+]\s+(?!\[[ xX]\]\s)/ },
+  task: { prefix: '- [ ] ', pattern: /^\s*[-*+]\s+\[[ xX]\]\s+/ },
+  quote: { prefix: '> ', pattern: /^\s*>\s?/ },
+};
+
+/**
+ * Маркер пункта списка (в том числе задачи), заменяемый при смене вида списка
+ */
+const LIST_MARKER_PATTERN = /^\s*[-*+]\s+(?:\[[ xX]\]\s+)?/;
+
+/**
+ * Панель форматирования поля ввода сообщения.
+ *
+ * @description
+ * - Кнопки и сочетания клавиш (Ctrl/Cmd + B, I, E и т.д.) добавляют
+ *   разметку Markdown к выделенному тексту или к текущим строкам.
+ * - Повторное применение снимает форматирование.
+ * - После изменения текста поле получает событие `input`, чтобы форма
+ *   обновила своё состояние.
+ */
+export default class FormattingToolbar {
+  private readonly _options: IFormattingToolbarOptions;
+
+  /**
+   * Конструктор панели форматирования.
+   *
+   * @param {IFormattingToolbarOptions} options - Настройки панели.
+   *
+   * @see {@link IFormattingToolbarOptions} - Интерфейс настроек панели
+   */
+  constructor(options: IFormattingToolbarOptions) {
+    this._options = options;
+    this._render();
+    this._initEventListeners();
+  }
+
+  /**
+   * Применяет форматирование к выделенному тексту поля ввода.
+   *
+   * @param {TextFormat} format - Вид форматирования.
+   *
+   * @public
+   */
+  public apply(format: TextFormat): void {
+    const { textarea } = this._options;
+    if (textarea.disabled) return;
+
+    const marker = INLINE_MARKERS[format];
+    const linePrefix = LINE_PREFIXES[format];
+
+    if (marker) {
+      this._toggleInline(marker);
+    } else if (linePrefix) {
+      this._toggleLines(linePrefix.prefix, linePrefix.pattern);
+    } else {
+      this._wrapCodeBlock();
+    }
+
+    textarea.focus();
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+
+  /**
+   * Отображает кнопки панели.
+   *
+   * @private
+   */
+  private _render(): void {
+    this._options.toolbar.replaceChildren(
+      ...FORMAT_ACTIONS.map(({ format, label, icon, shortcut }) =>
+        createElement({
+          tag: 'button',
+          className: ['chat__toolbar-btn', 'has-tooltip'],
+          attrs: {
+            type: 'button',
+            'aria-label': label,
+            'data-format': format,
+            'data-tooltip': `${label} (${shortcut})`,
+          },
+          children: [
+            {
+              tag: 'span',
+              className: 'material-symbols-outlined',
+              attrs: { 'aria-hidden': 'true' },
+              text: icon,
+            },
+          ],
+        })
+      )
+    );
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    const { textarea, toolbar } = this._options;
+
+    toolbar.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const button = event.target.closest<HTMLElement>('[data-format]');
+      if (!button?.dataset.format) return;
+
+      this.apply(button.dataset.format as TextFormat);
+    });
+
+    textarea.addEventListener('keydown', (event) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const action = FORMAT_ACTIONS.find(
+        ({ code, isShift }) => code === event.code && isShift === event.shiftKey
+      );
+      if (!action) return;
+
+      event.preventDefault();
+      this.apply(action.format);
+    });
+  }
+
+  /**
+   * Оборачивает выделение в маркеры или снимает их, если выделение
+   * уже обёрнуто. Без выделения вставляет пару маркеров и ставит курсор
+   * между ними.
+   *
+   * @param {string} marker - Маркер (`**`, `_` или `` ` ``).
+   *
+   * @private
+   */
+  private _toggleInline(marker: string): void {
+    const { textarea } = this._options;
+    const { value, selectionStart: start, selectionEnd: end } = textarea;
+    const selected = value.slice(start, end);
+    const size = marker.length;
+
+    // Маркеры снаружи выделения: **|текст|**
+    if (
+      value.slice(start - size, start) === marker &&
+      value.slice(end, end + size) === marker
+    ) {
+      textarea.setRangeText(selected, start - size, end + size, 'select');
+      return;
+    }
+
+    // Маркеры внутри выделения: |**текст**|
+    if (
+      selected.length >= size * 2 &&
+      selected.startsWith(marker) &&
+      selected.endsWith(marker)
+    ) {
+      textarea.setRangeText(selected.slice(size, -size), start, end, 'select');
+      return;
+    }
+
+    textarea.setRangeText(`${marker}${selected}${marker}`, start, end);
+    textarea.setSelectionRange(start + size, end + size);
+  }
+
+  /**
+   * Добавляет префикс к выделенным строкам или убирает его, если он
+   * уже есть у всех непустых строк.
+   *
+   * @param {string} prefix - Префикс строки.
+   * @param {RegExp} pattern - Находит уже добавленный префикс.
+   *
+   * @private
+   */
+  private _toggleLines(prefix: string, pattern: RegExp): void {
+    const { textarea } = this._options;
+    const { value, selectionStart, selectionEnd } = textarea;
+    const start = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const lineEnd = value.indexOf('\n', selectionEnd);
+    const end = lineEnd === -1 ? value.length : lineEnd;
+
+    const lines = value.slice(start, end).split('\n');
+    const filled = lines.filter((line) => line.trim());
+    const isFormatted =
+      filled.length > 0 && filled.every((line) => pattern.test(line));
+
+    const result = lines.map((line) => {
+      if (isFormatted) return line.replace(pattern, '');
+      if (!line.trim() && lines.length > 1) return line;
+      // Пункт другого вида списка меняет маркер, а не получает второй
+      return prefix.startsWith('-')
+        ? `${prefix}${line.replace(LIST_MARKER_PATTERN, '')}`
+        : `${prefix}${line}`;
+    });
+
+    textarea.setRangeText(result.join('\n'), start, end, 'end');
+    if (selectionStart !== selectionEnd) {
+      textarea.setSelectionRange(start, start + result.join('\n').length);
+    }
+  }
+
+  /**
+   * Оборачивает выделение в блок кода (```), начинающийся и
+   * заканчивающийся на отдельных строках.
+   *
+   * @private
+   */
+  private _wrapCodeBlock(): void {
+    const { textarea } = this._options;
+    const { value, selectionStart: start, selectionEnd: end } = textarea;
+    const before = start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+    const after = end < value.length && value[end] !== '\n' ? '\n' : '';
+    const opening = `${before}\`\`\`\n`;
+
+    textarea.setRangeText(
+      `${opening}${value.slice(start, end)}\n\`\`\`${after}`,
+      start,
+      end
+    );
+    textarea.setSelectionRange(start + opening.length, end + opening.length);
+  }
+}
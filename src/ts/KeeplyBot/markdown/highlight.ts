@@ -0,0 +1,296 @@
+import escapeHtml from '../../utils/escapeHtml';
+import { ILanguageRules } from '../shared/interfaces';
+
+/**
+ * Распространённые виды строк и комментариев
+ */
+const DOUBLE_QUOTED = '"(?:[^"\\\\\\n]|\\\\.)*"';
+const SINGLE_QUOTED = "'(?:[^'\\\\\\n]|\\\\.)*'";
+const BACKTICK_QUOTED = '`(?:[^`\\\\]|\\\\.)*`';
+const LINE_COMMENT = '\\/\\/[^\\n]*';
+const BLOCK_COMMENT = '\\/\\*[\\s\\S]*?\\*\\/';
+const HASH_COMMENT = '#[^\\n]*';
+
+const JS_KEYWORDS = [
+  'async',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'export',
+  'extends',
+  'finally',
+  'for',
+  'from',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'let',
+  'new',
+  'of',
+  'return',
+  'static',
+  'switch',
+  'this',
+  'throw',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'yield',
+];
+
+const TS_KEYWORDS = [
+  ...JS_KEYWORDS,
+  'abstract',
+  'as',
+  'declare',
+  'enum',
+  'implements',
+  'interface',
+  'keyof',
+  'namespace',
+  'private',
+  'protected',
+  'public',
+  'readonly',
+  'type',
+];
+
+const JS_LITERALS = ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'];
+
+/**
+ * Правила подсветки поддерживаемых языков
+ */
+const LANGUAGES: Record<string, ILanguageRules> = {
+  javascript: {
+    comments: [LINE_COMMENT, BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+    keywords: JS_KEYWORDS,
+    literals: JS_LITERALS,
+  },
+  typescript: {
+    comments: [LINE_COMMENT, BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+    keywords: TS_KEYWORDS,
+    literals: JS_LITERALS,
+  },
+  python: {
+    comments: [HASH_COMMENT],
+    strings: [
+      '"""[\\s\\S]*?"""',
+      "'''[\\s\\S]*?'''",
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+    ],
+    keywords: [
+      'and',
+      'as',
+      'assert',
+      'async',
+      'await',
+      'break',
+      'class',
+      'continue',
+      'def',
+      'del',
+      'elif',
+      'else',
+      'except',
+      'finally',
+      'for',
+      'from',
+      'global',
+      'if',
+      'import',
+      'in',
+      'is',
+      'lambda',
+      'nonlocal',
+      'not',
+      'or',
+      'pass',
+      'raise',
+      'return',
+      'try',
+      'while',
+      'with',
+      'yield',
+    ],
+    literals: ['True', 'False', 'None'],
+  },
+  json: {
+    comments: [],
+    strings: [DOUBLE_QUOTED],
+    keywords: [],
+    literals: ['true', 'false', 'null'],
+  },
+  css: {
+    comments: [BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: ['@media', '@import', '@use', '@include', '@mixin', '!important'],
+    literals: [],
+  },
+  bash: {
+    comments: [HASH_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [
+      'case',
+      'do',
+      'done',
+      'elif',
+      'else',
+      'esac',
+      'export',
+      'fi',
+      'for',
+      'function',
+      'if',
+      'in',
+      'local',
+      'return',
+      'then',
+      'while',
+    ],
+    literals: ['true', 'false'],
+  },
+  sql: {
+    comments: ['--[^\\n]*', BLOCK_COMMENT],
+    strings: [SINGLE_QUOTED],
+    keywords: [
+      'SELECT',
+      'FROM',
+      'WHERE',
+      'INSERT',
+      'INTO',
+      'VALUES',
+      'UPDATE',
+      'SET',
+      'DELETE',
+      'JOIN',
+      'LEFT',
+      'RIGHT',
+      'INNER',
+      'ON',
+      'GROUP',
+      'ORDER',
+      'BY',
+      'HAVING',
+      'LIMIT',
+      'AND',
+      'OR',
+      'NOT',
+      'AS',
+      'CREATE',
+      'TABLE',
+      'ALTER',
+      'DROP',
+    ],
+    literals: ['NULL', 'TRUE', 'FALSE'],
+  },
+};
+
+/**
+ * Другие названия языков в блоках кода
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  scss: 'css',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+};
+
+/**
+ * Экранирует спецсимволы RegExp в ключевом слове
+ *
+ * @param {string} word - Ключевое слово
+ * @returns {string} Источник RegExp
+ */
+const escapeKeyword = (word: string): string =>
+  word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Собирает RegExp, находящий все токены языка за один проход.
+ * Группы перечислены по приоритету: комментарий или строка, внутри
+ * которых встречается ключевое слово, остаются комментарием или строкой.
+ *
+ * @param {ILanguageRules} rules - Правила языка
+ * @returns {RegExp} RegExp с именованными группами (тип токена)
+ */
+const createTokenPattern = (rules: ILanguageRules): RegExp => {
+  const groups: string[] = [];
+  const words = (list: string[]): string =>
+    `(?<![\\w@!$-])(?:${list.map(escapeKeyword).join('|')})(?![\\w-])`;
+
+  if (rules.comments.length) {
+    groups.push(`(?<comment>${rules.comments.join('|')})`);
+  }
+  groups.push(`(?<string>${rules.strings.join('|')})`);
+  groups.push(
+    '(?<number>\\b(?:0x[\\da-fA-F]+|\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b)'
+  );
+  if (rules.keywords.length)
+    groups.push(`(?<keyword>${words(rules.keywords)})`);
+  if (rules.literals.length)
+    groups.push(`(?<literal>${words(rules.literals)})`);
+
+  return new RegExp(groups.join('|'), 'g');
+};
+
+/**
+ * Кэш собранных RegExp по названию языка
+ */
+const TOKEN_PATTERNS = new Map<string, RegExp>();
+
+/**
+ * Подсвечивает синтаксис кода: оборачивает комментарии, строки, числа,
+ * ключевые слова и литералы в `<span class="code-token code-token--тип">`
+ *
+ * @param {string} code - Исходный код
+ * @param {string} language - Язык из блока кода (`ts`, `python` и т.д.)
+ * @returns {string} Экранированный HTML; код неизвестного языка только экранируется
+ */
+export default function highlightCode(code: string, language: string): string {
+  const name = language.toLowerCase();
+  const key = LANGUAGE_ALIASES[name] ?? name;
+  const rules = LANGUAGES[key];
+  if (!rules) return escapeHtml(code);
+
+  let pattern = TOKEN_PATTERNS.get(key);
+  if (!pattern) {
+    pattern = createTokenPattern(rules);
+    TOKEN_PATTERNS.set(key, pattern);
+  }
+
+  let html = '';
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(pattern)) {
+    const type = Object.entries(match.groups ?? {}).find(
+      ([, value]) => value !== undefined
+    )?.[0];
+    const index = match.index ?? 0;
+
+    html += escapeHtml(code.slice(lastIndex, index));
+    html += `<span class="code-token code-token--${type}">${escapeHtml(match[0])}</span>`;
+    lastIndex = index + match[0].length;
+  }
+
+  return html + escapeHtml(code.slice(lastIndex));
+}
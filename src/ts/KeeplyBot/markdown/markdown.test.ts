@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import renderMarkdown, { toggleTask } from './markdown';
+
+/**
+ * Возвращает номера и состояние чекбоксов в отрисованном тексте.
+ *
+ * @param {string} text - Текст сообщения.
+ * @returns {string[]} Строки вида `0:x` (отмечен) или `1: ` (не отмечен).
+ */
+const getTasks = (text: string): string[] => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(text, { isTaskEditable: true });
+
+  return [
+    ...container.querySelectorAll<HTMLInputElement>('[data-action="task"]'),
+  ].map(
+    (checkbox) =>
+      `${checkbox.dataset.taskIndex}:${checkbox.checked ? 'x' : ' '}`
+  );
+};
+
+describe('renderMarkdown', () => {
+  it('отображает задачи в маркированных и нумерованных списках', () => {
+    expect(getTasks('1. [ ] a\n- [x] b\n* [ ] c')).toEqual([
+      '0: ',
+      '1:x',
+      '2: ',
+    ]);
+  });
+
+  it('не считает задачами строки внутри блока кода', () => {
+    expect(getTasks('```\n- [ ] код\n```\n- [ ] a')).toEqual(['0: ']);
+  });
+});
+
+describe('toggleTask', () => {
+  it('переключает задачи в списках разных типов', () => {
+    const text = '1. [ ] a\n- [ ] b';
+
+    expect(toggleTask(text, 0)).toBe('1. [x] a\n- [ ] b');
+    expect(toggleTask(text, 1)).toBe('1. [ ] a\n- [x] b');
+  });
+
+  it('нумерует пункты так же, как при отображении', () => {
+    const text = [
+      '2) [x] первый',
+      '```',
+      '- [ ] в коде',
+      '```',
+      '> - [ ] в цитате',
+      'текст [ ] не задача',
+      '+ [X] последний',
+    ].join('\n');
+
+    expect(getTasks(text)).toEqual(['0:x', '1: ', '2:x']);
+    expect(toggleTask(text, 0)).toContain('2) [ ] первый');
+    expect(toggleTask(text, 1)).toContain('> - [x] в цитате');
+    expect(toggleTask(text, 2)).toContain('+ [ ] последний');
+    expect(toggleTask(text, 3)).toBe(text);
+  });
+
+  it('закрывает блок кода из цитаты вместе с цитатой', () => {
+    const text = '> ```\n- [ ] a\n> > ```\n> - [ ] b';
+
+    expect(getTasks('> ```\n- [ ] a')).toEqual(['0: ']);
+    expect(toggleTask('> ```\n- [ ] a', 0)).toBe('> ```\n- [x] a');
+
+    expect(getTasks(text)).toEqual(['0: ', '1: ']);
+    expect(toggleTask(text, 0)).toBe('> ```\n- [x] a\n> > ```\n> - [ ] b');
+    expect(toggleTask(text, 1)).toBe('> ```\n- [ ] a\n> > ```\n> - [x] b');
+  });
+
+  it('снимает отметку, поставленную заглавной X', () => {
+    expect(toggleTask('- [X] a', 0)).toBe('- [ ] a');
+  });
+});
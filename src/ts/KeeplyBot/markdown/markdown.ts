@@ -0,0 +1,360 @@
+import { find } from 'linkifyjs';
+import escapeHtml from '../../utils/escapeHtml';
+import { IMarkdownOptions } from '../shared/interfaces';
+import highlightCode from './highlight';
+
+/**
+ * Начало и конец блока кода: ``` с необязательным названием языка
+ */
+const FENCE_PATTERN = /^\s*```\s*([\w+#.-]*)\s*$/;
+
+/**
+ * Строка цитаты; в группе — текст без `>`
+ */
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+/**
+ * Код в строке: текст между одиночными обратными кавычками
+ */
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+
+/**
+ * Пункты маркированного и нумерованного списков
+ */
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+/**
+ * Пункт списка задач (текст пункта маркированного или нумерованного списка);
+ * по нему же ищутся пункты при переключении отметки
+ */
+const TASK_PATTERN = /^\[([ xX])\]\s+(.+)$/;
+
+/**
+ * Префикс цитаты (в том числе вложенной) в начале строки
+ */
+const QUOTE_PREFIX_PATTERN = /^(?:\s*>\s?)*/;
+
+/**
+ * Маркеры защищённых фрагментов (код и ссылки), которые не должны
+ * затрагиваться выделением `*` и `_` (символы из области частного использования)
+ */
+const STASH_START = '\uE000';
+const STASH_END = '\uE001';
+const STASH_PATTERN = /\uE000(\d+)\uE001/g;
+
+/**
+ * Состояние разбора: счётчик пунктов задач, чтобы у каждого чекбокса
+ * был номер пункта в исходном тексте
+ */
+interface IRenderState extends IMarkdownOptions {
+  taskIndex: number;
+}
+
+/**
+ * Форматирует текст внутри строки: код, полужирный, курсив.
+ * Адреса не форматируются, чтобы `_` и `*` в них не ломали ссылки.
+ *
+ * @param {string} text - Текст строки
+ * @returns {string} Экранированный HTML
+ */
+const renderInline = (text: string): string => {
+  const stash: string[] = [];
+  const protect = (html: string): string =>
+    `${STASH_START}${stash.push(html) - 1}${STASH_END}`;
+
+  let result = text.replace(INLINE_CODE_PATTERN, (_match, code: string) =>
+    protect(`<code>${escapeHtml(code)}</code>`)
+  );
+
+  // Ссылки защищаются с конца, чтобы не сдвигались позиции остальных
+  for (const link of find(result).reverse()) {
+    result =
+      result.slice(0, link.start) +
+      protect(escapeHtml(link.value)) +
+      result.slice(link.end);
+  }
+
+  return escapeHtml(result)
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(
+      /(^|[^\p{L}\p{N}_*])\*(?=\S)(.+?)(?<=\S)\*(?![\p{L}\p{N}_*])/gu,
+      '$1<em>$2</em>'
+    )
+    .replace(
+      /(^|[^\p{L}\p{N}_])_(?=\S)(.+?)(?<=\S)_(?![\p{L}\p{N}_])/gu,
+      '$1<em>$2</em>'
+    )
+    .replace(STASH_PATTERN, (_match, index: string) => stash[Number(index)]);
+};
+
+/**
+ * Создаёт блок кода с подсветкой, названием языка и кнопкой копирования.
+ *
+ * @param {string} code - Код
+ * @param {string} language - Язык из строки ```
+ * @returns {string} HTML блока кода
+ */
+const renderCodeBlock = (code: string, language: string): string =>
+  '<div class="chat__code">' +
+  '<div class="chat__code-header">' +
+  `<span class="chat__code-lang">${escapeHtml(language || 'код')}</span>` +
+  '<button type="button" class="chat__code-copy" data-action="copy-code" ' +
+  'aria-label="Копировать код" title="Копировать код"></button>' +
+  '</div>' +
+  `<pre class="chat__code-block"><code>${highlightCode(code, language)}</code></pre>` +
+  '</div>';
+
+/**
+ * Возвращает вид списка, к которому относится строка.
+ *
+ * @param {string} line - Строка
+ * @returns {'ul' | 'ol' | null} Вид списка или `null`, если это не пункт списка
+ */
+const getListType = (line: string): 'ul' | 'ol' | null => {
+  if (UNORDERED_ITEM_PATTERN.test(line)) return 'ul';
+  if (ORDERED_ITEM_PATTERN.test(line)) return 'ol';
+  return null;
+};
+
+/**
+ * Создаёт пункт списка; пункт вида `[ ] текст` становится задачей с чекбоксом.
+ *
+ * @param {string} text - Текст пункта без маркера
+ * @param {IRenderState} state - Состояние разбора
+ * @returns {string} HTML пункта
+ */
+const renderListItem = (text: string, state: IRenderState): string => {
+  const task = TASK_PATTERN.exec(text);
+  if (!task) return `<li>${renderInline(text)}</li>`;
+
+  const [, mark, content] = task;
+  const attrs = [
+    'type="checkbox"',
+    'class="chat__task-checkbox"',
+    'data-action="task"',
+    `data-task-index="${state.taskIndex}"`,
+    'aria-label="Выполнено"',
+    ...(mark === ' ' ? [] : ['checked']),
+    ...(state.isTaskEditable ? [] : ['disabled']),
+  ];
+  state.taskIndex += 1;
+
+  return (
+    `<li class="chat__task${mark === ' ' ? '' : ' chat__task--done'}">` +
+    `<input ${attrs.join(' ')}><span>${renderInline(content)}</span></li>`
+  );
+};
+
+/**
+ * Разбирает строки на блоки: код, цитаты, списки и абзацы.
+ *
+ * @param {string[]} lines - Строки текста
+ * @param {IRenderState} state - Состояние разбора
+ * @returns {string} HTML блоков
+ */
+const renderBlocks = (lines: string[], state: IRenderState): string => {
+  let html = '';
+  let index = 0;
+
+  const isBlockStart = (line: string): boolean =>
+    !line.trim() ||
+    FENCE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    getListType(line) !== null;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const fence = FENCE_PATTERN.exec(line);
+
+    if (fence) {
+      // Незакрытый блок кода продолжается до конца сообщения
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      html += renderCodeBlock(code.join('\n'), fence[1]);
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quote: string[] = [];
+      let match = QUOTE_PATTERN.exec(line);
+      while (match) {
+        quote.push(match[1]);
+        index += 1;
+        match = index < lines.length ? QUOTE_PATTERN.exec(lines[index]) : null;
+      }
+      html += `<blockquote>${renderBlocks(quote, state)}</blockquote>`;
+      continue;
+    }
+
+    const listType = getListType(line);
+    if (listType) {
+      const pattern =
+        listType === 'ul' ? UNORDERED_ITEM_PATTERN : ORDERED_ITEM_PATTERN;
+      const start = ORDERED_ITEM_PATTERN.exec(line)?.[1];
+      let items = '';
+
+      while (index < lines.length && getListType(lines[index]) === listType) {
+        const match = pattern.exec(lines[index]);
+        items += renderListItem(match?.[match.length - 1] ?? '', state);
+        index += 1;
+      }
+
+      html +=
+        listType === 'ol' && start && Number(start) !== 1
+          ? `<ol start="${Number(start)}">${items}</ol>`
+          : `<${listType}>${items}</${listType}>`;
+      continue;
+    }
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    // Абзац: строки до пустой строки или начала другого блока
+    const paragraph: string[] = [];
+    while (index < lines.length && !isBlockStart(lines[index])) {
+      paragraph.push(renderInline(lines[index]));
+      index += 1;
+    }
+    html += `<p>${paragraph.join('<br>')}</p>`;
+  }
+
+  return html;
+};
+
+/**
+ * Преобразует текст сообщения с разметкой Markdown в HTML.
+ *
+ * @description
+ * Поддерживается безопасное подмножество: полужирный (`**`, `__`),
+ * курсив (`*`, `_`), код в строке и блоки кода с подсветкой, маркированные
+ * и нумерованные списки, списки задач (`- [ ]`, `1. [x]`) и цитаты.
+ * Весь текст экранируется, поэтому HTML из сообщения не выполняется.
+ *
+ * @param {string} text - Текст сообщения
+ * @param {IMarkdownOptions} options - Настройки отображения
+ * @returns {string} HTML без ссылок: адреса превращаются в ссылки позже (linkifyHtml)
+ *
+ * @see {@link IMarkdownOptions} - Интерфейс настроек отображения Markdown
+ */
+export default function renderMarkdown(
+  text: string,
+  options: IMarkdownOptions
+): string {
+  return renderBlocks(text.replace(/\r\n?/g, '\n').split('\n'), {
+    ...options,
+    taskIndex: 0,
+  });
+}
+
+/**
+ * Обходит строки вне блоков кода так же, как их разбирает renderBlocks:
+ * блок кода внутри цитаты заканчивается вместе с цитатой.
+ *
+ * @param {string[]} lines - Строки текста
+ * @param {(line: string, index: number) => void} visit - Обработчик строки
+ * (без маркеров цитаты) и её номера в `lines`
+ */
+const forEachTextLine = (
+  lines: string[],
+  visit: (line: string, index: number) => void
+): void => {
+  let index = 0;
+
+  while (index < lines.length) {
+    if (FENCE_PATTERN.test(lines[index])) {
+      index += 1;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+        index += 1;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(lines[index])) {
+      const start = index;
+      const quote: string[] = [];
+      let match = QUOTE_PATTERN.exec(lines[index]);
+      while (match) {
+        quote.push(match[1]);
+        index += 1;
+        match = index < lines.length ? QUOTE_PATTERN.exec(lines[index]) : null;
+      }
+      forEachTextLine(quote, (line, quoteIndex) =>
+        visit(line, start + quoteIndex)
+      );
+      continue;
+    }
+
+    visit(lines[index], index);
+    index += 1;
+  }
+};
+
+/**
+ * Убирает из текста код — блоки кода и код в строке — так же, как его
+ * выделяет renderMarkdown. Код в строке заменяется пробелом, чтобы
+ * не склеивались соседние слова.
+ *
+ * @param {string} text - Текст сообщения
+ * @returns {string} Текст вне кода без маркеров цитат
+ */
+export const stripCode = (text: string): string => {
+  const lines: string[] = [];
+
+  forEachTextLine(text.replace(/\r\n?/g, '\n').split('\n'), (line) => {
+    lines.push(line.replace(INLINE_CODE_PATTERN, ' '));
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Переключает отметку пункта списка задач в исходном тексте сообщения.
+ * Пункты нумеруются так же, как при отображении: по порядку, без учёта
+ * строк внутри блоков кода.
+ *
+ * @param {string} text - Текст сообщения
+ * @param {number} index - Номер пункта задачи (с 0)
+ * @returns {string} Текст с переключённой отметкой
+ */
+export const toggleTask = (text: string, index: number): string => {
+  const lines = text.split('\n');
+  const taskLines: number[] = [];
+
+  forEachTextLine(lines, (line, lineIndex) => {
+    const item =
+      UNORDERED_ITEM_PATTERN.exec(line) ?? ORDERED_ITEM_PATTERN.exec(line);
+    if (item && TASK_PATTERN.test(item[item.length - 1])) {
+      taskLines.push(lineIndex);
+    }
+  });
+
+  const lineIndex = taskLines[index];
+  if (lineIndex === undefined) return text;
+
+  // Текст пункта — так же, как при отображении списка
+  const line = lines[lineIndex];
+  const body = line.replace(QUOTE_PREFIX_PATTERN, '');
+  const item =
+    UNORDERED_ITEM_PATTERN.exec(body) ?? ORDERED_ITEM_PATTERN.exec(body);
+  const content = item?.[item.length - 1] ?? '';
+  const task = TASK_PATTERN.exec(content);
+  if (!task) return text;
+
+  // Текст пункта стоит в конце строки; отметка — второй символ пункта
+  const markIndex = line.length - content.length + 1;
+  lines[lineIndex] =
+    line.slice(0, markIndex) +
+    (task[1] === ' ' ? 'x' : ' ') +
+    line.slice(markIndex + 1);
+
+  return lines.join('\n');
+};
@@ -0,0 +1,164 @@
+import { IPinnedBarOptions, IUserMessageCard } from '../shared/interfaces';
+
+/**
+ * Панель закреплённых сообщений над лентой (`.pinned-bar`).
+ *
+ * Показывает одно закреплённое сообщение за раз: кнопка со стрелкой
+ * переключает их по кругу, а клик по тексту переходит к сообщению в ленте.
+ * Доступность панели задаётся capability `ui.pinMessages` — атрибутом
+ * `disabled` на её элементе.
+ */
+export default class PinnedBar {
+  private readonly _options: IPinnedBarOptions;
+  private readonly _element: HTMLElement | null =
+    document.querySelector('.pinned-bar');
+  private readonly _title: HTMLElement | null =
+    document.querySelector('.pinned-bar__title');
+  private readonly _text: HTMLElement | null =
+    document.querySelector('.pinned-bar__text');
+  private readonly _mainButton: HTMLButtonElement | null =
+    document.querySelector('.pinned-bar__main');
+  private readonly _nextButton: HTMLButtonElement | null =
+    document.querySelector('.pinned-bar__next');
+  private _messages: IUserMessageCard[] = [];
+  private _index = 0;
+
+  /**
+   * Конструктор панели закреплённых сообщений.
+   *
+   * @param {IPinnedBarOptions} options - Настройки панели.
+   *
+   * @see {@link IPinnedBarOptions} - Интерфейс настроек панели
+   */
+  constructor(options: IPinnedBarOptions) {
+    this._options = options;
+    this._initEventListeners();
+  }
+
+  /**
+   * Разрешено ли закреплять сообщения (capability `ui.pinMessages`).
+   */
+  get isEnabled(): boolean {
+    return Boolean(this._element) && !this._element?.hasAttribute('disabled');
+  }
+
+  /**
+   * Заменяет список закреплённых сообщений и показывает самое новое из них.
+   *
+   * @param {IUserMessageCard[]} messages - Сообщения; незакреплённые пропускаются.
+   *
+   * @public
+   */
+  public setMessages(messages: IUserMessageCard[]): void {
+    this._messages = messages
+      .filter((msg) => msg.pinned)
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    this._index = this._messages.length - 1;
+    this._render();
+  }
+
+  /**
+   * Учитывает изменение сообщения: добавляет его в панель, если оно
+   * закреплено, или убирает, если откреплено.
+   *
+   * @param {IUserMessageCard} msg - Изменённое сообщение.
+   *
+   * @public
+   */
+  public update(msg: IUserMessageCard): void {
+    const index = this._messages.findIndex((item) => item.id === msg.id);
+
+    if (!msg.pinned) {
+      if (index !== -1) this.remove(msg.id);
+      return;
+    }
+
+    if (index !== -1) {
+      this._messages[index] = msg;
+      this._render();
+      return;
+    }
+
+    // Только что закреплённое сообщение сразу показывается в панели
+    this.setMessages([...this._messages, msg]);
+    this._index = this._messages.indexOf(msg);
+    this._render();
+  }
+
+  /**
+   * Убирает сообщение из панели.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   *
+   * @public
+   */
+  public remove(id: string): void {
+    const index = this._messages.findIndex((item) => item.id === id);
+    if (index === -1) return;
+
+    this._messages.splice(index, 1);
+    if (this._index >= index) this._index -= 1;
+    if (this._index < 0) this._index = this._messages.length - 1;
+    this._render();
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._mainButton?.addEventListener('click', () => {
+      const msg = this._messages[this._index];
+      if (msg) this._options.onSelect(msg.id);
+    });
+    this._nextButton?.addEventListener('click', () => this._showNext());
+  }
+
+  /**
+   * Переключает панель на предыдущее (более старое) закреплённое сообщение;
+   * после самого старого возвращается к самому новому.
+   *
+   * @private
+   */
+  private _showNext(): void {
+    const total = this._messages.length;
+    if (total === 0) return;
+
+    this._index = (this._index - 1 + total) % total;
+    this._render();
+  }
+
+  /**
+   * Отображает текущее закреплённое сообщение и номер среди закреплённых.
+   *
+   * @private
+   */
+  private _render(): void {
+    if (!this._element) return;
+
+    const total = this._messages.length;
+    const msg = this._messages[this._index];
+    this._element.classList.toggle('hidden', !msg);
+    if (!msg) return;
+
+    if (this._title) {
+      this._title.textContent =
+        total > 1
+          ? `Закреплённое сообщение ${this._index + 1} из ${total}`
+          : 'Закреплённое сообщение';
+    }
+
+    if (this._text) {
+      this._text.textContent =
+        msg.message.trim().split('\n')[0] ||
+        msg.files?.map((file) => file.originalname).join(', ') ||
+        '';
+    }
+
+    if (this._nextButton) this._nextButton.hidden = total < 2;
+  }
+}
@@ -0,0 +1,296 @@
+import createElement from '../../utils/createElementFunction';
+import { fetchLinkPreview } from '../api/api';
+import { ILinkPreview, ILinkPreviewsOptions } from '../shared/interfaces';
+
+/**
+ * Расширения адресов, которые показываются как изображение
+ */
+const IMAGE_URL_PATTERN = /\.(?:png|jpe?g|gif|webp|avif|bmp)$/i;
+
+/**
+ * Id видео YouTube
+ */
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+
+/**
+ * Насколько заранее (до появления на экране) загружать превью
+ */
+const ROOT_MARGIN = '200px 0px';
+
+/**
+ * Разбирает адрес ссылки; допускаются только http(s).
+ *
+ * @param {string} href - Адрес ссылки.
+ * @returns {URL | null} Адрес или `null`, если превью для него не показывается.
+ */
+const parseUrl = (href: string): URL | null => {
+  try {
+    const url = new URL(href);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Возвращает id видео, если ссылка ведёт на YouTube
+ * (`youtube.com/watch?v=`, `youtu.be/`, `/shorts/`, `/embed/`).
+ *
+ * @param {URL} url - Адрес ссылки.
+ * @returns {string | null} Id видео или `null`.
+ */
+const getYouTubeId = (url: URL): string | null => {
+  const host = url.hostname.replace(/^(?:www|m)\./, '');
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.slice(1);
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    id =
+      url.searchParams.get('v') ??
+      /^\/(?:embed|shorts|live)\/([^/]+)/.exec(url.pathname)?.[1] ??
+      null;
+  }
+
+  return id && YOUTUBE_ID_PATTERN.test(id) ? id : null;
+};
+
+/**
+ * Превью ссылок под сообщениями.
+ *
+ * @description
+ * - Для первой ссылки в тексте сообщения под ним показывается карточка
+ *   с заголовком, описанием, названием сайта и изображением страницы
+ *   (данные OpenGraph от сервера).
+ * - Ссылки на YouTube показываются встроенным плеером, ссылки на
+ *   изображения — самим изображением.
+ * - Превью загружается, только когда сообщение появляется на экране,
+ *   а полученные данные кэшируются до перезагрузки страницы.
+ */
+export default class LinkPreviews {
+  private readonly _cache = new Map<string, Promise<ILinkPreview | null>>();
+  private readonly _observer: IntersectionObserver;
+
+  /**
+   * Конструктор превью ссылок.
+   *
+   * @param {ILinkPreviewsOptions} options - Настройки превью.
+   *
+   * @see {@link ILinkPreviewsOptions} - Интерфейс настроек превью
+   */
+  constructor(options: ILinkPreviewsOptions) {
+    this._observer = new IntersectionObserver(
+      (entries) => this._handleIntersection(entries),
+      { root: options.root, rootMargin: ROOT_MARGIN }
+    );
+  }
+
+  /**
+   * Добавляет после текста сообщения место для превью его первой ссылки.
+   * Само превью появится, когда сообщение прокрутят до экрана.
+   *
+   * @param {HTMLElement} text - Текст сообщения со ссылками linkifyHtml.
+   *
+   * @public
+   */
+  public attach(text: HTMLElement): void {
+    const url = [
+      ...text.querySelectorAll<HTMLAnchorElement>('a.chat__message-link'),
+    ]
+      .map((link) => parseUrl(link.href))
+      .find((item) => item !== null);
+    if (!url) return;
+
+    const preview = createElement({
+      className: ['link-preview', 'link-preview--loading'],
+      attrs: { 'data-url': url.href },
+    });
+
+    text.after(preview);
+    this._observer.observe(preview);
+  }
+
+  /**
+   * Показывает превью, появившиеся на экране.
+   *
+   * @param {IntersectionObserverEntry[]} entries - Изменения видимости.
+   *
+   * @private
+   */
+  private _handleIntersection(entries: IntersectionObserverEntry[]): void {
+    for (const { target, isIntersecting } of entries) {
+      if (!isIntersecting || !(target instanceof HTMLElement)) continue;
+
+      this._observer.unobserve(target);
+      void this._render(target);
+    }
+  }
+
+  /**
+   * Отображает превью ссылки: плеер YouTube, изображение или карточку.
+   * Если у страницы нет данных для превью, место под него убирается.
+   *
+   * @param {HTMLElement} preview - Элемент превью с адресом в `data-url`.
+   * @returns {Promise<void>} Промис, который разрешается после отображения.
+   *
+   * @private
+   */
+  private async _render(preview: HTMLElement): Promise<void> {
+    const url = parseUrl(preview.dataset.url ?? '');
+    if (!url) {
+      preview.remove();
+      return;
+    }
+
+    const youTubeId = getYouTubeId(url);
+    let content: HTMLElement | null;
+
+    if (youTubeId) {
+      content = this._createYouTubePlayer(youTubeId);
+    } else if (IMAGE_URL_PATTERN.test(url.pathname)) {
+      content = this._createImage(url.href, preview);
+    } else {
+      const data = await this._getPreview(url.href);
+      content = data ? this._createCard(data) : null;
+    }
+
+    if (!content) {
+      preview.remove();
+      return;
+    }
+
+    preview.classList.remove('link-preview--loading');
+    preview.replaceChildren(content);
+  }
+
+  /**
+   * Возвращает данные превью из кэша или запрашивает их у сервера.
+   * Неудачный запрос не кэшируется, чтобы повторить его позже.
+   *
+   * @param {string} url - Адрес страницы.
+   * @returns {Promise<ILinkPreview | null>} Превью или `null`.
+   *
+   * @private
+   */
+  private async _getPreview(url: string): Promise<ILinkPreview | null> {
+    let request = this._cache.get(url);
+
+    if (!request) {
+      request = fetchLinkPreview(url).catch(() => {
+        this._cache.delete(url);
+        return null;
+      });
+      this._cache.set(url, request);
+    }
+
+    return request;
+  }
+
+  /**
+   * Создаёт карточку страницы. Страница без заголовка превью не получает.
+   *
+   * @param {ILinkPreview} data - Данные превью.
+   * @returns {HTMLElement | null} Карточка или `null`.
+   *
+   * @private
+   */
+  private _createCard(data: ILinkPreview): HTMLElement | null {
+    const url = parseUrl(data.url);
+    if (!url || !data.title) return null;
+
+    const imageUrl = data.imageUrl ? parseUrl(data.imageUrl) : null;
+
+    return createElement({
+      tag: 'a',
+      className: 'link-preview__card',
+      attrs: {
+        href: url.href,
+        target: '_blank',
+        rel: 'noopener noreferrer',
+      },
+      children: [
+        ...(imageUrl
+          ? [
+              {
+                tag: 'img',
+                className: 'link-preview__card-image',
+                attrs: { src: imageUrl.href, alt: '', loading: 'lazy' },
+              },
+            ]
+          : []),
+        {
+          className: 'link-preview__card-body',
+          children: [
+            {
+              tag: 'span',
+              className: 'link-preview__site',
+              text: data.siteName || url.hostname,
+            },
+            {
+              tag: 'strong',
+              className: 'link-preview__title',
+              text: data.title,
+            },
+            ...(data.description
+              ? [
+                  {
+                    tag: 'p',
+                    className: 'link-preview__description',
+                    text: data.description,
+                  },
+                ]
+              : []),
+          ],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Создаёт встроенный плеер YouTube (без cookies до начала просмотра).
+   *
+   * @param {string} id - Id видео.
+   * @returns {HTMLElement} Плеер.
+   *
+   * @private
+   */
+  private _createYouTubePlayer(id: string): HTMLElement {
+    return createElement({
+      tag: 'iframe',
+      className: 'link-preview__video',
+      attrs: {
+        src: `https://www.youtube-nocookie.com/embed/${id}`,
+        title: 'Видео YouTube',
+        loading: 'lazy',
+        allow: 'encrypted-media; picture-in-picture; fullscreen',
+        referrerpolicy: 'strict-origin-when-cross-origin',
+      },
+    });
+  }
+
+  /**
+   * Создаёт изображение по ссылке. Если изображение не загрузится,
+   * превью убирается.
+   *
+   * @param {string} url - Адрес изображения.
+   * @param {HTMLElement} preview - Элемент превью.
+   * @returns {HTMLElement} Ссылка с изображением.
+   *
+   * @private
+   */
+  private _createImage(url: string, preview: HTMLElement): HTMLElement {
+    const image = createElement({
+      tag: 'img',
+      className: 'link-preview__image',
+      attrs: { src: url, alt: 'Изображение по ссылке', loading: 'lazy' },
+    });
+    image.addEventListener('error', () => preview.remove(), { once: true });
+
+    return createElement({
+      tag: 'a',
+      className: 'link-preview__image-link',
+      attrs: { href: url, target: '_blank', rel: 'noopener noreferrer' },
+      children: [image],
+    });
+  }
+}
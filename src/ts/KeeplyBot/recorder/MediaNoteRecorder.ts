@@ -0,0 +1,470 @@
+import createElement from '../../utils/createElementFunction';
+import { isFileTypeAllowed } from '../../utils/fileHelpers';
+import { IMediaNoteRecorderOptions, RecordingKind } from '../shared/interfaces';
+
+/**
+ * Форматы записи в порядке предпочтения (браузеры поддерживают разные)
+ */
+const MIME_CANDIDATES: Record<RecordingKind, string[]> = {
+  audio: [
+    'audio/webm;codecs=opus',
+    'audio/webm',
+    'audio/ogg;codecs=opus',
+    'audio/mp4',
+  ],
+  video: [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+    'video/mp4',
+  ],
+};
+
+/**
+ * Расширения файлов записи по MIME-типу
+ */
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+/**
+ * Максимальная длительность записи (5 минут): после неё запись
+ * останавливается сама
+ */
+const MAX_DURATION = 5 * 60 * 1000;
+
+/**
+ * Состояние панели записи
+ */
+type RecorderState = 'closed' | 'choosing' | 'recording' | 'preview';
+
+/**
+ * Форматирует длительность записи.
+ *
+ * @param {number} ms - Длительность в миллисекундах.
+ * @returns {string} Строка вида `1:05`.
+ */
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Запись голосовых и видеосообщений из формы чата.
+ *
+ * @description
+ * - Кнопка записи открывает панель выбора: голосовое или видео.
+ * - Во время записи идёт таймер (для видео — изображение с камеры);
+ *   «Стоп» (или повторное нажатие кнопки записи) завершает запись,
+ *   «Отмена» и Esc удаляют её.
+ * - Запись можно прослушать или посмотреть перед тем, как прикрепить.
+ * - Формат записи выбирается из поддерживаемых браузером и разрешённых
+ *   для вложений (`sendAttachments.types`).
+ */
+export default class MediaNoteRecorder {
+  private readonly _options: IMediaNoteRecorderOptions;
+  private readonly _camera = createElement({
+    tag: 'video',
+    className: ['recorder__camera', 'hidden'],
+    attrs: { playsinline: 'true', 'aria-hidden': 'true' },
+  }) as HTMLVideoElement;
+  private readonly _timer = createElement({
+    tag: 'span',
+    className: 'recorder__timer',
+    attrs: { role: 'timer' },
+    text: '0:00',
+  });
+  private readonly _result = createElement({ className: 'recorder__result' });
+  private readonly _choosing = createElement({
+    className: 'recorder__section',
+    children: [
+      this._createButton('start-audio', 'mic', 'Голосовое'),
+      this._createButton('start-video', 'videocam', 'Видео'),
+    ],
+  });
+  private readonly _recording = createElement({
+    className: ['recorder__section', 'hidden'],
+    children: [
+      this._camera,
+      { tag: 'span', className: 'recorder__indicator' },
+      this._timer,
+      this._createButton('cancel', 'delete', 'Отмена'),
+      this._createButton('stop', 'stop', 'Стоп'),
+    ],
+  });
+  private readonly _preview = createElement({
+    className: ['recorder__section', 'hidden'],
+    children: [
+      this._result,
+      this._createButton('discard', 'delete', 'Удалить'),
+      this._createButton('attach', 'attach_file', 'Прикрепить'),
+    ],
+  });
+  private readonly _panel = createElement({
+    className: ['recorder', 'hidden'],
+    attrs: { role: 'group', 'aria-label': 'Запись сообщения' },
+    children: [this._choosing, this._recording, this._preview],
+  });
+  private _state: RecorderState = 'closed';
+  private _recorder: MediaRecorder | null = null;
+  private _stream: MediaStream | null = null;
+  private _chunks: Blob[] = [];
+  private _isCancelled = false;
+  private _timerId: number | null = null;
+  private _file: File | null = null;
+  private _previewUrl: string | null = null;
+
+  /**
+   * Конструктор записи сообщений.
+   *
+   * @param {IMediaNoteRecorderOptions} options - Настройки записи.
+   *
+   * @see {@link IMediaNoteRecorderOptions} - Интерфейс настроек записи
+   */
+  constructor(options: IMediaNoteRecorderOptions) {
+    this._options = options;
+    // Звук с микрофона во время записи не воспроизводится (иначе будет эхо)
+    this._camera.muted = true;
+    options.container.append(this._panel);
+    this._initEventListeners();
+  }
+
+  /**
+   * Закрывает панель; незавершённая или неприкреплённая запись удаляется.
+   *
+   * @public
+   */
+  public close(): void {
+    if (this._state === 'recording') {
+      this._cancel();
+      return;
+    }
+
+    this._clearResult();
+    this._setState('closed');
+  }
+
+  /**
+   * Создаёт кнопку панели.
+   *
+   * @param {string} action - Действие (`data-recorder-action`).
+   * @param {string} icon - Иконка Material Symbols.
+   * @param {string} label - Подпись кнопки.
+   * @returns {HTMLElement} Кнопка.
+   *
+   * @private
+   */
+  private _createButton(
+    action: string,
+    icon: string,
+    label: string
+  ): HTMLElement {
+    return createElement({
+      tag: 'button',
+      className: ['recorder__btn', `recorder__btn--${action}`],
+      attrs: { type: 'button', 'data-recorder-action': action },
+      children: [
+        {
+          tag: 'span',
+          className: 'material-symbols-outlined',
+          attrs: { 'aria-hidden': 'true' },
+          text: icon,
+        },
+        label,
+      ],
+    });
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    const { button } = this._options;
+
+    button.addEventListener('click', () => this._handleButtonClick());
+
+    this._panel.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const action = event.target.closest<HTMLElement>('[data-recorder-action]')
+        ?.dataset.recorderAction;
+
+      switch (action) {
+        case 'start-audio':
+          void this._start('audio');
+          break;
+        case 'start-video':
+          void this._start('video');
+          break;
+        case 'stop':
+          this._recorder?.stop();
+          break;
+        case 'cancel':
+          this._cancel();
+          break;
+        case 'discard':
+          this.close();
+          break;
+        case 'attach':
+          this._attach();
+          break;
+      }
+    });
+
+    // Esc отменяет запись или закрывает панель
+    for (const element of [button, this._panel]) {
+      element.addEventListener('keydown', (event) => {
+        if (event.key !== 'Escape' || this._state === 'closed') return;
+
+        event.preventDefault();
+        event.stopPropagation();
+        this.close();
+        button.focus();
+      });
+    }
+  }
+
+  /**
+   * Обработчик кнопки записи: открывает панель, останавливает запись
+   * или закрывает панель выбора.
+   *
+   * @private
+   */
+  private _handleButtonClick(): void {
+    switch (this._state) {
+      case 'closed':
+        if (!navigator.mediaDevices?.getUserMedia || !window.MediaRecorder) {
+          this._options.onError('Браузер не поддерживает запись');
+          return;
+        }
+        this._setState('choosing');
+        this._choosing.querySelector('button')?.focus();
+        break;
+      case 'recording':
+        this._recorder?.stop();
+        break;
+      default:
+        this.close();
+    }
+  }
+
+  /**
+   * Выбирает формат записи, который поддерживает браузер и принимает сервер.
+   *
+   * @param {RecordingKind} kind - Вид записи.
+   * @returns {string | null} MIME-тип для MediaRecorder или `null`.
+   *
+   * @private
+   */
+  private _pickMimeType(kind: RecordingKind): string | null {
+    const types = this._options.getAllowedTypes();
+
+    return (
+      MIME_CANDIDATES[kind].find((mimeType) => {
+        const [type] = mimeType.split(';');
+        const sample = new File([], `sample.${FILE_EXTENSIONS[type]}`, {
+          type,
+        });
+        return (
+          MediaRecorder.isTypeSupported(mimeType) &&
+          isFileTypeAllowed(sample, types)
+        );
+      }) ?? null
+    );
+  }
+
+  /**
+   * Запрашивает доступ к микрофону (и камере) и начинает запись.
+   *
+   * @param {RecordingKind} kind - Вид записи.
+   * @returns {Promise<void>} Промис, который разрешается после начала записи.
+   *
+   * @private
+   */
+  private async _start(kind: RecordingKind): Promise<void> {
+    const mimeType = this._pickMimeType(kind);
+    if (!mimeType) {
+      this._options.onError(
+        kind === 'audio'
+          ? 'Голосовые сообщения в разрешённом формате не поддерживаются'
+          : 'Видеосообщения в разрешённом формате не поддерживаются'
+      );
+      return;
+    }
+
+    try {
+      this._stream = await navigator.mediaDevices.getUserMedia(
+        kind === 'video'
+          ? { audio: true, video: { facingMode: 'user' } }
+          : { audio: true }
+      );
+    } catch {
+      this._options.onError(
+        kind === 'audio'
+          ? 'Нет доступа к микрофону'
+          : 'Нет доступа к камере или микрофону'
+      );
+      return;
+    }
+
+    const recorder = new MediaRecorder(this._stream, { mimeType });
+    this._recorder = recorder;
+    this._chunks = [];
+    this._isCancelled = false;
+
+    recorder.addEventListener('dataavailable', (event) => {
+      if (event.data.size > 0) this._chunks.push(event.data);
+    });
+    recorder.addEventListener('stop', () => this._handleStop(kind, mimeType));
+    recorder.start(1000);
+
+    this._camera.classList.toggle('hidden', kind !== 'video');
+    if (kind === 'video') {
+      this._camera.srcObject = this._stream;
+      void this._camera.play();
+    }
+
+    this._startTimer();
+    this._setState('recording');
+    this._recording
+      .querySelector<HTMLElement>('[data-recorder-action="stop"]')
+      ?.focus();
+  }
+
+  /**
+   * Отменяет запись: она останавливается без сохранения.
+   *
+   * @private
+   */
+  private _cancel(): void {
+    this._isCancelled = true;
+    this._recorder?.stop();
+  }
+
+  /**
+   * Обрабатывает остановку записи: освобождает камеру и микрофон
+   * и показывает запись для проверки (если она не отменена).
+   *
+   * @param {RecordingKind} kind - Вид записи.
+   * @param {string} mimeType - Формат записи.
+   *
+   * @private
+   */
+  private _handleStop(kind: RecordingKind, mimeType: string): void {
+    this._stopTimer();
+    this._stream?.getTracks().forEach((track) => track.stop());
+    this._stream = null;
+    this._recorder = null;
+    this._camera.srcObject = null;
+
+    const chunks = this._chunks;
+    this._chunks = [];
+
+    if (this._isCancelled || chunks.length === 0) {
+      this._setState('closed');
+      return;
+    }
+
+    const [type] = mimeType.split(';');
+    const stamp = new Date()
+      .toISOString()
+      .slice(0, 19)
+      .replace(/[-:]/g, '')
+      .replace('T', '-');
+    const name = `${kind === 'audio' ? 'voice' : 'video'}-${stamp}.${FILE_EXTENSIONS[type]}`;
+
+    this._file = new File(chunks, name, { type });
+    this._previewUrl = URL.createObjectURL(this._file);
+    this._result.replaceChildren(
+      createElement({
+        tag: kind,
+        className: `recorder__${kind}`,
+        attrs: { src: this._previewUrl, controls: 'true' },
+      })
+    );
+
+    this._setState('preview');
+    this._preview
+      .querySelector<HTMLElement>('[data-recorder-action="attach"]')
+      ?.focus();
+  }
+
+  /**
+   * Передаёт записанный файл для прикрепления и закрывает панель.
+   *
+   * @private
+   */
+  private _attach(): void {
+    if (this._file) this._options.onRecorded(this._file);
+    this.close();
+  }
+
+  /**
+   * Удаляет запись и освобождает её object URL.
+   *
+   * @private
+   */
+  private _clearResult(): void {
+    if (this._previewUrl) URL.revokeObjectURL(this._previewUrl);
+    this._previewUrl = null;
+    this._file = null;
+    this._result.replaceChildren();
+  }
+
+  /**
+   * Запускает таймер записи; по истечении максимальной длительности
+   * запись останавливается.
+   *
+   * @private
+   */
+  private _startTimer(): void {
+    const startedAt = Date.now();
+    this._timer.textContent = formatDuration(0);
+
+    this._timerId = window.setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      this._timer.textContent = formatDuration(elapsed);
+      if (elapsed >= MAX_DURATION) this._recorder?.stop();
+    }, 250);
+  }
+
+  /**
+   * Останавливает таймер записи.
+   *
+   * @private
+   */
+  private _stopTimer(): void {
+    if (this._timerId !== null) window.clearInterval(this._timerId);
+    this._timerId = null;
+  }
+
+  /**
+   * Переключает состояние панели и кнопки записи.
+   *
+   * @param {RecorderState} state - Новое состояние.
+   *
+   * @private
+   */
+  private _setState(state: RecorderState): void {
+    const { button } = this._options;
+    const isRecording = state === 'recording';
+
+    this._state = state;
+    this._panel.classList.toggle('hidden', state === 'closed');
+    this._choosing.classList.toggle('hidden', state !== 'choosing');
+    this._recording.classList.toggle('hidden', !isRecording);
+    this._preview.classList.toggle('hidden', state !== 'preview');
+
+    button.classList.toggle('chat__btn-record--recording', isRecording);
+    button.setAttribute('aria-pressed', String(isRecording));
+    button.setAttribute(
+      'aria-label',
+      isRecording ? 'Остановить запись' : 'Записать голосовое или видео'
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  IReminderSchedulerOptions,
+  IScheduledItem,
+} from '../shared/interfaces';
+
+/**
+ * Максимальная задержка `setTimeout` (мс). Более долгие таймеры
+ * срабатывают сразу, поэтому далёкие элементы планируются по частям.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Планировщик запланированных сообщений и напоминаний.
+ *
+ * @description
+ * - Держит по одному таймеру на элемент и вызывает `onFire`, когда
+ *   наступает время срабатывания; сработавший элемент удаляется.
+ * - Элементы, время которых прошло, пока страница была закрыта,
+ *   срабатывают сразу после передачи в планировщик.
+ * - Таймеры фоновых вкладок и спящего устройства могут опаздывать,
+ *   поэтому при возвращении на вкладку просроченные элементы проверяются заново.
+ *
+ * Сам планировщик ничего не хранит: список элементов после перезагрузки
+ * страницы восстанавливается с сервера или из локального кэша.
+ */
+export default class ReminderScheduler {
+  private readonly _options: IReminderSchedulerOptions;
+  private readonly _items = new Map<string, IScheduledItem>();
+  private readonly _timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * Конструктор планировщика.
+   *
+   * @param {IReminderSchedulerOptions} options - Настройки планировщика.
+   *
+   * @see {@link IReminderSchedulerOptions} - Интерфейс настроек планировщика
+   */
+  constructor(options: IReminderSchedulerOptions) {
+    this._options = options;
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this._fireDueItems();
+    });
+  }
+
+  /**
+   * Запланированные элементы в порядке срабатывания.
+   */
+  get items(): IScheduledItem[] {
+    return [...this._items.values()].sort(
+      (a, b) => new Date(a.fireAt).getTime() - new Date(b.fireAt).getTime()
+    );
+  }
+
+  /**
+   * Заменяет все запланированные элементы.
+   *
+   * @param {IScheduledItem[]} items - Элементы.
+   *
+   * @public
+   */
+  public setItems(items: IScheduledItem[]): void {
+    this._timers.forEach((timer) => clearTimeout(timer));
+    this._timers.clear();
+    this._items.clear();
+
+    items.forEach((item) => this.upsert(item));
+  }
+
+  /**
+   * Добавляет элемент или переносит уже запланированный на новое время.
+   *
+   * @param {IScheduledItem} item - Элемент.
+   *
+   * @public
+   */
+  public upsert(item: IScheduledItem): void {
+    this._items.set(item.id, item);
+    this._schedule(item.id);
+  }
+
+  /**
+   * Отменяет элемент.
+   *
+   * @param {string} id - Идентификатор элемента.
+   *
+   * @public
+   */
+  public remove(id: string): void {
+    const timer = this._timers.get(id);
+    if (timer) clearTimeout(timer);
+
+    this._timers.delete(id);
+    this._items.delete(id);
+  }
+
+  /**
+   * Заводит таймер элемента. Далёкие элементы планируются по частям:
+   * по истечении промежуточного таймера задержка пересчитывается.
+   *
+   * @param {string} id - Идентификатор элемента.
+   *
+   * @private
+   */
+  private _schedule(id: string): void {
+    const previous = this._timers.get(id);
+    if (previous) clearTimeout(previous);
+
+    const item = this._items.get(id);
+    if (!item) return;
+
+    const delay = new Date(item.fireAt).getTime() - Date.now();
+
+    // Просроченный элемент срабатывает в отдельной задаче, чтобы
+    // `onFire` не вызывался посреди `setItems`
+    const timer = setTimeout(
+      () => {
+        this._timers.delete(id);
+        if (new Date(item.fireAt).getTime() > Date.now()) {
+          this._schedule(id);
+        } else {
+          this._fire(id);
+        }
+      },
+      Math.min(Math.max(delay, 0), MAX_TIMER_DELAY)
+    );
+
+    this._timers.set(id, timer);
+  }
+
+  /**
+   * Удаляет элемент и сообщает о его срабатывании.
+   *
+   * @param {string} id - Идентификатор элемента.
+   *
+   * @private
+   */
+  private _fire(id: string): void {
+    const item = this._items.get(id);
+    if (!item) return;
+
+    this.remove(id);
+    this._options.onFire(item);
+  }
+
+  /**
+   * Вызывает все элементы, время которых уже наступило.
+   *
+   * @private
+   */
+  private _fireDueItems(): void {
+    const now = Date.now();
+
+    this.items
+      .filter((item) => new Date(item.fireAt).getTime() <= now)
+      .forEach((item) => this._fire(item.id));
+  }
+}
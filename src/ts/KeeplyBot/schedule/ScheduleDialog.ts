@@ -0,0 +1,231 @@
+import createElement from '../../utils/createElementFunction';
+import Modal from '../../utils/Modal';
+import { IScheduleDialogOptions } from '../shared/interfaces';
+
+/**
+ * Быстрый выбор времени: подпись и функция, вычисляющая время от текущего
+ */
+const SCHEDULE_PRESETS: { label: string; getDate: (now: Date) => Date }[] = [
+  {
+    label: 'Через час',
+    getDate: (now): Date => new Date(now.getTime() + 60 * 60 * 1000),
+  },
+  {
+    label: 'Сегодня в 18:00',
+    getDate: (now): Date =>
+      new Date(now.getFullYear(), now.getMonth(), now.getDate(), 18),
+  },
+  {
+    label: 'Завтра в 9:00',
+    getDate: (now): Date =>
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9),
+  },
+];
+
+/**
+ * Форматирует дату для поля `datetime-local` (локальное время без секунд).
+ *
+ * @param {Date} date - Дата.
+ * @returns {string} Строка вида `2024-05-01T18:30`.
+ */
+const toDateTimeLocalValue = (date: Date): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+/**
+ * Окно выбора времени для запланированного сообщения или напоминания.
+ *
+ * @description
+ * - Предлагает быстрый выбор («Через час», «Завтра в 9:00» и т.д.)
+ *   и поле для произвольных даты и времени.
+ * - Не принимает время в прошлом.
+ * - Закрывается после успешного `onSubmit`; при ошибке показывает её
+ *   в окне и оставляет его открытым.
+ */
+export default class ScheduleDialog {
+  private readonly _options: IScheduleDialogOptions;
+  private readonly _modal: Modal;
+  private readonly _presets = createElement({
+    className: 'schedule-form__presets',
+  });
+  private readonly _input = createElement({
+    tag: 'input',
+    className: 'schedule-form__input',
+    attrs: { type: 'datetime-local', required: 'true' },
+  }) as HTMLInputElement;
+  private readonly _error = createElement({
+    tag: 'p',
+    className: ['schedule-form__error', 'hidden'],
+    attrs: { role: 'alert' },
+  });
+  private readonly _submitButton = createElement({
+    tag: 'button',
+    className: ['btn', 'btn--primary', 'schedule-form__submit'],
+    attrs: { type: 'submit' },
+  }) as HTMLButtonElement;
+  private readonly _form: HTMLFormElement;
+
+  /**
+   * Конструктор окна выбора времени.
+   *
+   * @param {IScheduleDialogOptions} options - Настройки окна.
+   *
+   * @see {@link IScheduleDialogOptions} - Интерфейс настроек окна
+   */
+  constructor(options: IScheduleDialogOptions) {
+    this._options = options;
+    this._submitButton.textContent = options.submitLabel;
+    this._form = this._createForm();
+    this._modal = new Modal({
+      title: options.title,
+      content: this._form,
+      className: 'modal--schedule',
+    });
+
+    this._initEventListeners();
+  }
+
+  /**
+   * Открывает окно.
+   *
+   * @public
+   */
+  public open(): void {
+    const now = new Date();
+    this._input.min = toDateTimeLocalValue(now);
+    this._input.value = toDateTimeLocalValue(
+      this._options.initialDate ?? SCHEDULE_PRESETS[0].getDate(now)
+    );
+    this._renderPresets(now);
+    this._modal.open();
+  }
+
+  /**
+   * Создаёт форму выбора времени.
+   *
+   * @returns {HTMLFormElement} Форма.
+   *
+   * @private
+   */
+  private _createForm(): HTMLFormElement {
+    const { preview } = this._options;
+
+    return createElement({
+      tag: 'form',
+      className: 'schedule-form',
+      attrs: { novalidate: 'true' },
+      children: [
+        ...(preview
+          ? [{ tag: 'p', className: 'schedule-form__preview', text: preview }]
+          : []),
+        this._presets,
+        {
+          tag: 'label',
+          className: 'schedule-form__label',
+          children: ['Дата и время', this._input],
+        },
+        this._error,
+        this._submitButton,
+      ],
+    }) as HTMLFormElement;
+  }
+
+  /**
+   * Отображает кнопки быстрого выбора, время которых ещё не прошло.
+   *
+   * @param {Date} now - Текущее время.
+   *
+   * @private
+   */
+  private _renderPresets(now: Date): void {
+    this._presets.replaceChildren(
+      ...SCHEDULE_PRESETS.map(({ label, getDate }) => ({
+        label,
+        date: getDate(now),
+      }))
+        .filter(({ date }) => date.getTime() > now.getTime())
+        .map(({ label, date }) =>
+          createElement({
+            tag: 'button',
+            className: 'schedule-form__preset',
+            attrs: { type: 'button', 'data-value': toDateTimeLocalValue(date) },
+            text: label,
+          })
+        )
+    );
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._presets.addEventListener('click', (event) => {
+      if (!(event.target instanceof Element)) return;
+      const preset = event.target.closest<HTMLElement>(
+        '.schedule-form__preset'
+      );
+      if (!preset?.dataset.value) return;
+
+      this._input.value = preset.dataset.value;
+      this._setError(null);
+    });
+
+    this._input.addEventListener('input', () => this._setError(null));
+
+    this._form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      void this._submit();
+    });
+  }
+
+  /**
+   * Проверяет выбранное время и передаёт его в `onSubmit`.
+   *
+   * @returns {Promise<void>} Промис, который разрешается после обработки.
+   *
+   * @private
+   */
+  private async _submit(): Promise<void> {
+    // Поле `datetime-local` содержит локальное время без часового пояса,
+    // и конструктор Date разбирает его как локальное
+    const date = new Date(this._input.value);
+
+    if (Number.isNaN(date.getTime())) {
+      this._setError('Укажите дату и время');
+      return;
+    }
+    if (date.getTime() <= Date.now()) {
+      this._setError('Время уже прошло — выберите время в будущем');
+      return;
+    }
+
+    this._submitButton.disabled = true;
+    try {
+      await this._options.onSubmit(date);
+      this._modal.close();
+    } catch {
+      this._setError('Не удалось сохранить. Попробуйте позже.');
+    } finally {
+      this._submitButton.disabled = false;
+    }
+  }
+
+  /**
+   * Показывает или скрывает текст ошибки.
+   *
+   * @param {string | null} message - Текст ошибки; `null` — скрыть.
+   *
+   * @private
+   */
+  private _setError(message: string | null): void {
+    this._error.textContent = message ?? '';
+    this._error.classList.toggle('hidden', !message);
+  }
+}
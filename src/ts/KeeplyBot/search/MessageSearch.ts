@@ -0,0 +1,312 @@
+import debounce from '../../utils/debounce';
+import highlightText, { getSearchTerms } from '../../utils/highlightText';
+import { IDebouncedFunction } from '../../shared/interfaces';
+import { searchMessages } from '../api/api';
+import { IMessageSearchOptions, IUserMessageCard } from '../shared/interfaces';
+
+/**
+ * Задержка перед отправкой поискового запроса после ввода (мс)
+ */
+const SEARCH_DEBOUNCE_DELAY = 300;
+
+/**
+ * Поиск сообщений, привязанный к полю поиска в шапке.
+ *
+ * @description
+ * - Отправляет запрос на сервер с задержкой после ввода; без сети или при
+ *   ошибке сервера ищет среди уже загруженных сообщений.
+ * - Подсвечивает совпадения внутри `.chat__message-text`.
+ * - Enter / Shift+Enter и кнопки навигации переключают найденные сообщения.
+ * - Esc сбрасывает поиск и возвращает обычную ленту.
+ */
+export default class MessageSearch {
+  private readonly _options: IMessageSearchOptions;
+  private readonly _form: HTMLFormElement | null;
+  private readonly _nav: HTMLElement | null;
+  private readonly _counter: HTMLElement | null;
+  private readonly _prevButton: HTMLButtonElement | null;
+  private readonly _nextButton: HTMLButtonElement | null;
+  private readonly _debouncedSearch: IDebouncedFunction<[string]>;
+  private _controller: AbortController | null = null;
+  private _hitIds: string[] = [];
+  private _currentHit = -1;
+  private _isActive = false;
+
+  /**
+   * Конструктор поиска сообщений.
+   *
+   * @param {IMessageSearchOptions} options - Настройки поиска.
+   *
+   * @see {@link IMessageSearchOptions} - Интерфейс настроек поиска
+   */
+  constructor(options: IMessageSearchOptions) {
+    this._options = options;
+    this._form = options.input.closest('form');
+    this._nav = this._form?.querySelector('.header__search-nav') ?? null;
+    this._counter =
+      this._form?.querySelector('.header__search-counter') ?? null;
+    this._prevButton =
+      this._form?.querySelector('.header__search-prev') ?? null;
+    this._nextButton =
+      this._form?.querySelector('.header__search-next') ?? null;
+    this._debouncedSearch = debounce((query: string) => {
+      void this._search(query);
+    }, SEARCH_DEBOUNCE_DELAY);
+
+    this._initEventListeners();
+  }
+
+  /**
+   * Активен ли поиск (лента показывает результаты поиска).
+   */
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  /**
+   * Сбрасывает поиск: очищает поле, отменяет запрос и восстанавливает ленту.
+   *
+   * @public
+   */
+  public clear(): void {
+    this._debouncedSearch.cancel();
+    this._controller?.abort();
+    this._controller = null;
+    this._options.input.value = '';
+    this._hitIds = [];
+    this._currentHit = -1;
+    this._nav?.classList.add('hidden');
+    this._removeHighlights();
+
+    if (this._isActive) {
+      this._isActive = false;
+      this._options.onClear();
+    }
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._options.input.addEventListener('input', this._handleInput);
+    this._options.input.addEventListener('keydown', this._handleKeydown);
+    this._form?.addEventListener('submit', (event) => event.preventDefault());
+    this._prevButton?.addEventListener('click', () => this._step(-1));
+    this._nextButton?.addEventListener('click', () => this._step(1));
+  }
+
+  /**
+   * Обрабатывает ввод в поле поиска: планирует поиск или сбрасывает его,
+   * если поле очищено.
+   *
+   * @private
+   */
+  private _handleInput = (): void => {
+    const query = this._options.input.value.trim();
+    if (query) {
+      this._debouncedSearch(query);
+    } else {
+      this.clear();
+    }
+  };
+
+  /**
+   * Обрабатывает нажатия клавиш в поле поиска.
+   *
+   * @description
+   * - Enter — к предыдущему (более старому) совпадению.
+   * - Shift+Enter — к следующему (более новому) совпадению.
+   * - Esc — сброс поиска.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   *
+   * @private
+   */
+  private _handleKeydown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.clear();
+      this._options.input.blur();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      this._step(event.shiftKey ? 1 : -1);
+    }
+  };
+
+  /**
+   * Выполняет поиск и отображает результаты с подсветкой совпадений.
+   * Ответы на устаревшие запросы отбрасываются.
+   *
+   * @param {string} query - Поисковый запрос.
+   * @returns {Promise<void>} Промис, который разрешается после отображения результатов.
+   *
+   * @private
+   */
+  private async _search(query: string): Promise<void> {
+    this._controller?.abort();
+    const controller = new AbortController();
+    this._controller = controller;
+
+    const results = await this._fetchResults(query, controller.signal);
+    if (controller.signal.aborted) return;
+
+    this._controller = null;
+    this._isActive = true;
+    this._options.onResults(results);
+    this._highlight(query);
+  }
+
+  /**
+   * Запрашивает результаты поиска у сервера. Без сети или при ошибке
+   * сервера ищет среди загруженных сообщений.
+   *
+   * @param {string} query - Поисковый запрос.
+   * @param {AbortSignal} signal - Сигнал отмены запроса.
+   * @returns {Promise<IUserMessageCard[]>} Найденные сообщения.
+   *
+   * @private
+   */
+  private async _fetchResults(
+    query: string,
+    signal: AbortSignal
+  ): Promise<IUserMessageCard[]> {
+    if (!navigator.onLine) return this._filterLoadedMessages(query);
+
+    try {
+      return await searchMessages(query, signal);
+    } catch {
+      return this._filterLoadedMessages(query);
+    }
+  }
+
+  /**
+   * Ищет среди загруженных сообщений те, что содержат все слова запроса
+   * в тексте или в названиях файлов.
+   *
+   * @param {string} query - Поисковый запрос.
+   * @returns {IUserMessageCard[]} Найденные сообщения.
+   *
+   * @private
+   */
+  private _filterLoadedMessages(query: string): IUserMessageCard[] {
+    const terms = getSearchTerms(query);
+
+    return this._options.getLoadedMessages().filter((msg) => {
+      const haystack = [
+        msg.message,
+        ...(msg.files ?? []).map((file) => file.originalname),
+      ]
+        .join(' ')
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    });
+  }
+
+  /**
+   * Подсвечивает совпадения в тексте отображённых сообщений и переходит
+   * к самому новому из найденных.
+   *
+   * @param {string} query - Поисковый запрос.
+   *
+   * @private
+   */
+  private _highlight(query: string): void {
+    this._removeHighlights();
+
+    const items = this._options.feed.querySelectorAll<HTMLElement>(
+      '.chat__message-item'
+    );
+
+    this._hitIds = [];
+    items.forEach((item) => {
+      const text = item.querySelector<HTMLElement>('.chat__message-text');
+      const marks = text
+        ? highlightText(text, query, 'chat__message-highlight')
+        : [];
+      if (marks.length > 0) this._hitIds.push(item.id);
+    });
+
+    this._nav?.classList.remove('hidden');
+    this._goToHit(this._hitIds.length - 1);
+  }
+
+  /**
+   * Убирает подсветку совпадений и выделение текущего сообщения.
+   * Лента перерисовывается только частично, поэтому элементы сообщений
+   * могут пережить смену запроса вместе со старой подсветкой.
+   *
+   * @private
+   */
+  private _removeHighlights(): void {
+    const { feed } = this._options;
+
+    feed.querySelectorAll('.chat__message-highlight').forEach((mark) => {
+      const parent = mark.parentNode;
+      mark.replaceWith(document.createTextNode(mark.textContent ?? ''));
+      parent?.normalize();
+    });
+
+    feed
+      .querySelectorAll('.chat__message-item--current')
+      .forEach((item) => item.classList.remove('chat__message-item--current'));
+  }
+
+  /**
+   * Переходит к соседнему совпадению по кругу.
+   *
+   * @param {number} direction - `-1` — к более старому, `1` — к более новому.
+   *
+   * @private
+   */
+  private _step(direction: number): void {
+    const total = this._hitIds.length;
+    if (total === 0) return;
+    this._goToHit((this._currentHit + direction + total) % total);
+  }
+
+  /**
+   * Прокручивает ленту к найденному сообщению по его id и выделяет его.
+   *
+   * @param {number} index - Индекс совпадения.
+   *
+   * @private
+   */
+  private _goToHit(index: number): void {
+    const previousId = this._hitIds[this._currentHit];
+    if (previousId) {
+      document
+        .getElementById(previousId)
+        ?.classList.remove('chat__message-item--current');
+    }
+
+    this._currentHit = index;
+    const id = this._hitIds[index];
+    const item = id ? document.getElementById(id) : null;
+
+    if (item) {
+      item.classList.add('chat__message-item--current');
+      item.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+
+    this._updateCounter();
+  }
+
+  /**
+   * Обновляет счётчик совпадений и доступность кнопок навигации.
+   *
+   * @private
+   */
+  private _updateCounter(): void {
+    const total = this._hitIds.length;
+    const isNavigable = total > 1;
+
+    if (this._counter) {
+      this._counter.textContent =
+        total > 0 ? `${this._currentHit + 1} / ${total}` : 'Нет совпадений';
+    }
+    if (this._prevButton) this._prevButton.disabled = !isNavigable;
+    if (this._nextButton) this._nextButton.disabled = !isNavigable;
+  }
+}
@@ -35,6 +35,14 @@ export interface IMessageFile {
   url: string;
 }
 
+/**
+ * Интерфейс для файла вместе с данными сообщения, к которому он прикреплён
+ */
+export interface IMessageAttachment extends IMessageFile {
+  messageId: string;
+  timestamp: string;
+}
+
 /**
  * Интерфейс для карточек сообщений, отображаемых в чате
  */
@@ -43,6 +51,262 @@ export interface IUserMessageCard {
   message: string;
   files: IMessageFile[];
   timestamp: string;
+
+  /**
+   * Отмечено ли сообщение как избранное
+   */
+  isFavorite?: boolean;
+
+  /**
+   * Время последнего изменения текста; отсутствует, если сообщение не изменялось
+   */
+  editedAt?: string;
+
+  /**
+   * Закреплено ли сообщение в панели над лентой
+   */
+  pinned?: boolean;
+
+  /**
+   * Автор сообщения; отсутствует у сообщений пользователя из старой истории
+   */
+  sender?: MessageSender;
+
+  /**
+   * Интерактивные элементы сообщения бота: быстрые ответы, карточки и кнопки
+   */
+  payload?: IBotPayload;
+
+  /**
+   * Локальное сообщение (ответ локальной команды), которое не хранится на сервере
+   */
+  isLocal?: boolean;
+
+  /**
+   * Место, где было написано сообщение; отсутствует, если отметка
+   * местоположения была выключена
+   */
+  location?: IMessageLocation;
+
+  /**
+   * Идентификатор, присвоенный сообщению на клиенте при отправке;
+   * сервер возвращает его без изменений
+   */
+  clientId?: string;
+}
+
+/**
+ * Интерфейс координат, которыми отмечено сообщение
+ */
+export interface IMessageLocation {
+  /**
+   * Широта в градусах (от -90 до 90)
+   */
+  latitude: number;
+
+  /**
+   * Долгота в градусах (от -180 до 180)
+   */
+  longitude: number;
+
+  /**
+   * Точность в метрах; отсутствует у координат, введённых вручную
+   */
+  accuracy?: number;
+}
+
+/**
+ * Автор сообщения:
+ * - `user` — пользователь
+ * - `bot` — бот (ответы на команды и вопросы)
+ * - `system` — служебное уведомление (напоминания, события чата)
+ */
+export type MessageSender = 'user' | 'bot' | 'system';
+
+/**
+ * Интерфейс интерактивных элементов сообщения бота
+ */
+export interface IBotPayload {
+  /**
+   * Быстрые ответы: по клику текст отправляется как сообщение пользователя
+   */
+  quickReplies?: IQuickReply[];
+
+  /**
+   * Карточки с заголовком, изображением и ссылкой
+   */
+  cards?: IBotCard[];
+
+  /**
+   * Встроенная клавиатура: ряды кнопок под сообщением
+   */
+  keyboard?: IInlineButton[][];
+}
+
+/**
+ * Интерфейс быстрого ответа
+ */
+export interface IQuickReply {
+  label: string;
+
+  /**
+   * Отправляемый текст; по умолчанию совпадает с подписью
+   */
+  value?: string;
+}
+
+/**
+ * Интерфейс карточки в сообщении бота
+ */
+export interface IBotCard {
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  url?: string;
+}
+
+/**
+ * Интерфейс кнопки встроенной клавиатуры.
+ * Кнопка со ссылкой открывает её, остальные отправляют боту `data`.
+ */
+export interface IInlineButton {
+  label: string;
+  data?: string;
+  url?: string;
+}
+
+/**
+ * Интерфейс страницы сообщений, полученной с сервера
+ */
+export interface IMessagesPage {
+  /**
+   * Сообщения страницы в порядке возрастания времени
+   */
+  messages: IUserMessageCard[];
+
+  /**
+   * Курсор для загрузки более старых сообщений; `null`, если история загружена полностью
+   */
+  nextCursor: string | null;
+}
+
+// =============================================================================
+// Интерфейсы для отправки сообщений
+// =============================================================================
+
+/**
+ * Интерфейс прогресса загрузки одного файла
+ */
+export interface IFileUploadProgress {
+  name: string;
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Интерфейс прогресса отправки сообщения
+ */
+export interface IUploadProgress {
+  /**
+   * Отправлено байт всего запроса
+   */
+  loaded: number;
+
+  /**
+   * Размер всего запроса в байтах
+   */
+  total: number;
+
+  /**
+   * Прогресс каждого файла в порядке отправки
+   */
+  files: IFileUploadProgress[];
+}
+
+/**
+ * Интерфейс дополнительных настроек отправки сообщения
+ */
+export interface ISendMessageOptions {
+  /**
+   * Вызывается по мере загрузки тела запроса
+   */
+  onProgress?: (progress: IUploadProgress) => void;
+
+  /**
+   * Сигнал для отмены отправки
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Координаты, которыми отмечено сообщение
+   */
+  location?: IMessageLocation;
+
+  /**
+   * Идентификатор сообщения на клиенте: по нему сервер отбрасывает
+   * повторную отправку того же сообщения
+   */
+  clientId?: string;
+}
+
+/**
+ * Состояние отправляемого сообщения:
+ * - `uploading` — отправляется
+ * - `queued` — нет сети, сообщение ждёт в очереди
+ * - `failed` — сервер отклонил сообщение
+ */
+export type PendingState = 'uploading' | 'queued' | 'failed';
+
+/**
+ * Интерфейс сообщения в очереди на отправку (outbox), хранящегося в IndexedDB
+ */
+export interface IOutboxEntry {
+  id: number;
+  message: string;
+  files: File[];
+  timestamp: string;
+  location?: IMessageLocation;
+
+  /**
+   * Идентификатор сообщения на клиенте (нет у записей, сохранённых
+   * прежними версиями приложения)
+   */
+  clientId?: string;
+}
+
+/**
+ * Интерфейс сообщения, которое отправляется или не было отправлено
+ */
+export interface IPendingMessage {
+  /**
+   * Временный идентификатор (совпадает с id элемента в ленте)
+   */
+  id: string;
+  message: string;
+  files: File[];
+  timestamp: string;
+  location?: IMessageLocation;
+
+  /**
+   * Идентификатор сообщения на клиенте; передаётся серверу при каждой
+   * попытке отправки, чтобы повторы не создавали дубликаты
+   */
+  clientId: string;
+
+  /**
+   * Контроллер для отмены текущей отправки
+   */
+  controller: AbortController | null;
+
+  /**
+   * Текущее состояние отправки
+   */
+  state: PendingState;
+
+  /**
+   * Идентификатор записи в очереди на отправку, если сообщение в неё попало
+   */
+  outboxId: number | null;
 }
 
 // =============================================================================
@@ -68,6 +332,12 @@ export interface ICapabilitiesElementSettings {
 export interface IMessagingCapabilities {
   sendText: ICapabilitiesElementSettings;
   sendAttachments: ICapabilitiesElementSettings;
+
+  /**
+   * Запись голосовых и видеосообщений; без этой настройки кнопка
+   * записи недоступна
+   */
+  sendVoice?: ICapabilitiesElementSettings;
 }
 
 /**
@@ -89,6 +359,9 @@ export interface IUiCapabilities {
   buttonFavorites: ICapabilitiesElementSettings;
   buttonAttachments: ICapabilitiesElementSettings;
   buttonSettings: ICapabilitiesElementSettings;
+  pinMessages: ICapabilitiesElementSettings;
+  buttonSchedule: ICapabilitiesElementSettings;
+  buttonTags: ICapabilitiesElementSettings;
 }
 
 /**
@@ -98,4 +371,528 @@ export interface IBotCapabilities {
   messaging: IMessagingCapabilities;
   search: ISearchCapabilities;
   ui: IUiCapabilities;
+
+  /**
+   * Команды, которые сервер предлагает пользователю
+   */
+  commands?: ICommandCapability[];
+}
+
+/**
+ * Интерфейс описания команды бота в capabilities
+ */
+export interface ICommandCapability {
+  name: string;
+  description: string;
+
+  /**
+   * Схема аргументов; если не задана, используется схема встроенной команды
+   */
+  args?: ICommandArgument[];
+}
+
+// =============================================================================
+// Интерфейсы для канала обновлений в реальном времени
+// =============================================================================
+
+/**
+ * Состояние подключения к каналу обновлений:
+ * - `connecting` — идёт установка соединения
+ * - `online` — подключено через WebSocket
+ * - `polling` — WebSocket недоступен, используется long-polling
+ * - `offline` — соединение потеряно, ожидается переподключение
+ */
+export type RealtimeStatus = 'connecting' | 'online' | 'polling' | 'offline';
+
+/**
+ * Событие канала обновлений: новое, изменённое или удалённое сообщение
+ */
+export type RealtimeEvent =
+  | { type: 'created'; message: IUserMessageCard }
+  | { type: 'updated'; message: IUserMessageCard }
+  | { type: 'deleted'; id: string };
+
+/**
+ * Интерфейс ответа сервера на запрос long-polling
+ */
+export interface IRealtimeUpdates {
+  /**
+   * События, произошедшие после переданного курсора
+   */
+  events: RealtimeEvent[];
+
+  /**
+   * Курсор, который нужно передать в следующем запросе
+   */
+  cursor: string | null;
+}
+
+/**
+ * Интерфейс обработчиков канала обновлений
+ */
+export interface IRealtimeHandlers {
+  /**
+   * Вызывается при получении события от сервера
+   */
+  onEvent: (event: RealtimeEvent) => void;
+
+  /**
+   * Вызывается при изменении состояния подключения
+   */
+  onStatusChange?: (status: RealtimeStatus) => void;
+
+  /**
+   * Вызывается после восстановления соединения: события, пришедшие
+   * во время разрыва, не доставляются, и ленту нужно сверить с сервером
+   */
+  onResync?: () => void;
+}
+
+/**
+ * Интерфейс настроек канала обновлений
+ */
+export interface IRealtimeChannelOptions extends IRealtimeHandlers {
+  /**
+   * URL-адрес WebSocket-сервера
+   */
+  socketUrl: string;
+
+  /**
+   * Функция получения обновлений через long-polling
+   */
+  fetchUpdates: (
+    cursor: string | null,
+    signal?: AbortSignal
+  ) => Promise<IRealtimeUpdates>;
+}
+
+// =============================================================================
+// Интерфейсы для поиска сообщений
+// =============================================================================
+
+/**
+ * Интерфейс настроек поиска сообщений
+ */
+export interface IMessageSearchOptions {
+  /**
+   * Поле ввода поискового запроса
+   */
+  input: HTMLInputElement;
+
+  /**
+   * Контейнер ленты, в котором подсвечиваются совпадения
+   */
+  feed: HTMLElement;
+
+  /**
+   * Возвращает сообщения, уже загруженные в ленту (для поиска без сети)
+   */
+  getLoadedMessages: () => IUserMessageCard[];
+
+  /**
+   * Отображает найденные сообщения в ленте
+   */
+  onResults: (messages: IUserMessageCard[]) => void;
+
+  /**
+   * Восстанавливает обычную ленту после сброса поиска
+   */
+  onClear: () => void;
+}
+
+// =============================================================================
+// Интерфейсы для галереи вложений
+// =============================================================================
+
+/**
+ * Интерфейс настроек просмотрщика изображений
+ */
+export interface IImageLightboxOptions {
+  /**
+   * Возвращает изображения всей переписки в порядке ленты
+   * (стрелки переключают между ними)
+   */
+  getImages: () => IMessageFile[];
+}
+
+/**
+ * Интерфейс настроек галереи вложений
+ */
+export interface IAttachmentsGalleryOptions {
+  /**
+   * Вложения из всех сообщений
+   */
+  attachments: IMessageAttachment[];
+
+  /**
+   * Вызывается при нажатии «Показать в чате»
+   */
+  onShowInChat: (messageId: string) => void;
+}
+
+// =============================================================================
+// Интерфейсы для панели закреплённых сообщений
+// =============================================================================
+
+/**
+ * Интерфейс настроек панели закреплённых сообщений
+ */
+export interface IPinnedBarOptions {
+  /**
+   * Вызывается при клике по закреплённому сообщению
+   */
+  onSelect: (id: string) => void;
+}
+
+// =============================================================================
+// Интерфейсы для команд бота
+// =============================================================================
+
+/**
+ * Интерфейс аргумента команды бота
+ */
+export interface ICommandArgument {
+  name: string;
+  description: string;
+
+  /**
+   * Обязателен ли аргумент
+   */
+  isRequired?: boolean;
+
+  /**
+   * Аргумент забирает весь оставшийся текст (например, текст напоминания)
+   */
+  isRest?: boolean;
+}
+
+/**
+ * Интерфейс команды бота
+ */
+export interface IBotCommand {
+  /**
+   * Имя команды без `/`
+   */
+  name: string;
+  description: string;
+
+  /**
+   * Схема аргументов в порядке их следования
+   */
+  args: ICommandArgument[];
+
+  /**
+   * Обработчик локальной команды; возвращает текст ответа бота.
+   * Команды без обработчика выполняются на сервере.
+   */
+  handler?: (
+    args: Record<string, string>,
+    context: ICommandContext
+  ) => string | Promise<string>;
+}
+
+/**
+ * Интерфейс окружения, доступного локальным командам
+ */
+export interface ICommandContext {
+  /**
+   * Возвращает сообщения, загруженные в ленту
+   */
+  getMessages: () => IUserMessageCard[];
+
+  /**
+   * Возвращает доступные команды
+   */
+  getCommands: () => IBotCommand[];
+
+  /**
+   * Очищает ленту на экране
+   */
+  clearFeed: () => void;
+}
+
+/**
+ * Интерфейс разобранного текста команды
+ */
+export interface IParsedCommand {
+  /**
+   * Имя команды без `/`
+   */
+  name: string;
+
+  /**
+   * Текст после имени команды
+   */
+  input: string;
+}
+
+/**
+ * Интерфейс настроек списка подсказок команд
+ */
+export interface ICommandSuggestionsOptions {
+  /**
+   * Поле ввода сообщения
+   */
+  textarea: HTMLTextAreaElement;
+
+  /**
+   * Возвращает команды, доступные для подсказки
+   */
+  getCommands: () => IBotCommand[];
+}
+
+/**
+ * Результат выполнения команды:
+ * - `local` — текст ответа локальной команды
+ * - `server` — сообщения, созданные сервером (команда и ответ бота)
+ */
+export type CommandResult =
+  | { type: 'local'; text: string }
+  | { type: 'server'; messages: IUserMessageCard[] };
+
+// =============================================================================
+// Интерфейсы для запланированных сообщений и напоминаний
+// =============================================================================
+
+/**
+ * Вид запланированного элемента:
+ * - `message` — сообщение, которое будет отправлено в указанное время
+ * - `reminder` — напоминание о тексте или о сообщении из ленты
+ */
+export type ScheduledKind = 'message' | 'reminder';
+
+/**
+ * Интерфейс данных для создания запланированного элемента
+ */
+export interface IScheduledItemDraft {
+  kind: ScheduledKind;
+  message: string;
+
+  /**
+   * Время срабатывания (ISO 8601)
+   */
+  fireAt: string;
+
+  /**
+   * Сообщение из ленты, о котором нужно напомнить
+   */
+  messageId?: string;
+}
+
+/**
+ * Интерфейс запланированного элемента, сохранённого на сервере
+ */
+export interface IScheduledItem extends IScheduledItemDraft {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Интерфейс настроек планировщика напоминаний
+ */
+export interface IReminderSchedulerOptions {
+  /**
+   * Вызывается, когда наступает время срабатывания элемента
+   * (в том числе для элементов, время которых прошло, пока страница была закрыта)
+   */
+  onFire: (item: IScheduledItem) => void;
+}
+
+/**
+ * Интерфейс настроек окна выбора времени
+ */
+export interface IScheduleDialogOptions {
+  title: string;
+
+  /**
+   * Подпись кнопки подтверждения
+   */
+  submitLabel: string;
+
+  /**
+   * Текст, который планируется (показывается над выбором времени)
+   */
+  preview?: string;
+
+  /**
+   * Время, выбранное при открытии окна
+   */
+  initialDate?: Date;
+
+  /**
+   * Вызывается с выбранным временем; окно закрывается после успешного
+   * завершения промиса
+   */
+  onSubmit: (date: Date) => Promise<void>;
+}
+
+// =============================================================================
+// Интерфейсы для тегов
+// =============================================================================
+
+/**
+ * Интерфейс тега с количеством сообщений, в которых он встречается
+ */
+export interface ITagCount {
+  /**
+   * Тег без `#` в нижнем регистре
+   */
+  tag: string;
+  count: number;
+}
+
+/**
+ * Интерфейс настроек фильтра ленты по тегу
+ */
+export interface ITagFilterOptions {
+  /**
+   * Возвращает сообщения, уже загруженные в ленту (для фильтра без сети)
+   */
+  getLoadedMessages: () => IUserMessageCard[];
+
+  /**
+   * Отображает сообщения с выбранным тегом в ленте
+   */
+  onResults: (messages: IUserMessageCard[]) => void;
+
+  /**
+   * Восстанавливает обычную ленту после сброса фильтра
+   */
+  onClear: () => void;
+}
+
+// =============================================================================
+// Интерфейсы для форматирования сообщений
+// =============================================================================
+
+/**
+ * Интерфейс правил подсветки синтаксиса языка (источники RegExp без флагов)
+ */
+export interface ILanguageRules {
+  comments: string[];
+  strings: string[];
+  keywords: string[];
+  literals: string[];
+}
+
+/**
+ * Интерфейс настроек отображения Markdown
+ */
+export interface IMarkdownOptions {
+  /**
+   * Можно ли отмечать пункты списка задач (для чужих и локальных
+   * сообщений чекбоксы только показывают состояние)
+   */
+  isTaskEditable: boolean;
+}
+
+/**
+ * Вид форматирования текста в поле ввода сообщения
+ */
+export type TextFormat =
+  | 'bold'
+  | 'italic'
+  | 'code'
+  | 'code-block'
+  | 'list'
+  | 'task'
+  | 'quote';
+
+/**
+ * Интерфейс настроек панели форматирования
+ */
+export interface IFormattingToolbarOptions {
+  /**
+   * Поле ввода сообщения
+   */
+  textarea: HTMLTextAreaElement;
+
+  /**
+   * Контейнер для кнопок панели
+   */
+  toolbar: HTMLElement;
+}
+
+// =============================================================================
+// Интерфейсы для превью ссылок
+// =============================================================================
+
+/**
+ * Интерфейс превью страницы по данным OpenGraph, полученным сервером
+ */
+export interface ILinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  siteName?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Интерфейс настроек превью ссылок
+ */
+export interface ILinkPreviewsOptions {
+  /**
+   * Прокручиваемая лента: превью загружаются, когда сообщение
+   * появляется в ней на экране
+   */
+  root: HTMLElement | null;
+}
+
+// =============================================================================
+// Интерфейсы для записи голосовых и видеосообщений
+// =============================================================================
+
+/**
+ * Вид записи: голосовое или видеосообщение
+ */
+export type RecordingKind = 'audio' | 'video';
+
+/**
+ * Интерфейс настроек записи голосовых и видеосообщений
+ */
+export interface IMediaNoteRecorderOptions {
+  /**
+   * Кнопка записи в форме сообщения
+   */
+  button: HTMLButtonElement;
+
+  /**
+   * Элемент, в который добавляется панель записи
+   */
+  container: HTMLElement;
+
+  /**
+   * Возвращает допустимые типы вложений (в формате атрибута `accept`)
+   */
+  getAllowedTypes: () => string[];
+
+  /**
+   * Вызывается, когда пользователь прикрепляет записанный файл
+   */
+  onRecorded: (file: File) => void;
+
+  /**
+   * Вызывается при ошибке (нет доступа к микрофону, формат не поддерживается)
+   */
+  onError: (message: string) => void;
+}
+
+// =============================================================================
+// Интерфейсы для ленты сообщений
+// =============================================================================
+
+/**
+ * Интерфейс настроек кнопки перехода к дате
+ */
+export interface IJumpToDateOptions {
+  /**
+   * Прокручиваемый контейнер ленты; кнопка добавляется в него
+   */
+  feed: HTMLElement;
+
+  /**
+   * Вызывается с началом (полуночью) выбранного дня
+   */
+  onSelect: (date: Date) => void;
 }
@@ -0,0 +1,279 @@
+import { ICreateElementOptions } from '../../shared/interfaces';
+import { FileCategory } from '../../shared/type';
+import createElement from '../../utils/createElementFunction';
+import { formatFileSize, getFileCategory } from '../../utils/fileHelpers';
+import { SERVER_URL } from '../api/api';
+import {
+  IAttachmentsGalleryOptions,
+  IMessageAttachment,
+} from '../shared/interfaces';
+
+/**
+ * Вкладки галереи: категория файлов и её подпись
+ */
+const GALLERY_TABS: { category: FileCategory; label: string }[] = [
+  { category: 'image', label: 'Фото' },
+  { category: 'video', label: 'Видео' },
+  { category: 'audio', label: 'Аудио' },
+  { category: 'document', label: 'Документы' },
+];
+
+/**
+ * Иконки (Material Symbols) для файлов без изображения-миниатюры
+ */
+const CATEGORY_ICONS: Record<FileCategory, string> = {
+  image: 'image',
+  video: 'movie',
+  audio: 'music_note',
+  document: 'description',
+};
+
+/**
+ * Галерея вложений для боковой панели.
+ *
+ * Группирует файлы из всех сообщений по типу (фото, видео, аудио, документы)
+ * и показывает их на отдельных вкладках с миниатюрой, размером, датой,
+ * ссылкой на скачивание и переходом к исходному сообщению.
+ */
+export default class AttachmentsGallery {
+  private readonly _options: IAttachmentsGalleryOptions;
+  private readonly _groups: Record<FileCategory, IMessageAttachment[]>;
+  private _activeCategory: FileCategory;
+  private _element: HTMLElement | null = null;
+
+  /**
+   * Конструктор галереи вложений.
+   *
+   * @param {IAttachmentsGalleryOptions} options - Настройки галереи.
+   *
+   * @see {@link IAttachmentsGalleryOptions} - Интерфейс настроек галереи
+   */
+  constructor(options: IAttachmentsGalleryOptions) {
+    this._options = options;
+    this._groups = { image: [], video: [], audio: [], document: [] };
+
+    // Новые вложения — вверху списка
+    for (const attachment of [...options.attachments].reverse()) {
+      this._groups[getFileCategory(attachment.mimetype)].push(attachment);
+    }
+
+    // По умолчанию открывается первая непустая вкладка
+    this._activeCategory =
+      GALLERY_TABS.find(({ category }) => this._groups[category].length > 0)
+        ?.category ?? 'image';
+  }
+
+  /**
+   * Создаёт DOM-элемент галереи.
+   *
+   * @returns {HTMLElement | null} Галерея или `null`, если вложений нет.
+   *
+   * @public
+   */
+  public render(): HTMLElement | null {
+    if (this._options.attachments.length === 0) return null;
+
+    this._element = createElement({ className: 'gallery' });
+    this._renderContent();
+    return this._element;
+  }
+
+  /**
+   * Перерисовывает вкладки и список файлов активной вкладки.
+   *
+   * @private
+   */
+  private _renderContent(): void {
+    if (!this._element) return;
+
+    const items = this._groups[this._activeCategory];
+    this._element.replaceChildren(
+      this._createTabs(),
+      items.length > 0
+        ? createElement({
+            tag: 'ul',
+            className: [
+              'gallery__list',
+              `gallery__list--${this._activeCategory}`,
+            ],
+            attrs: { role: 'tabpanel' },
+            children: items.map((item) => this._createItem(item)),
+          })
+        : createElement({
+            tag: 'p',
+            className: 'sidebar__empty',
+            text: 'Пусто',
+          })
+    );
+  }
+
+  /**
+   * Создаёт панель вкладок с количеством файлов в каждой категории.
+   *
+   * @returns {HTMLElement} Панель вкладок.
+   *
+   * @private
+   */
+  private _createTabs(): HTMLElement {
+    const tabs = createElement({
+      className: 'gallery__tabs',
+      attrs: { role: 'tablist' },
+    });
+
+    for (const { category, label } of GALLERY_TABS) {
+      const isActive = category === this._activeCategory;
+      const tab = createElement({
+        tag: 'button',
+        className: [
+          'gallery__tab',
+          ...(isActive ? ['gallery__tab--active'] : []),
+        ],
+        attrs: {
+          type: 'button',
+          role: 'tab',
+          'aria-selected': String(isActive),
+        },
+        children: [
+          label,
+          {
+            tag: 'span',
+            className: 'gallery__tab-count',
+            text: String(this._groups[category].length),
+          },
+        ],
+        parent: tabs,
+      });
+
+      tab.addEventListener('click', () => {
+        this._activeCategory = category;
+        this._renderContent();
+      });
+    }
+
+    return tabs;
+  }
+
+  /**
+   * Создаёт элемент списка для одного вложения.
+   *
+   * @param {IMessageAttachment} attachment - Вложение.
+   * @returns {HTMLElement} Элемент `li.gallery__item`.
+   *
+   * @private
+   */
+  private _createItem(attachment: IMessageAttachment): HTMLElement {
+    const fileUrl = `${SERVER_URL}${attachment.url}`;
+    const date = new Date(attachment.timestamp);
+
+    const item = createElement({
+      tag: 'li',
+      className: 'gallery__item',
+      children: [
+        this._createThumbnail(attachment, fileUrl),
+        {
+          className: 'gallery__info',
+          children: [
+            {
+              tag: 'p',
+              className: 'gallery__name',
+              text: attachment.originalname,
+              attrs: { title: attachment.originalname },
+            },
+            {
+              tag: 'p',
+              className: 'gallery__meta',
+              children: [
+                formatFileSize(attachment.size),
+                ' · ',
+                {
+                  tag: 'time',
+                  text: date.toLocaleDateString(),
+                  attrs: { datetime: attachment.timestamp },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          className: 'gallery__actions',
+          children: [
+            {
+              tag: 'a',
+              className: ['gallery__action', 'material-symbols-outlined'],
+              text: 'download',
+              attrs: {
+                href: fileUrl,
+                download: attachment.originalname,
+                title: 'Скачать',
+                'aria-label': 'Скачать',
+              },
+            },
+            {
+              tag: 'button',
+              className: [
+                'gallery__action',
+                'gallery__show',
+                'material-symbols-outlined',
+              ],
+              text: 'chat',
+              attrs: {
+                type: 'button',
+                title: 'Показать в чате',
+                'aria-label': 'Показать в чате',
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    item.querySelector('.gallery__show')?.addEventListener('click', () => {
+      this._options.onShowInChat(attachment.messageId);
+    });
+
+    return item;
+  }
+
+  /**
+   * Создаёт миниатюру вложения: изображение или кадр видео, для остальных
+   * файлов — иконку по типу.
+   *
+   * @param {IMessageAttachment} attachment - Вложение.
+   * @param {string} fileUrl - Полный URL-адрес файла.
+   * @returns {ICreateElementOptions} Конфигурация миниатюры.
+   *
+   * @private
+   */
+  private _createThumbnail(
+    attachment: IMessageAttachment,
+    fileUrl: string
+  ): ICreateElementOptions {
+    const category = getFileCategory(attachment.mimetype);
+
+    if (category === 'image') {
+      return {
+        tag: 'img',
+        className: 'gallery__thumb',
+        attrs: { src: fileUrl, alt: attachment.originalname, loading: 'lazy' },
+      };
+    }
+
+    if (category === 'video') {
+      return {
+        tag: 'video',
+        className: 'gallery__thumb',
+        attrs: { src: fileUrl, preload: 'metadata', muted: 'true' },
+      };
+    }
+
+    return {
+      tag: 'span',
+      className: [
+        'gallery__thumb',
+        'gallery__thumb--icon',
+        'material-symbols-outlined',
+      ],
+      text: CATEGORY_ICONS[category],
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import createElement from '../../utils/createElementFunction';
+
+/**
+ * Боковая панель (`.sidebar`), в которой по очереди отображаются разделы:
+ * избранное, вложения и т.д.
+ *
+ * Панель одна на всё приложение, поэтому каждый раздел открывается со своим
+ * ключом: повторное открытие того же раздела закрывает панель.
+ */
+export default class Sidebar {
+  private readonly _element: HTMLElement | null =
+    document.querySelector('.sidebar');
+  private readonly _title: HTMLElement | null =
+    document.querySelector('.sidebar__title');
+  private readonly _content: HTMLElement | null =
+    document.querySelector('.sidebar__content');
+  private readonly _closeButton: HTMLButtonElement | null =
+    document.querySelector('.sidebar__close');
+  private _section: string | null = null;
+
+  /**
+   * Конструктор боковой панели.
+   */
+  constructor() {
+    this._initEventListeners();
+  }
+
+  /**
+   * Ключ открытого раздела или `null`, если панель закрыта.
+   */
+  get section(): string | null {
+    return this._section;
+  }
+
+  /**
+   * Открывает панель с указанным разделом.
+   *
+   * @param {string} section - Ключ раздела.
+   * @param {string} title - Заголовок панели.
+   * @param {HTMLElement | null} content - Содержимое раздела; `null` —
+   * показать сообщение «Пусто».
+   *
+   * @public
+   */
+  public open(
+    section: string,
+    title: string,
+    content: HTMLElement | null
+  ): void {
+    if (!this._element) return;
+
+    this._section = section;
+    if (this._title) this._title.textContent = title;
+    this.setContent(content);
+
+    this._element.classList.add('sidebar--open');
+    document.body.classList.add('sidebar-open');
+  }
+
+  /**
+   * Открывает раздел или закрывает панель, если этот раздел уже открыт.
+   *
+   * @param {string} section - Ключ раздела.
+   * @param {string} title - Заголовок панели.
+   * @param {HTMLElement | null} content - Содержимое раздела.
+   *
+   * @public
+   */
+  public toggle(
+    section: string,
+    title: string,
+    content: HTMLElement | null
+  ): void {
+    if (this._section === section) {
+      this.close();
+    } else {
+      this.open(section, title, content);
+    }
+  }
+
+  /**
+   * Заменяет содержимое открытого раздела.
+   *
+   * @param {HTMLElement | null} content - Новое содержимое; `null` —
+   * показать сообщение «Пусто».
+   *
+   * @public
+   */
+  public setContent(content: HTMLElement | null): void {
+    if (!this._content) return;
+
+    this._content.replaceChildren(
+      content ??
+        createElement({ tag: 'p', className: 'sidebar__empty', text: 'Пусто' })
+    );
+  }
+
+  /**
+   * Закрывает панель.
+   *
+   * @public
+   */
+  public close(): void {
+    this._section = null;
+    this._element?.classList.remove('sidebar--open');
+    document.body.classList.remove('sidebar-open');
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    this._closeButton?.addEventListener('click', () => this.close());
+
+    // Esc закрывает панель, если нажатие не обработано другим элементом
+    document.addEventListener('keydown', (event) => {
+      if (event.key !== 'Escape' || event.defaultPrevented) return;
+      if (this._section) this.close();
+    });
+  }
+}
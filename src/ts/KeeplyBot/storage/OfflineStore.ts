@@ -0,0 +1,370 @@
+import {
+  IBotCapabilities,
+  IOutboxEntry,
+  IScheduledItem,
+  IUserMessageCard,
+} from '../shared/interfaces';
+
+/**
+ * Имя и версия базы данных IndexedDB
+ */
+const DB_NAME = 'keeply';
+const DB_VERSION = 1;
+
+/**
+ * Хранилища (object stores) базы данных
+ */
+const MESSAGES_STORE = 'messages';
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * Ключи capabilities, запланированных и сработавших элементов
+ * в хранилище метаданных
+ */
+const CAPABILITIES_KEY = 'capabilities';
+const SCHEDULE_KEY = 'schedule';
+const COMPLETED_SCHEDULE_KEY = 'completedSchedule';
+
+/**
+ * Оборачивает запрос IndexedDB в промис.
+ *
+ * @param {IDBRequest<T>} request - Запрос IndexedDB
+ * @returns {Promise<T>} Результат запроса
+ */
+const promisifyRequest = async <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = (): void => resolve(request.result);
+    request.onerror = (): void => reject(request.error);
+  });
+
+/**
+ * Локальное хранилище для работы без сети на основе IndexedDB.
+ *
+ * @description
+ * Хранит:
+ * - кэш сообщений, чтобы сразу показывать ленту при запуске;
+ * - последние полученные capabilities;
+ * - запланированные сообщения и напоминания, чтобы они срабатывали
+ *   после перезагрузки страницы даже без сети, и отметки о сработавших
+ *   элементах, чтобы они не срабатывали повторно;
+ * - очередь (outbox) сообщений, отправленных без сети, вместе с файлами.
+ *
+ * Если IndexedDB недоступна (например, в приватном режиме некоторых
+ * браузеров), все методы работают как пустое хранилище и не выбрасывают ошибок.
+ */
+export default class OfflineStore {
+  private _dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Сохраняет сообщения в кэш (с заменой уже сохранённых по id).
+   *
+   * @param {IUserMessageCard[]} messages - Сообщения.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async saveMessages(messages: IUserMessageCard[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await this._write(MESSAGES_STORE, (store) => {
+      messages.forEach((msg) => store.put(msg));
+    });
+  }
+
+  /**
+   * Удаляет сообщение из кэша.
+   *
+   * @param {string} id - Идентификатор сообщения.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async deleteMessage(id: string): Promise<void> {
+    await this._write(MESSAGES_STORE, (store) => {
+      store.delete(id);
+    });
+  }
+
+  /**
+   * Возвращает последние сообщения из кэша.
+   *
+   * @param {number} limit - Максимальное количество сообщений.
+   * @returns {Promise<IUserMessageCard[]>} Сообщения в порядке возрастания времени.
+   *
+   * @public
+   */
+  public async getMessages(limit: number): Promise<IUserMessageCard[]> {
+    const messages = await this._readAll<IUserMessageCard>(MESSAGES_STORE);
+
+    return messages
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      )
+      .slice(-limit);
+  }
+
+  /**
+   * Сохраняет capabilities бота.
+   *
+   * @param {IBotCapabilities} capabilities - Capabilities бота.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async saveCapabilities(capabilities: IBotCapabilities): Promise<void> {
+    await this._write(META_STORE, (store) => {
+      store.put(capabilities, CAPABILITIES_KEY);
+    });
+  }
+
+  /**
+   * Возвращает сохранённые capabilities бота.
+   *
+   * @returns {Promise<IBotCapabilities | null>} Capabilities или `null`, если их нет.
+   *
+   * @public
+   */
+  public async getCapabilities(): Promise<IBotCapabilities | null> {
+    return this._readMeta<IBotCapabilities>(CAPABILITIES_KEY);
+  }
+
+  /**
+   * Сохраняет запланированные сообщения и напоминания (с заменой сохранённых).
+   *
+   * @param {IScheduledItem[]} items - Запланированные элементы.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async saveSchedule(items: IScheduledItem[]): Promise<void> {
+    await this._write(META_STORE, (store) => {
+      store.put(items, SCHEDULE_KEY);
+    });
+  }
+
+  /**
+   * Возвращает сохранённые запланированные сообщения и напоминания.
+   *
+   * @returns {Promise<IScheduledItem[] | null>} Запланированные элементы
+   * или `null`, если они ещё не сохранялись.
+   *
+   * @public
+   */
+  public async getSchedule(): Promise<IScheduledItem[] | null> {
+    return this._readMeta<IScheduledItem[]>(SCHEDULE_KEY);
+  }
+
+  /**
+   * Сохраняет идентификаторы сработавших элементов, удаление которых
+   * на сервере ещё не подтверждено (с заменой сохранённых).
+   *
+   * @param {string[]} ids - Идентификаторы элементов.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async saveCompletedSchedule(ids: string[]): Promise<void> {
+    await this._write(META_STORE, (store) => {
+      store.put(ids, COMPLETED_SCHEDULE_KEY);
+    });
+  }
+
+  /**
+   * Возвращает идентификаторы сработавших элементов, удаление которых
+   * на сервере ещё не подтверждено.
+   *
+   * @returns {Promise<string[]>} Идентификаторы элементов.
+   *
+   * @public
+   */
+  public async getCompletedSchedule(): Promise<string[]> {
+    return (await this._readMeta<string[]>(COMPLETED_SCHEDULE_KEY)) ?? [];
+  }
+
+  /**
+   * Добавляет сообщение в очередь на отправку.
+   *
+   * @param {Omit<IOutboxEntry, 'id'>} entry - Сообщение с файлами.
+   * @returns {Promise<number | null>} Идентификатор записи или `null`,
+   * если сохранить не удалось.
+   *
+   * @public
+   */
+  public async addToOutbox(
+    entry: Omit<IOutboxEntry, 'id'>
+  ): Promise<number | null> {
+    const db = await this._open();
+    if (!db) return null;
+
+    try {
+      const store = db
+        .transaction(OUTBOX_STORE, 'readwrite')
+        .objectStore(OUTBOX_STORE);
+      return Number(await promisifyRequest(store.add(entry)));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Удаляет сообщение из очереди на отправку.
+   *
+   * @param {number} id - Идентификатор записи.
+   * @returns {Promise<void>}
+   *
+   * @public
+   */
+  public async removeFromOutbox(id: number): Promise<void> {
+    await this._write(OUTBOX_STORE, (store) => {
+      store.delete(id);
+    });
+  }
+
+  /**
+   * Проверяет, есть ли запись в очереди на отправку (её могла отправить
+   * и удалить другая вкладка).
+   *
+   * @param {number} id - Идентификатор записи.
+   * @returns {Promise<boolean>} `true`, если запись есть или хранилище
+   * недоступно.
+   *
+   * @public
+   */
+  public async hasOutboxEntry(id: number): Promise<boolean> {
+    const db = await this._open();
+    if (!db) return true;
+
+    try {
+      const store = db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE);
+      return (await promisifyRequest(store.count(id))) > 0;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Возвращает очередь сообщений на отправку в порядке добавления.
+   *
+   * @returns {Promise<IOutboxEntry[]>} Записи очереди.
+   *
+   * @public
+   */
+  public async getOutbox(): Promise<IOutboxEntry[]> {
+    return this._readAll<IOutboxEntry>(OUTBOX_STORE);
+  }
+
+  /**
+   * Открывает базу данных (один раз) и создаёт хранилища при первом запуске.
+   *
+   * @returns {Promise<IDBDatabase | null>} База данных или `null`, если
+   * IndexedDB недоступна.
+   *
+   * @private
+   */
+  private async _open(): Promise<IDBDatabase | null> {
+    if (!this._dbPromise) {
+      this._dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (): void => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+            db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            db.createObjectStore(OUTBOX_STORE, {
+              keyPath: 'id',
+              autoIncrement: true,
+            });
+          }
+        };
+        request.onsuccess = (): void => resolve(request.result);
+        request.onerror = (): void => resolve(null);
+      });
+    }
+
+    return this._dbPromise;
+  }
+
+  /**
+   * Читает значение из хранилища метаданных.
+   *
+   * @param {string} key - Ключ значения.
+   * @returns {Promise<T | null>} Значение или `null`, если его нет.
+   *
+   * @private
+   */
+  private async _readMeta<T>(key: string): Promise<T | null> {
+    const db = await this._open();
+    if (!db) return null;
+
+    try {
+      const store = db.transaction(META_STORE).objectStore(META_STORE);
+      const result = await promisifyRequest(store.get(key));
+      return (result as T | undefined) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Читает все записи хранилища.
+   *
+   * @param {string} storeName - Имя хранилища.
+   * @returns {Promise<T[]>} Записи хранилища или пустой массив при ошибке.
+   *
+   * @private
+   */
+  private async _readAll<T>(storeName: string): Promise<T[]> {
+    const db = await this._open();
+    if (!db) return [];
+
+    try {
+      const store = db.transaction(storeName).objectStore(storeName);
+      return (await promisifyRequest(store.getAll())) as T[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Выполняет изменения в хранилище в одной транзакции и дожидается её завершения.
+   * Ошибки записи игнорируются: кэш не должен ломать работу приложения.
+   *
+   * @param {string} storeName - Имя хранилища.
+   * @param {(store: IDBObjectStore) => void} callback - Изменения.
+   * @returns {Promise<void>}
+   *
+   * @private
+   */
+  private async _write(
+    storeName: string,
+    callback: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await this._open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(storeName, 'readwrite');
+      callback(transaction.objectStore(storeName));
+
+      await new Promise<void>((resolve) => {
+        transaction.oncomplete = (): void => resolve();
+        transaction.onerror = (): void => resolve();
+        transaction.onabort = (): void => resolve();
+      });
+    } catch {
+      // Хранилище недоступно — работаем без кэша
+    }
+  }
+}
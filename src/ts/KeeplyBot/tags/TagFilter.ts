@@ -0,0 +1,247 @@
+import { fetchMessagesByTag } from '../api/api';
+import { ITagFilterOptions, IUserMessageCard } from '../shared/interfaces';
+import { extractTags, normalizeTag } from './hashtags';
+
+/**
+ * Префикс адреса (hash), в котором хранится выбранный тег
+ */
+const TAG_HASH_PREFIX = '#tag=';
+
+/**
+ * Фильтр ленты по тегу, связанный с адресом страницы.
+ *
+ * @description
+ * - Выбранный тег записывается в адрес (`#tag=работа`), поэтому фильтр
+ *   можно добавить в закладки, а кнопка «Назад» его сбрасывает.
+ * - Сообщения с тегом запрашиваются у сервера; без сети или при ошибке
+ *   сервера фильтруются уже загруженные сообщения.
+ * - Над лентой показывается панель `.tag-filter` с выбранным тегом,
+ *   количеством сообщений и кнопкой сброса.
+ */
+export default class TagFilter {
+  private readonly _options: ITagFilterOptions;
+  private readonly _bar: HTMLElement | null =
+    document.querySelector('.tag-filter');
+  private readonly _tagLabel: HTMLElement | null =
+    document.querySelector('.tag-filter__tag');
+  private readonly _counter: HTMLElement | null =
+    document.querySelector('.tag-filter__count');
+  private readonly _clearButton: HTMLButtonElement | null =
+    document.querySelector('.tag-filter__clear');
+  private _activeTag: string | null = null;
+  private _controller: AbortController | null = null;
+
+  /**
+   * Конструктор фильтра по тегу.
+   *
+   * @param {ITagFilterOptions} options - Настройки фильтра.
+   *
+   * @see {@link ITagFilterOptions} - Интерфейс настроек фильтра
+   */
+  constructor(options: ITagFilterOptions) {
+    this._options = options;
+    this._initEventListeners();
+  }
+
+  /**
+   * Выбранный тег или `null`, если фильтр не активен.
+   */
+  get activeTag(): string | null {
+    return this._activeTag;
+  }
+
+  /**
+   * Активен ли фильтр (лента показывает только сообщения с тегом).
+   */
+  get isActive(): boolean {
+    return this._activeTag !== null;
+  }
+
+  /**
+   * Применяет фильтр из адреса страницы (например, из закладки).
+   *
+   * @public
+   */
+  public restore(): void {
+    this._applyHash();
+  }
+
+  /**
+   * Фильтрует ленту по тегу и записывает его в адрес страницы.
+   *
+   * @param {string} tag - Тег с `#` или без него.
+   *
+   * @public
+   */
+  public select(tag: string): void {
+    const normalized = normalizeTag(tag);
+    if (!normalized || normalized === this._activeTag) return;
+
+    // Смена адреса вызовет hashchange, который и применит фильтр
+    window.location.hash = `${TAG_HASH_PREFIX}${encodeURIComponent(normalized)}`;
+  }
+
+  /**
+   * Сбрасывает фильтр, убирает тег из адреса и восстанавливает ленту.
+   *
+   * @public
+   */
+  public clear(): void {
+    if (this._getHashTag() !== null) {
+      window.history.replaceState(
+        null,
+        '',
+        `${window.location.pathname}${window.location.search}`
+      );
+    }
+
+    this._reset();
+  }
+
+  /**
+   * Проверяет, относится ли сообщение к выбранному тегу.
+   *
+   * @param {IUserMessageCard} msg - Сообщение.
+   * @returns {boolean} `true`, если фильтр активен и сообщение содержит тег.
+   *
+   * @public
+   */
+  public matches(msg: IUserMessageCard): boolean {
+    return (
+      this._activeTag !== null &&
+      extractTags(msg.message).includes(this._activeTag)
+    );
+  }
+
+  /**
+   * Инициализация слушателей событий
+   *
+   * @private
+   */
+  private _initEventListeners(): void {
+    window.addEventListener('hashchange', () => this._applyHash());
+    this._clearButton?.addEventListener('click', () => this.clear());
+  }
+
+  /**
+   * Применяет или сбрасывает фильтр в соответствии с адресом страницы.
+   *
+   * @private
+   */
+  private _applyHash(): void {
+    const tag = this._getHashTag();
+
+    if (tag === null) {
+      this._reset();
+    } else if (tag !== this._activeTag) {
+      void this._filter(tag);
+    }
+  }
+
+  /**
+   * Возвращает тег из адреса страницы.
+   *
+   * @returns {string | null} Тег или `null`, если в адресе нет тега.
+   *
+   * @private
+   */
+  private _getHashTag(): string | null {
+    const { hash } = window.location;
+    if (!hash.startsWith(TAG_HASH_PREFIX)) return null;
+
+    try {
+      return (
+        normalizeTag(decodeURIComponent(hash.slice(TAG_HASH_PREFIX.length))) ||
+        null
+      );
+    } catch {
+      // Некорректно закодированный адрес — считаем, что тега нет
+      return null;
+    }
+  }
+
+  /**
+   * Загружает сообщения с тегом и отображает их. Ответы на устаревшие
+   * запросы отбрасываются.
+   *
+   * @param {string} tag - Тег без `#` в нижнем регистре.
+   * @returns {Promise<void>} Промис, который разрешается после отображения.
+   *
+   * @private
+   */
+  private async _filter(tag: string): Promise<void> {
+    this._controller?.abort();
+    const controller = new AbortController();
+    this._controller = controller;
+
+    this._activeTag = tag;
+    this._renderBar(null);
+
+    const results = await this._fetchResults(tag, controller.signal);
+    if (controller.signal.aborted) return;
+
+    this._controller = null;
+    this._options.onResults(results);
+    this._renderBar(results.length);
+  }
+
+  /**
+   * Запрашивает сообщения с тегом у сервера. Без сети или при ошибке
+   * сервера фильтрует загруженные сообщения.
+   *
+   * @param {string} tag - Тег.
+   * @param {AbortSignal} signal - Сигнал отмены запроса.
+   * @returns {Promise<IUserMessageCard[]>} Сообщения с тегом.
+   *
+   * @private
+   */
+  private async _fetchResults(
+    tag: string,
+    signal: AbortSignal
+  ): Promise<IUserMessageCard[]> {
+    const filterLoaded = (): IUserMessageCard[] =>
+      this._options
+        .getLoadedMessages()
+        .filter((msg) => extractTags(msg.message).includes(tag));
+
+    if (!navigator.onLine) return filterLoaded();
+
+    try {
+      return await fetchMessagesByTag(tag, signal);
+    } catch {
+      return filterLoaded();
+    }
+  }
+
+  /**
+   * Сбрасывает фильтр и восстанавливает обычную ленту.
+   *
+   * @private
+   */
+  private _reset(): void {
+    this._controller?.abort();
+    this._controller = null;
+    this._bar?.classList.add('hidden');
+
+    if (this._activeTag !== null) {
+      this._activeTag = null;
+      this._options.onClear();
+    }
+  }
+
+  /**
+   * Показывает панель фильтра с выбранным тегом.
+   *
+   * @param {number | null} count - Количество сообщений с тегом;
+   * `null` — сообщения ещё загружаются.
+   *
+   * @private
+   */
+  private _renderBar(count: number | null): void {
+    if (this._tagLabel) this._tagLabel.textContent = `#${this._activeTag}`;
+    if (this._counter) {
+      this._counter.textContent = count === null ? '' : `(${count})`;
+    }
+    this._bar?.classList.remove('hidden');
+  }
+}
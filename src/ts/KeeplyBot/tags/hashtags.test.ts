@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import renderMarkdown from '../markdown/markdown';
+import renderTagChips, { extractTags } from './hashtags';
+
+/**
+ * Возвращает теги кнопок, созданных в отрисованном тексте.
+ *
+ * @param {string} text - Текст сообщения.
+ * @returns {string[]} Теги кнопок по порядку.
+ */
+const getChipTags = (text: string): string[] => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(text, { isTaskEditable: false });
+
+  return renderTagChips(container, 'tag').map((chip) => chip.dataset.tag ?? '');
+};
+
+describe('extractTags', () => {
+  it('находит уникальные теги без учёта регистра', () => {
+    expect(extractTags('#Дом и #работа, снова #дом; C# и #2024')).toEqual([
+      'дом',
+      'работа',
+    ]);
+  });
+
+  it('не считает тегами # в коде, как и кнопки-теги', () => {
+    const text = [
+      '#план и `#код` и a`x`#рядом',
+      '```',
+      '#в_блоке',
+      '```',
+      '> ```',
+      '> #в_цитате',
+      '#после',
+    ].join('\n');
+
+    expect(extractTags(text)).toEqual(['план', 'рядом', 'после']);
+    expect(getChipTags(text)).toEqual(extractTags(text));
+  });
+});
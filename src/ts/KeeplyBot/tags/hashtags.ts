@@ -0,0 +1,102 @@
+import { stripCode } from '../markdown/markdown';
+
+/**
+ * Хэштег: `#` в начале текста или после символа, который не может быть
+ * частью слова или адреса (так не считаются тегами `C#` и `site.ru/#anchor`)
+ */
+const TAG_PATTERN = /(^|[^\p{L}\p{N}_/#&])#([\p{L}\p{N}_]{1,64})/gu;
+
+/**
+ * Проверяет, что имя тега содержит хотя бы одну букву
+ * (`#1` и `#2024` — номера, а не теги)
+ *
+ * @param {string} name - Имя тега без `#`
+ * @returns {boolean} `true`, если это тег
+ */
+const isTagName = (name: string): boolean => /\p{L}/u.test(name);
+
+/**
+ * Приводит тег к виду, в котором теги сравниваются между собой
+ *
+ * @param {string} tag - Тег с `#` или без него
+ * @returns {string} Тег без `#` в нижнем регистре
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.replace(/^#/, '').toLowerCase();
+
+/**
+ * Извлекает хэштеги из текста сообщения.
+ * Как и в renderTagChips, `#` в коде тегом не считается
+ *
+ * @param {string} text - Текст сообщения
+ * @returns {string[]} Уникальные теги без `#` в нижнем регистре в порядке появления
+ */
+export const extractTags = (text: string): string[] => {
+  const tags = new Set<string>();
+
+  for (const [, , name] of stripCode(text).matchAll(TAG_PATTERN)) {
+    if (isTagName(name)) tags.add(normalizeTag(name));
+  }
+
+  return [...tags];
+};
+
+/**
+ * Заменяет хэштеги внутри элемента на кнопки-теги.
+ *
+ * Обрабатываются только текстовые узлы вне ссылок и кода, поэтому ссылки,
+ * созданные linkifyHtml (в том числе с `#` в адресе), не ломаются,
+ * а `#` в коде остаётся текстом.
+ *
+ * @param {HTMLElement} root - Элемент с текстом сообщения
+ * @param {string} className - CSS-класс кнопок-тегов
+ * @returns {HTMLElement[]} Созданные кнопки; имя тега — в `data-tag`
+ */
+export default function renderTagChips(
+  root: HTMLElement,
+  className: string
+): HTMLElement[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node): number =>
+      node.parentElement?.closest('a, code, pre')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  const textNodes: Text[] = [];
+
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  const chips: HTMLElement[] = [];
+
+  for (const node of textNodes) {
+    const text = node.textContent ?? '';
+    const fragment = document.createDocumentFragment();
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const [, prefix, name] = match;
+      if (!isTagName(name)) continue;
+
+      const start = (match.index ?? 0) + prefix.length;
+      fragment.append(text.slice(lastIndex, start));
+
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = className;
+      chip.dataset.action = 'tag';
+      chip.dataset.tag = normalizeTag(name);
+      chip.textContent = `#${name}`;
+      chips.push(chip);
+      fragment.append(chip);
+
+      lastIndex = start + name.length + 1;
+    }
+
+    if (lastIndex === 0) continue;
+
+    fragment.append(text.slice(lastIndex));
+    node.replaceWith(fragment);
+  }
+
+  return chips;
+}
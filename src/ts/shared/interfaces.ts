@@ -1,3 +1,5 @@
+import { ToastType } from './type';
+
 /**
  * Опции для создания DOM-элемента.
  * Используется в функции createElement для гибкого создания элементов.
@@ -24,9 +26,10 @@ export interface ICreateElementOptions {
   text?: string;
 
   /**
-   * HTML-содержимое элемента
+   * HTML-содержимое элемента. Принимается только HTML, очищенный
+   * функцией sanitizeHtml
    */
-  html?: string;
+  html?: ITrustedHtml;
 
   /**
    * Атрибуты элемента в виде объекта {ключ: значение}
@@ -43,3 +46,93 @@ export interface ICreateElementOptions {
    */
   parent?: HTMLElement;
 }
+
+/**
+ * HTML, очищенный функцией sanitizeHtml и разрешённый для вставки
+ * через `innerHTML`. Создаётся только функцией sanitizeHtml.
+ */
+export interface ITrustedHtml {
+  readonly value: string;
+}
+
+/**
+ * Функция с отложенным вызовом, возвращаемая функцией debounce.
+ */
+export interface IDebouncedFunction<TArgs extends unknown[]> {
+  (...args: TArgs): void;
+
+  /**
+   * Отменяет запланированный вызов
+   */
+  cancel: () => void;
+}
+
+/**
+ * Настройки всплывающего уведомления.
+ */
+export interface IToastOptions {
+  /**
+   * Текст уведомления
+   */
+  message: string;
+
+  /**
+   * Тип уведомления (по умолчанию `info`)
+   */
+  type?: ToastType;
+
+  /**
+   * Время показа в миллисекундах
+   */
+  duration?: number;
+
+  /**
+   * Кнопка действия в уведомлении (например, «Отменить»)
+   */
+  action?: IToastAction;
+
+  /**
+   * Вызывается, если уведомление закрылось без нажатия на кнопку действия:
+   * по истечении времени показа или кнопкой закрытия
+   */
+  onDismiss?: () => void;
+}
+
+/**
+ * Интерфейс кнопки действия во всплывающем уведомлении
+ */
+export interface IToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * Интерфейс настроек модального окна
+ */
+export interface IModalOptions {
+  /**
+   * Заголовок окна
+   */
+  title: string;
+
+  /**
+   * Содержимое окна
+   */
+  content: HTMLElement;
+
+  /**
+   * Дополнительный CSS-класс окна (модификатор)
+   */
+  className?: string;
+
+  /**
+   * Вызывается после закрытия окна
+   */
+  onClose?: () => void;
+
+  /**
+   * Дополнительная обработка клавиш в окне. Вызывается до стандартной
+   * (Esc, Tab); `preventDefault()` в обработчике отменяет стандартную.
+   */
+  onKeydown?: (event: KeyboardEvent) => void;
+}
@@ -14,3 +14,18 @@ export type TooltipOptions = {
    */
   dataAttribute: string;
 };
+
+/**
+ * Категория файла по его MIME-типу.
+ */
+export type FileCategory = 'image' | 'video' | 'audio' | 'document';
+
+/**
+ * Вид предпросмотра документа.
+ */
+export type FilePreviewType = 'pdf' | 'text' | 'json' | 'csv';
+
+/**
+ * Тип всплывающего уведомления.
+ */
+export type ToastType = 'info' | 'success' | 'error';
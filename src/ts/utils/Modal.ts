@@ -0,0 +1,221 @@
+import { IModalOptions } from '../shared/interfaces';
+import createElement from './createElementFunction';
+
+/**
+ * Элементы, которые могут получить фокус внутри окна
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+/**
+ * Модальное окно (диалог) поверх приложения.
+ *
+ * @description
+ * - Удерживает фокус внутри окна (Tab / Shift+Tab переходят по кругу)
+ *   и возвращает его на прежний элемент после закрытия.
+ * - Закрывается по Esc, кнопке закрытия и клику по фону.
+ * - Окно создаётся при открытии и удаляется из DOM при закрытии.
+ */
+export default class Modal {
+  private readonly _options: IModalOptions;
+  private _title: string;
+  private _element: HTMLElement | null = null;
+  private _previousFocus: Element | null = null;
+
+  /**
+   * Конструктор модального окна.
+   *
+   * @param {IModalOptions} options - Настройки окна.
+   *
+   * @see {@link IModalOptions} - Интерфейс настроек окна
+   */
+  constructor(options: IModalOptions) {
+    this._options = options;
+    this._title = options.title;
+  }
+
+  /**
+   * Открыто ли окно.
+   */
+  get isOpen(): boolean {
+    return this._element !== null;
+  }
+
+  /**
+   * Открывает окно и переводит фокус на первый интерактивный элемент.
+   *
+   * @public
+   */
+  public open(): void {
+    if (this._element) return;
+
+    this._previousFocus = document.activeElement;
+    this._element = this._createElement();
+    (document.getElementById('App') ?? document.body).append(this._element);
+    document.body.classList.add('modal-open');
+
+    const [first] = this._getFocusableElements();
+    (
+      first ?? this._element.querySelector<HTMLElement>('.modal__dialog')
+    )?.focus();
+  }
+
+  /**
+   * Меняет заголовок окна (в том числе открытого).
+   *
+   * @param {string} title - Новый заголовок.
+   *
+   * @public
+   */
+  public setTitle(title: string): void {
+    this._title = title;
+
+    const titleElement = this._element?.querySelector('.modal__title');
+    if (titleElement) titleElement.textContent = title;
+  }
+
+  /**
+   * Закрывает окно и возвращает фокус на элемент, активный до открытия.
+   *
+   * @public
+   */
+  public close(): void {
+    if (!this._element) return;
+
+    this._element.remove();
+    this._element = null;
+
+    if (!document.querySelector('.modal')) {
+      document.body.classList.remove('modal-open');
+    }
+    if (this._previousFocus instanceof HTMLElement) this._previousFocus.focus();
+
+    this._options.onClose?.();
+  }
+
+  /**
+   * Создаёт DOM-элемент окна и навешивает обработчики.
+   *
+   * @returns {HTMLElement} Элемент `.modal` с фоном и диалогом.
+   *
+   * @private
+   */
+  private _createElement(): HTMLElement {
+    const titleId = `modal-title-${Date.now()}`;
+
+    const element = createElement({
+      className: [
+        'modal',
+        ...(this._options.className ? [this._options.className] : []),
+      ],
+      children: [
+        {
+          className: 'modal__dialog',
+          attrs: {
+            role: 'dialog',
+            'aria-modal': 'true',
+            'aria-labelledby': titleId,
+            tabindex: '-1',
+          },
+          children: [
+            {
+              tag: 'header',
+              className: 'modal__header',
+              children: [
+                {
+                  tag: 'h2',
+                  className: 'modal__title',
+                  id: titleId,
+                  text: this._title,
+                },
+                {
+                  tag: 'button',
+                  className: ['modal__close', 'material-symbols-outlined'],
+                  text: 'close',
+                  attrs: { type: 'button', 'aria-label': 'Закрыть' },
+                },
+              ],
+            },
+            {
+              className: 'modal__body',
+              children: [this._options.content],
+            },
+          ],
+        },
+      ],
+    });
+
+    element
+      .querySelector('.modal__close')
+      ?.addEventListener('click', () => this.close());
+
+    // Клик по фону (вне диалога) закрывает окно
+    element.addEventListener('click', (event) => {
+      if (event.target === element) this.close();
+    });
+
+    element.addEventListener('keydown', (event) => this._handleKeydown(event));
+
+    return element;
+  }
+
+  /**
+   * Обрабатывает нажатия клавиш в окне: сначала обработчик `onKeydown`
+   * из настроек, затем Esc закрывает окно, а Tab удерживает фокус внутри него.
+   *
+   * @param {KeyboardEvent} event - Событие нажатия клавиши.
+   *
+   * @private
+   */
+  private _handleKeydown(event: KeyboardEvent): void {
+    this._options.onKeydown?.(event);
+    if (event.defaultPrevented) return;
+
+    if (event.key === 'Escape') {
+      // Esc закрывает только окно, но не боковую панель под ним
+      event.preventDefault();
+      this.close();
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    const focusable = this._getFocusableElements();
+    if (focusable.length === 0) {
+      event.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  /**
+   * Возвращает видимые элементы окна, которые могут получить фокус.
+   *
+   * @returns {HTMLElement[]} Элементы в порядке обхода.
+   *
+   * @private
+   */
+  private _getFocusableElements(): HTMLElement[] {
+    if (!this._element) return [];
+
+    return [
+      ...this._element.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+    ].filter((element) => element.offsetParent !== null);
+  }
+}
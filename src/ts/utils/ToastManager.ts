@@ -0,0 +1,93 @@
+import { IToastOptions } from '../shared/interfaces';
+import createElement from './createElementFunction';
+
+/**
+ * Время показа уведомления по умолчанию (мс)
+ */
+const DEFAULT_TOAST_DURATION = 4000;
+
+/**
+ * Менеджер всплывающих уведомлений (toasts).
+ *
+ * Уведомления складываются в общий контейнер внизу экрана и скрываются
+ * автоматически через заданное время или по нажатию на кнопку закрытия.
+ * Уведомление может содержать кнопку действия (например, «Отменить»).
+ */
+export default class ToastManager {
+  private _container: HTMLElement | null = null;
+
+  /**
+   * Показывает уведомление.
+   *
+   * @param {IToastOptions} options - Настройки уведомления.
+   * @returns {() => void} Функция, которая скрывает уведомление досрочно
+   * (так же, как кнопка закрытия).
+   *
+   * @see {@link IToastOptions} - Интерфейс настроек уведомления
+   */
+  public show(options: IToastOptions): () => void {
+    const container = this._ensureContainer();
+    const type = options.type ?? 'info';
+
+    const toast = createElement({
+      className: ['toast', `toast--${type}`],
+      attrs: { role: type === 'error' ? 'alert' : 'status' },
+      children: [
+        { tag: 'p', className: 'toast__message', text: options.message },
+        ...(options.action
+          ? [
+              {
+                tag: 'button',
+                className: 'toast__action',
+                text: options.action.label,
+                attrs: { type: 'button' },
+              },
+            ]
+          : []),
+        {
+          tag: 'button',
+          className: ['toast__close', 'material-symbols-outlined'],
+          text: 'close',
+          attrs: { type: 'button', 'aria-label': 'Закрыть' },
+        },
+      ],
+      parent: container,
+    });
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const close = (): boolean => {
+      if (!toast.isConnected) return false;
+      if (timer) clearTimeout(timer);
+      toast.remove();
+      return true;
+    };
+    const dismiss = (): void => {
+      if (close()) options.onDismiss?.();
+    };
+
+    toast.querySelector('.toast__close')?.addEventListener('click', dismiss);
+    toast.querySelector('.toast__action')?.addEventListener('click', () => {
+      if (close()) options.action?.onClick();
+    });
+    timer = setTimeout(dismiss, options.duration ?? DEFAULT_TOAST_DURATION);
+
+    return dismiss;
+  }
+
+  /**
+   * Создаёт контейнер уведомлений, если он ещё не существует.
+   *
+   * @returns {HTMLElement} Контейнер уведомлений.
+   *
+   * @private
+   */
+  private _ensureContainer(): HTMLElement {
+    if (!this._container) {
+      this._container = createElement({
+        className: 'toasts',
+        parent: document.getElementById('App') ?? document.body,
+      });
+    }
+    return this._container;
+  }
+}
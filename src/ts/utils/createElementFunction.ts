@@ -1,4 +1,5 @@
 import { ICreateElementOptions } from '../shared/interfaces';
+import { isTrustedHtml } from './sanitizeHtml';
 
 /**
  * Функция создания DOM-элемента на основе переданного объекта конфигурации
@@ -8,12 +9,13 @@ import { ICreateElementOptions } from '../shared/interfaces';
  * @param {string | string[] | null} options.className - Класс элемента
  * @param {string | null} options.id - Идентификатор элемента
  * @param {string | undefined} options.text - Текстовый контент элемента
- * @param {string | undefined} options.html - HTML-контент элемента
+ * @param {ITrustedHtml | undefined} options.html - HTML-контент элемента, очищенный sanitizeHtml
  * @param {Record<string, string>} options.attrs - Атрибуты элемента
  * @param {(HTMLElement | string | ICreateElementOptions)[]} options.children - Дочерние элементы
  * @param {HTMLElement | null} options.parent - Родительский элемент
  *
  * @returns {HTMLElement} Созданный DOM-элемент
+ * @throws {TypeError} Если `html` не создан функцией sanitizeHtml
  */
 export default function createElement({
   tag = 'div',
@@ -37,7 +39,13 @@ export default function createElement({
 
   if (id) element.id = id;
   if (text !== undefined) element.textContent = text;
-  if (html !== undefined) element.innerHTML = html;
+  if (html !== undefined) {
+    // Строка или подделанный объект не вставляются: это путь для XSS
+    if (!isTrustedHtml(html)) {
+      throw new TypeError('createElement: html must come from sanitizeHtml');
+    }
+    element.innerHTML = html.value;
+  }
 
   Object.entries(attrs).forEach(([key, value]) => {
     element.setAttribute(key, value);
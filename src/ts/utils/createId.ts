@@ -0,0 +1,14 @@
+/**
+ * Создаёт случайный идентификатор (например, ключ идемпотентности запроса).
+ * `crypto.randomUUID` доступен только в защищённом контексте (HTTPS,
+ * localhost), поэтому без него идентификатор собирается из случайных байтов
+ *
+ * @returns {string} Идентификатор из 32–36 символов
+ */
+export default function createId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
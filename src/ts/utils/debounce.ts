@@ -0,0 +1,33 @@
+import { IDebouncedFunction } from '../shared/interfaces';
+
+/**
+ * Создаёт функцию, которая вызывает `callback` только после того, как
+ * с момента последнего вызова прошло `delay` миллисекунд.
+ *
+ * @param {Function} callback - Вызываемая функция
+ * @param {number} delay - Задержка в миллисекундах
+ * @returns {IDebouncedFunction} Функция с отложенным вызовом и методом `cancel`
+ *
+ * @see {@link IDebouncedFunction} - Интерфейс функции с отложенным вызовом
+ */
+export default function debounce<TArgs extends unknown[]>(
+  callback: (...args: TArgs) => void,
+  delay: number
+): IDebouncedFunction<TArgs> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const debounced = (...args: TArgs): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      callback(...args);
+    }, delay);
+  };
+
+  debounced.cancel = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return debounced;
+}
@@ -0,0 +1,21 @@
+/**
+ * Замены спецсимволов HTML на сущности
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Экранирует спецсимволы HTML, чтобы строку можно было безопасно
+ * вставить в разметку как текст
+ *
+ * @param {string} text - Исходный текст
+ * @returns {string} Текст, в котором `& < > " '` заменены на сущности
+ */
+export default function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
@@ -0,0 +1,178 @@
+import { FileCategory, FilePreviewType } from '../shared/type';
+
+/**
+ * Единицы измерения размера файла
+ */
+const SIZE_UNITS = ['Б', 'КБ', 'МБ', 'ГБ'];
+
+/**
+ * Иконки (Material Symbols) документов по расширению файла
+ */
+const EXTENSION_ICONS: Record<string, string> = {
+  pdf: 'picture_as_pdf',
+  doc: 'article',
+  docx: 'article',
+  odt: 'article',
+  rtf: 'article',
+  xls: 'table_chart',
+  xlsx: 'table_chart',
+  ods: 'table_chart',
+  csv: 'table_chart',
+  ppt: 'slideshow',
+  pptx: 'slideshow',
+  odp: 'slideshow',
+  zip: 'folder_zip',
+  rar: 'folder_zip',
+  '7z': 'folder_zip',
+  tar: 'folder_zip',
+  gz: 'folder_zip',
+  json: 'data_object',
+  xml: 'data_object',
+  txt: 'description',
+  md: 'description',
+  log: 'description',
+};
+
+/**
+ * Иконки документов по MIME-типу (если расширение неизвестно)
+ */
+const MIME_ICONS: [RegExp, string][] = [
+  [/^application\/pdf$/, 'picture_as_pdf'],
+  [/wordprocessingml|msword|opendocument\.text/, 'article'],
+  [
+    /spreadsheetml|ms-excel|opendocument\.spreadsheet|^text\/csv$/,
+    'table_chart',
+  ],
+  [/presentationml|ms-powerpoint|opendocument\.presentation/, 'slideshow'],
+  [/zip|rar|7z|tar|gzip|compressed/, 'folder_zip'],
+  [/json|xml/, 'data_object'],
+  [/^text\//, 'description'],
+];
+
+/**
+ * Возвращает расширение файла в нижнем регистре
+ *
+ * @param {string} filename - Имя файла
+ * @returns {string} Расширение без точки или пустая строка
+ */
+const getExtension = (filename: string): string => {
+  const index = filename.lastIndexOf('.');
+  return index > 0 ? filename.slice(index + 1).toLowerCase() : '';
+};
+
+/**
+ * Определяет категорию файла по его MIME-типу
+ *
+ * @param {string} mimetype - MIME-тип файла
+ * @returns {FileCategory} Категория: изображение, видео, аудио или документ
+ *
+ * @see {@link FileCategory} - Тип категории файла
+ */
+export const getFileCategory = (mimetype: string): FileCategory => {
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('video/')) return 'video';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  return 'document';
+};
+
+/**
+ * Подбирает иконку (Material Symbols) документа по расширению или MIME-типу
+ *
+ * @param {string} mimetype - MIME-тип файла
+ * @param {string} filename - Имя файла
+ * @returns {string} Название иконки
+ */
+export const getFileIcon = (mimetype: string, filename: string): string =>
+  EXTENSION_ICONS[getExtension(filename)] ??
+  MIME_ICONS.find(([pattern]) => pattern.test(mimetype))?.[1] ??
+  'draft';
+
+/**
+ * Определяет, как показать содержимое документа в окне предпросмотра
+ *
+ * @param {string} mimetype - MIME-тип файла
+ * @param {string} filename - Имя файла
+ * @returns {FilePreviewType | null} Вид предпросмотра или `null`, если
+ * документ можно только скачать
+ *
+ * @see {@link FilePreviewType} - Тип предпросмотра документа
+ */
+export const getFilePreviewType = (
+  mimetype: string,
+  filename: string
+): FilePreviewType | null => {
+  const extension = getExtension(filename);
+
+  if (mimetype === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimetype === 'text/csv' || extension === 'csv') return 'csv';
+  if (mimetype === 'application/json' || extension === 'json') return 'json';
+  if (mimetype === 'text/plain' || ['txt', 'md', 'log'].includes(extension)) {
+    return 'text';
+  }
+  return null;
+};
+
+/**
+ * Форматирует размер файла в человекочитаемый вид
+ *
+ * @param {number} bytes - Размер файла в байтах
+ * @returns {string} Размер с единицей измерения, например `1.5 МБ`
+ */
+export const formatFileSize = (bytes: number): string => {
+  let size = bytes;
+  let unit = 0;
+
+  while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit += 1;
+  }
+
+  const value = unit === 0 ? String(size) : size.toFixed(1).replace(/\.0$/, '');
+  return `${value} ${SIZE_UNITS[unit]}`;
+};
+
+/**
+ * Проверяет, соответствует ли файл списку допустимых типов.
+ *
+ * Поддерживаются те же форматы, что и в атрибуте `accept`:
+ * точный MIME-тип (`image/png`), группа (`image/*`) и расширение (`.pdf`).
+ *
+ * @param {File} file - Проверяемый файл
+ * @param {string[]} types - Допустимые типы; пустой список разрешает всё
+ * @returns {boolean} `true`, если файл допустим
+ */
+export const isFileTypeAllowed = (file: File, types: string[]): boolean => {
+  if (types.length === 0) return true;
+
+  const mimetype = file.type.toLowerCase();
+  const name = file.name.toLowerCase();
+
+  return types.some((rawType) => {
+    const type = rawType.trim().toLowerCase();
+    if (type.startsWith('.')) return name.endsWith(type);
+    if (type.endsWith('/*')) return mimetype.startsWith(type.slice(0, -1));
+    return mimetype === type;
+  });
+};
+
+/**
+ * Сохраняет данные в файл через скачивание браузером
+ *
+ * @param {string} filename - Имя сохраняемого файла
+ * @param {BlobPart} content - Содержимое файла
+ * @param {string} type - MIME-тип файла
+ */
+export const downloadFile = (
+  filename: string,
+  content: BlobPart,
+  type: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Даём браузеру начать скачивание до освобождения URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
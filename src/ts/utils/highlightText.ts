@@ -0,0 +1,70 @@
+/**
+ * Экранирует спецсимволы регулярных выражений в строке
+ *
+ * @param {string} value - Исходная строка
+ * @returns {string} Строка, безопасная для использования в RegExp
+ */
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Разбивает поисковый запрос на отдельные слова
+ *
+ * @param {string} query - Поисковый запрос
+ * @returns {string[]} Непустые слова запроса в нижнем регистре
+ */
+export const getSearchTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Подсвечивает вхождения слов запроса внутри элемента, оборачивая их в `<mark>`.
+ *
+ * Обрабатываются только текстовые узлы, поэтому разметка элемента
+ * (ссылки и т.д.) не ломается.
+ *
+ * @param {HTMLElement} root - Элемент, в котором ищутся совпадения
+ * @param {string} query - Поисковый запрос
+ * @param {string} className - CSS-класс для элементов `<mark>`
+ * @returns {HTMLElement[]} Созданные элементы подсветки
+ */
+export default function highlightText(
+  root: HTMLElement,
+  query: string,
+  className: string
+): HTMLElement[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  const marks: HTMLElement[] = [];
+
+  for (const node of textNodes) {
+    const parts = (node.textContent ?? '').split(pattern);
+    if (parts.length === 1) continue;
+
+    const fragment = document.createDocumentFragment();
+    parts.forEach((part, index) => {
+      if (!part) return;
+
+      // Благодаря группе в RegExp совпадения находятся на нечётных позициях
+      if (index % 2 === 1) {
+        const mark = document.createElement('mark');
+        mark.className = className;
+        mark.textContent = part;
+        marks.push(mark);
+        fragment.append(mark);
+      } else {
+        fragment.append(document.createTextNode(part));
+      }
+    });
+
+    node.replaceWith(fragment);
+  }
+
+  return marks;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals';
+import { ITrustedHtml } from '../shared/interfaces';
+import createElement from './createElementFunction';
+import sanitizeHtml, { isTrustedHtml } from './sanitizeHtml';
+
+/**
+ * Возвращает очищенный HTML как строку.
+ *
+ * @param {string} html - Исходный HTML.
+ * @returns {string} Результат sanitizeHtml.
+ */
+const clean = (html: string): string => sanitizeHtml(html).value;
+
+describe('sanitizeHtml', () => {
+  it('удаляет обработчики событий и неразрешённые теги', () => {
+    const result = clean(
+      '<img src="x" onerror="alert(1)"><p onclick="x()">a</p>'
+    );
+
+    expect(result).not.toMatch(/onerror|onclick|<img/i);
+    expect(result).toBe('<p>a</p>');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    ' JaVaScRiPt:alert(1)',
+    'java\tscript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'vbscript:msgbox(1)',
+  ])('удаляет href с опасным протоколом: %s', (href) => {
+    const result = clean(`<a href="${href}">ссылка</a>`);
+
+    expect(result).toBe('<a>ссылка</a>');
+  });
+
+  it('оставляет http(s), mailto и tel ссылки', () => {
+    for (const href of [
+      'https://example.com/',
+      'http://example.com/',
+      'mailto:a@b.c',
+      'tel:+100',
+    ]) {
+      expect(clean(`<a href="${href}">x</a>`)).toContain(`href="${href}"`);
+    }
+  });
+
+  it('добавляет rel="noopener noreferrer" ссылкам в новой вкладке', () => {
+    const result = clean(
+      '<a href="https://a.b/" target="_blank" rel="opener">x</a>'
+    );
+
+    expect(result).toContain('rel="noopener noreferrer"');
+  });
+
+  it.each([
+    '<script>alert(1)</script>',
+    '<style>body{display:none}</style>',
+    '<svg onload="alert(1)"><script>alert(1)</script></svg>',
+    '<svg><a href="javascript:alert(1)">x</a></svg>',
+    '<iframe src="javascript:alert(1)"></iframe>',
+    '<math><mtext><script>alert(1)</script></mtext></math>',
+  ])('удаляет опасный элемент вместе с содержимым: %s', (payload) => {
+    expect(clean(`<p>до</p>${payload}<p>после</p>`)).toBe(
+      '<p>до</p><p>после</p>'
+    );
+  });
+
+  it('заменяет неизвестные теги их текстом', () => {
+    expect(clean('<marquee><b>текст</b></marquee>')).toBe('текст');
+  });
+
+  it('оставляет только чекбоксы среди полей ввода', () => {
+    const result = clean(
+      '<input type="checkbox" data-action="task" data-task-index="0">' +
+        '<input type="text" value="x"><input type="image" src="x">'
+    );
+
+    expect(result).toBe(
+      '<input type="checkbox" data-action="task" data-task-index="0">'
+    );
+  });
+
+  it('удаляет data-action, не относящийся к тексту сообщения', () => {
+    const result = clean(
+      '<button type="button" data-action="delete">x</button>'
+    );
+
+    expect(result).toBe('<button type="button">x</button>');
+  });
+
+  it('удаляет style и комментарии', () => {
+    expect(clean('<p style="color:red"><!-- x -->a</p>')).toBe('<p>a</p>');
+  });
+});
+
+describe('isTrustedHtml', () => {
+  it('принимает только результат sanitizeHtml', () => {
+    const forged = Object.freeze({ value: '<img src=x onerror=alert(1)>' });
+
+    expect(isTrustedHtml(sanitizeHtml('<p>a</p>'))).toBe(true);
+    expect(isTrustedHtml(forged)).toBe(false);
+    expect(isTrustedHtml('<p>a</p>')).toBe(false);
+    expect(isTrustedHtml(null)).toBe(false);
+  });
+});
+
+describe('createElement', () => {
+  it('вставляет HTML, очищенный sanitizeHtml', () => {
+    const element = createElement({
+      html: sanitizeHtml('<strong>жирный</strong>'),
+    });
+
+    expect(element.innerHTML).toBe('<strong>жирный</strong>');
+  });
+
+  it('отклоняет HTML-строку', () => {
+    expect(() =>
+      createElement({
+        html: '<img src=x onerror=alert(1)>' as unknown as ITrustedHtml,
+      })
+    ).toThrow(TypeError);
+  });
+
+  it('отклоняет поддельный объект { value }', () => {
+    const forged = { value: '<img src=x onerror=alert(1)>' };
+
+    expect(() => createElement({ html: forged })).toThrow(
+      'createElement: html must come from sanitizeHtml'
+    );
+  });
+});
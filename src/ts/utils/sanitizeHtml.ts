@@ -0,0 +1,186 @@
+import { ITrustedHtml } from '../shared/interfaces';
+
+/**
+ * Разрешённые теги и их атрибуты (кроме общих, см. GLOBAL_ATTRIBUTES).
+ * Это разметка, которую создают renderMarkdown, highlightCode и linkifyHtml.
+ */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'rel', 'target', 'title'],
+  blockquote: [],
+  br: [],
+  button: ['type', 'data-action', 'aria-label', 'title'],
+  code: [],
+  div: [],
+  em: [],
+  input: [
+    'type',
+    'data-action',
+    'data-task-index',
+    'aria-label',
+    'checked',
+    'disabled',
+  ],
+  li: [],
+  mark: [],
+  ol: ['start'],
+  p: [],
+  pre: [],
+  span: [],
+  strong: [],
+  ul: [],
+};
+
+/**
+ * Атрибуты, разрешённые у всех тегов
+ */
+const GLOBAL_ATTRIBUTES = ['class'];
+
+/**
+ * Теги, которые удаляются вместе с содержимым. Остальные неразрешённые
+ * теги заменяются своим содержимым (текст сохраняется).
+ */
+const DROPPED_TAGS = new Set([
+  'base',
+  'embed',
+  'form',
+  'iframe',
+  'link',
+  'math',
+  'meta',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+]);
+
+/**
+ * Протоколы, разрешённые в ссылках (`javascript:`, `data:` и т.д. удаляются)
+ */
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+/**
+ * Проверяет, что адрес ссылки использует безопасный протокол.
+ *
+ * @param {string} value - Значение `href`.
+ * @returns {boolean} `true`, если ссылку можно оставить.
+ */
+const isSafeUrl = (value: string): boolean => {
+  try {
+    return SAFE_PROTOCOLS.has(new URL(value, window.location.href).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Проверки значений атрибутов: атрибут с неподходящим значением удаляется
+ */
+const ATTRIBUTE_RULES: Record<string, (value: string) => boolean> = {
+  href: isSafeUrl,
+  target: (value) => value === '_blank',
+  type: (value) => value === 'button' || value === 'checkbox',
+  start: (value) => /^\d{1,9}$/.test(value),
+  // Кнопки в тексте сообщения могут выполнять только эти действия ленты
+  'data-action': (value) => value === 'copy-code' || value === 'task',
+  'data-task-index': (value) => /^\d{1,9}$/.test(value),
+};
+
+/**
+ * Объекты HTML, созданные этим модулем. Хранятся в WeakSet, чтобы
+ * доверенный HTML нельзя было подделать объектом с тем же полем `value`.
+ */
+const TRUSTED = new WeakSet<object>();
+
+/**
+ * Оставляет у элемента только разрешённые атрибуты с допустимыми значениями.
+ *
+ * @param {Element} element - Разрешённый элемент.
+ * @param {string[]} allowed - Атрибуты, разрешённые для его тега.
+ */
+const sanitizeAttributes = (element: Element, allowed: string[]): void => {
+  for (const { name, value } of [...element.attributes]) {
+    const isAllowed =
+      (allowed.includes(name) || GLOBAL_ATTRIBUTES.includes(name)) &&
+      (ATTRIBUTE_RULES[name]?.(value.trim()) ?? true);
+
+    if (!isAllowed) element.removeAttribute(name);
+  }
+
+  // Ссылка в новой вкладке не должна получать доступ к странице (window.opener)
+  if (element.hasAttribute('target')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+};
+
+/**
+ * Рекурсивно очищает содержимое узла.
+ *
+ * @param {ParentNode} parent - Узел, дочерние элементы которого проверяются.
+ */
+const sanitizeChildren = (parent: ParentNode): void => {
+  for (const node of [...parent.childNodes]) {
+    if (node.nodeType === Node.TEXT_NODE) continue;
+
+    if (!(node instanceof Element)) {
+      // Комментарии, инструкции обработки и т.д.
+      node.remove();
+      continue;
+    }
+
+    const tag = node.tagName.toLowerCase();
+    const allowed = ALLOWED_TAGS[tag];
+
+    // Из полей ввода разрешены только чекбоксы списка задач
+    const isForbiddenInput =
+      tag === 'input' && node.getAttribute('type') !== 'checkbox';
+
+    if (DROPPED_TAGS.has(tag) || isForbiddenInput) {
+      node.remove();
+    } else if (!allowed) {
+      sanitizeChildren(node);
+      node.replaceWith(...node.childNodes);
+    } else {
+      sanitizeChildren(node);
+      sanitizeAttributes(node, allowed);
+    }
+  }
+};
+
+/**
+ * Проверяет, что HTML создан функцией {@link sanitizeHtml}.
+ *
+ * @param {unknown} value - Проверяемое значение.
+ * @returns {boolean} `true`, если HTML можно вставить через `innerHTML`.
+ */
+export const isTrustedHtml = (value: unknown): value is ITrustedHtml =>
+  typeof value === 'object' && value !== null && TRUSTED.has(value);
+
+/**
+ * Очищает HTML по списку разрешённых тегов и атрибутов.
+ *
+ * @description
+ * - HTML разбирается в `<template>`: его содержимое неактивно, поэтому
+ *   обработчики вроде `<img onerror>` не выполняются даже при разборе.
+ * - Неразрешённые теги заменяются своим текстом, а `script`, `style`,
+ *   `iframe` и т.п. удаляются целиком.
+ * - Удаляются обработчики событий, `style` и другие неразрешённые атрибуты,
+ *   а также ссылки с протоколами кроме http(s), mailto и tel.
+ *
+ * @param {string} html - HTML для очистки (например, результат linkifyHtml).
+ * @returns {ITrustedHtml} Доверенный HTML, который принимает createElement.
+ *
+ * @see {@link ITrustedHtml} - Интерфейс доверенного HTML
+ */
+export default function sanitizeHtml(html: string): ITrustedHtml {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+
+  const trusted: ITrustedHtml = Object.freeze({ value: template.innerHTML });
+  TRUSTED.add(trusted);
+  return trusted;
+}